@@ -2,11 +2,12 @@
 const API_BASE = 'https://dny.li';
 const API_ENDPOINTS = {
   create: '/admin/urls',
-  list: '/all.json'
+  list: '/all.json',
+  utmTemplates: '/admin/utm.json'
 };
 
 // DOM Elements
-let urlInput, slugInput, createBtn, createForm, messageDiv, settingsBtn, settingsPanel, mainPanel;
+let urlInput, slugInput, utmGroup, utmSelect, createBtn, createForm, messageDiv, settingsBtn, settingsPanel, mainPanel;
 let apiTokenInput, saveSettingsBtn, cancelSettingsBtn, searchInput, urlsList, statsDiv, totalCountSpan, refreshBtn;
 
 // State
@@ -20,6 +21,7 @@ document.addEventListener('DOMContentLoaded', async () => {
   await loadSettings();
   await loadCurrentPageInfo();
   await loadExistingUrls();
+  await loadUtmTemplates();
   setupEventListeners();
 });
 
@@ -27,6 +29,8 @@ document.addEventListener('DOMContentLoaded', async () => {
 function initializeElements() {
   urlInput = document.getElementById('url-input');
   slugInput = document.getElementById('slug-input');
+  utmGroup = document.getElementById('utm-group');
+  utmSelect = document.getElementById('utm-select');
   createBtn = document.getElementById('create-btn');
   createForm = document.getElementById('create-form');
   messageDiv = document.getElementById('message');
@@ -132,6 +136,26 @@ async function loadExistingUrls(showLoading = false, bypassCache = false) {
   }
 }
 
+// Templates are only shown when the token can read them
+async function loadUtmTemplates() {
+  if (!apiToken) return;
+
+  try {
+    const response = await fetch(`${API_BASE}${API_ENDPOINTS.utmTemplates}`, {
+      headers: { 'Authorization': `Bearer ${apiToken}` }
+    });
+    if (!response.ok) return;
+
+    const templates = await response.json();
+    utmSelect.innerHTML = '<option value="">None</option>' + templates.map(template =>
+      `<option value="${escapeHtml(template.name)}">${escapeHtml(template.name)}</option>`
+    ).join('');
+    utmGroup.classList.toggle('hidden', templates.length === 0);
+  } catch (error) {
+    console.error('Error loading UTM templates:', error);
+  }
+}
+
 function updateStats() {
   totalCountSpan.textContent = allUrls.length;
 }
@@ -238,6 +262,7 @@ async function handleCreateUrl(e) {
   try {
     const payload = { url };
     if (slug) payload.slug = slug;
+    if (utmSelect.value) payload.utmTemplate = utmSelect.value;
     
     const response = await fetch(`${API_BASE}${API_ENDPOINTS.create}`, {
       method: 'POST',
@@ -331,6 +356,7 @@ async function saveSettings() {
     apiToken = token;
     hideSettings();
     showMessage('Settings saved', 'success');
+    await loadUtmTemplates();
   } catch (error) {
     console.error('Error saving settings:', error);
     showMessage('Failed to save settings', 'error');
@@ -1,4 +1,23 @@
-import { Env, URLRecord } from './types'
+import {
+  Env,
+  URLRecord,
+  URLQuery,
+  URLQueryResult,
+  ImportEntry,
+  ImportFormat,
+  ImportReport,
+  ConflictPolicy,
+  ExportFormat,
+  Actor,
+  Revision,
+  AuditAction,
+  TokenScope,
+  UserRole,
+  RedirectType,
+  QueryPassthrough,
+  UTMParams,
+  UTMTemplate,
+} from './types'
 import {
   checkRateLimit,
   isDangerousURL,
@@ -13,34 +32,230 @@ import {
   deleteURL,
   listAllURLs,
   escapeHTML,
+  getLinkAvailability,
+  isSlugTaken,
+  renameURL,
+  addAlias,
+  removeAlias,
+  normalizeTags,
+  countTags,
+  rebuildIndex,
+  getIndexMeta,
+  listTrashedURLs,
+  restoreURL,
+  purgeURL,
+  getTrashRetentionDays,
+  timingSafeEqual,
+  csrfField,
+  REDIRECT_TYPES,
+  QUERY_PASSTHROUGH,
 } from './index'
-import { SESSION, TIMEOUTS } from './constants'
+import { getLinkStats, renderStatsPage } from './analytics'
+import {
+  parseURLQuery,
+  queryURLs,
+  toSearchParams,
+  matchesQuery,
+} from './search'
+import { parseImport, importURLs } from './import'
+import { exportURLs } from './export'
+import {
+  getHistory,
+  recordRevision,
+  revertToRevision,
+} from './history'
+import {
+  logAuditEvent,
+  parseAuditFilter,
+  listAuditEntries,
+  renderAuditPage,
+} from './audit'
+import {
+  issueToken,
+  listTokens,
+  revokeToken,
+  verifyToken,
+  hasScope,
+  parseTokenForm,
+  renderTokensPage,
+} from './tokens'
+import {
+  ROLE_SCOPES,
+  getUser,
+  listUsers,
+  createUser,
+  updateUser,
+  deleteUser,
+  authenticateUser,
+  renderUsersPage,
+} from './users'
+import {
+  isTwoFactorEnabled,
+  getTwoFactor,
+  startEnrolment,
+  enableTwoFactor,
+  checkTwoFactorCode,
+  regenerateRecoveryCodes,
+  disableTwoFactor,
+  getOtpauthURI,
+  renderTwoFactorPage,
+} from './totp'
+import {
+  createSession,
+  getSessionRecord,
+  touchSession,
+  listSessions,
+  revokeSession,
+  revokeUserSessions,
+  renderSessionsPage,
+} from './sessions'
+import {
+  getLoginThrottle,
+  recordLoginFailure,
+  clearLoginFailures,
+  issueLoginChallenge,
+  checkLoginChallenge,
+  listLockouts,
+  LoginThrottle,
+} from './throttle'
+import { parsePasswordField, toURLInfo } from './protection'
+import {
+  parseUTMParams,
+  readUTMForm,
+  buildLinkUTM,
+  formatUTM,
+  listUTMTemplates,
+  saveUTMTemplate,
+  deleteUTMTemplate,
+  parseUTMTemplateForm,
+  renderUTMTemplatesPage,
+  renderUTMInputs,
+} from './utm'
+import {
+  parseTargetingRules,
+  parseTargetingText,
+  formatTargetingRules,
+  TARGET_OS,
+  TARGET_BROWSERS,
+} from './targeting'
+import { parseVariants, parseVariantsText, formatVariants } from './variants'
+import { SESSION, TIMEOUTS, CLICKS, IMPORT, TOTP, PROTECTED } from './constants'
 
 // ========== Authentication ==========
 
+// Who made a change, as recorded in revision history. Issued API tokens
+// are recorded under their own name.
+const API_KEY_ACTOR: Actor = { type: 'api-key', name: 'API key' }
+const SESSION_ACTOR: Actor = { type: 'session', name: 'Admin session' }
+const ANONYMOUS_ACTOR: Actor = { type: 'anonymous', name: 'Anonymous' }
+
 /**
- * Authenticate API key from Authorization header
+ * Read the Bearer token from the Authorization header
  */
-export function authenticateAPIKey(request: Request, env: Env): boolean {
+function getBearerToken(request: Request): string | null {
   const authHeader = request.headers.get('Authorization')
-  if (!authHeader) return false
+  if (!authHeader) return null
 
   const parts = authHeader.split(' ')
-  if (parts.length !== 2 || parts[0] !== 'Bearer') return false
+  if (parts.length !== 2 || parts[0] !== 'Bearer') return null
+
+  return parts[1]
+}
+
+/**
+ * Authenticate the master API key (API_SECRET) from Authorization header
+ */
+export function authenticateAPIKey(request: Request, env: Env): boolean {
+  const token = getBearerToken(request)
+  return !!token && !!env.API_SECRET && timingSafeEqual(token, env.API_SECRET)
+}
+
+/**
+ * Authenticate an API token from Authorization header. API_SECRET acts as a
+ * master token with every scope, unless two-factor is on for the API_SECRET
+ * login: the secret alone would then skip the code, so scoped tokens are
+ * needed instead.
+ */
+async function authenticateAPIToken(
+  request: Request,
+  env: Env
+): Promise<{ actor: Actor; scopes: TokenScope[] } | null> {
+  if (authenticateAPIKey(request, env)) {
+    if (await isTwoFactorEnabled(env, MASTER_USER_ID)) return null
+    return { actor: API_KEY_ACTOR, scopes: ['admin'] }
+  }
+
+  const value = getBearerToken(request)
+  const token = value ? await verifyToken(env, value) : null
+  if (!token) return null
+
+  return { actor: { type: 'api-key', name: token.name }, scopes: token.scopes }
+}
+
+/**
+ * Work out which scope a route needs. Tokens are checked against their own
+ * scopes and sessions against the scopes of the user's role.
+ */
+function getRequiredScope(
+  method: string,
+  path: string,
+  params: URLSearchParams
+): TokenScope {
+  if (
+    /^\/admin\/(audit|tokens|users)/.test(path) ||
+    path === '/admin/index/rebuild' ||
+    (path === '/admin/export' && params.has('secrets'))
+  ) {
+    return 'admin'
+  }
+  // Everyone manages their own two-factor settings and sessions
+  if (/^\/admin\/(2fa|sessions)/.test(path)) return 'read'
+  if (method === 'GET') return 'read'
+  if (
+    method === 'POST' &&
+    ['/admin/urls', '/admin/import', '/admin/create'].includes(path)
+  ) {
+    return 'create'
+  }
+  if (
+    (method === 'DELETE' && /^\/admin\/urls\/[^/]+$/.test(path)) ||
+    /^\/admin\/(delete|purge)\//.test(path) ||
+    /\/purge$/.test(path)
+  ) {
+    return 'delete'
+  }
+  return 'update'
+}
 
-  const isValid = parts[1] === env.API_SECRET
-  return isValid
+// Session cookies from API_SECRET logins carry this instead of a user id
+const MASTER_USER_ID = 'master'
+
+interface AdminSession {
+  userId: string
+  role: UserRole
+  actor: Actor
+  sessionId?: string // Server-side session record, once signed in
+}
+
+const MASTER_SESSION: AdminSession = {
+  userId: MASTER_USER_ID,
+  role: 'admin',
+  actor: SESSION_ACTOR,
 }
 
 /**
- * Sign a session cookie value using HMAC-SHA256
+ * Sign a session cookie value using HMAC-SHA256. The purpose is part of the
+ * signed data, so a cookie signed for one purpose is useless for another.
+ * Session cookies carry a session id, two-factor cookies a timestamp.
  */
 async function signSessionCookie(
-  timestamp: number,
-  secret: string
+  userId: string,
+  value: string,
+  secret: string,
+  purpose: 'session' | 'two-factor' | 'csrf' = 'session'
 ): Promise<string> {
   const encoder = new TextEncoder()
-  const data = encoder.encode(timestamp.toString())
+  const data = encoder.encode(`${purpose}:${userId}.${value}`)
   const key = await crypto.subtle.importKey(
     'raw',
     encoder.encode(secret),
@@ -55,107 +270,350 @@ async function signSessionCookie(
     .map((b) => b.toString(16).padStart(2, '0'))
     .join('')
 
-  return `${timestamp}.${signatureHex}`
+  return `${userId}.${value}.${signatureHex}`
 }
 
 /**
- * Verify a session cookie and return the timestamp if valid
+ * Verify a session cookie and return the user id and value if valid
  */
 async function verifySessionCookie(
   cookieValue: string,
-  secret: string
-): Promise<number | null> {
+  secret: string,
+  purpose: 'session' | 'two-factor' = 'session'
+): Promise<{ userId: string; value: string } | null> {
   try {
     const parts = cookieValue.split('.')
-    if (parts.length !== 2) return null
-
-    const timestamp = parseInt(parts[0])
-    const providedSignature = parts[1]
+    if (parts.length !== 3) return null
 
-    if (isNaN(timestamp)) return null
-
-    // Check if session is expired
-    const sevenDaysMs = SESSION.DURATION_MS
-    if (Date.now() - timestamp > sevenDaysMs) return null
+    const [userId, value, providedSignature] = parts
+    if (!userId || !value) return null
 
     // Verify signature
-    const expectedCookie = await signSessionCookie(timestamp, secret)
-    const expectedSignature = expectedCookie.split('.')[1]
-
-    // Constant-time comparison to prevent timing attacks
-    if (providedSignature.length !== expectedSignature.length) return null
-
-    let result = 0
-    for (let i = 0; i < providedSignature.length; i++) {
-      result |=
-        providedSignature.charCodeAt(i) ^ expectedSignature.charCodeAt(i)
-    }
+    const expectedCookie = await signSessionCookie(
+      userId,
+      value,
+      secret,
+      purpose
+    )
+    const expectedSignature = expectedCookie.split('.')[2]
 
-    return result === 0 ? timestamp : null
+    return timingSafeEqual(providedSignature, expectedSignature)
+      ? { userId, value }
+      : null
   } catch {
     return null
   }
 }
 
 /**
- * Check if user is authenticated via session cookie
+ * Read a cookie from the request
  */
-async function isAuthenticated(request: Request, env: Env): Promise<boolean> {
-  if (!env.API_SECRET) {
-    return true // No auth required if no secret set (dev mode)
-  }
-
+export function getCookie(request: Request, name: string): string | null {
   const cookies = request.headers.get('Cookie')
   if (!cookies) {
-    return false
+    return null
   }
 
   // Parse cookies more reliably to avoid conflicts with other session cookies
   const cookiePairs = cookies.split(';').map((c) => c.trim())
-  let sessionValue = null
-
   for (const pair of cookiePairs) {
-    if (pair.startsWith('url_shortener_session=')) {
-      sessionValue = pair.substring('url_shortener_session='.length)
-      break
+    if (pair.startsWith(`${name}=`)) {
+      return pair.substring(name.length + 1)
     }
   }
 
+  return null
+}
+
+/**
+ * Name a session's account in authenticator apps
+ */
+function getAccountName(session: AdminSession): string {
+  return session.userId === MASTER_USER_ID ? 'admin' : session.actor.name
+}
+
+/**
+ * Load the session for a user id. Users who have been deleted get none.
+ */
+async function loadSession(
+  env: Env,
+  userId: string
+): Promise<AdminSession | null> {
+  if (userId === MASTER_USER_ID) return MASTER_SESSION
+
+  const user = await getUser(env, userId)
+  if (!user) return null
+
+  return {
+    userId: user.id,
+    role: user.role,
+    actor: { type: 'session', name: user.username },
+  }
+}
+
+/**
+ * Get the signed-in user from the session cookie. The session must still
+ * exist in KV, so revoked and expired sessions are signed out, as are
+ * deleted users; role changes apply straight away.
+ */
+async function getSession(
+  request: Request,
+  env: Env
+): Promise<AdminSession | null> {
+  if (!env.API_SECRET) {
+    return MASTER_SESSION // No auth required if no secret set (dev mode)
+  }
+
+  const sessionValue = getCookie(request, 'url_shortener_session')
   if (!sessionValue) {
-    return false
+    return null
   }
 
-  const timestamp = await verifySessionCookie(sessionValue, env.API_SECRET)
-  return timestamp !== null
+  const verified = await verifySessionCookie(sessionValue, env.API_SECRET)
+  if (!verified) return null
+
+  const record = await getSessionRecord(env, verified.value)
+  if (!record || record.userId !== verified.userId) return null
+
+  const session = await loadSession(env, record.userId)
+  if (!session) return null
+
+  await touchSession(env, record, request)
+  return { ...session, sessionId: record.id }
 }
 
 /**
- * Create a new session cookie
+ * Start a server-side session and create its cookie
  */
 async function createSessionCookie(
   env: Env,
-  isSecure: boolean = true
+  userId: string,
+  request: Request
 ): Promise<string> {
-  const timestamp = Date.now()
-  const cookieValue = await signSessionCookie(timestamp, env.API_SECRET)
+  const session = await createSession(env, userId, request)
+  const cookieValue = await signSessionCookie(
+    userId,
+    session.id,
+    env.API_SECRET
+  )
 
+  // The cookie outlives the inactivity timeout, which is enforced in KV
+  const isSecure = new URL(request.url).protocol === 'https:'
   const secureFlag = isSecure ? '; Secure' : ''
   return `url_shortener_session=${cookieValue}; HttpOnly${secureFlag}; SameSite=Strict; Max-Age=${
-SESSION.DURATION_SECONDS
+SESSION.MAX_LIFETIME_SECONDS
   }; Path=/`
 }
 
+/**
+ * Get the CSRF token for a session's forms. It is derived from the
+ * server-side session, so it changes at every sign-in and stops working
+ * when the session ends.
+ */
+async function getCSRFToken(env: Env, session: AdminSession): Promise<string> {
+  if (!env.API_SECRET || !session.sessionId) return ''
+
+  const signed = await signSessionCookie(
+    session.userId,
+    session.sessionId,
+    env.API_SECRET,
+    'csrf'
+  )
+  return signed.split('.')[2]
+}
+
+/**
+ * Check that a request came from one of our own pages, by its Origin header
+ * or, failing that, its Referer
+ */
+function isSameOrigin(request: Request): boolean {
+  const expected = new URL(request.url).origin
+  const origin = request.headers.get('Origin')
+  if (origin) return origin === expected
+
+  const referer = request.headers.get('Referer')
+  if (!referer) return false
+  try {
+    return new URL(referer).origin === expected
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Check a state-changing request made with the session cookie. It must come
+ * from our own origin and, for form posts, carry the session's CSRF token.
+ * Returns an error message, or null if the request is allowed.
+ */
+async function checkCSRF(
+  request: Request,
+  env: Env,
+  session: AdminSession,
+  requireToken: boolean
+): Promise<string | null> {
+  if (!isSameOrigin(request)) return 'Cross-site request blocked'
+  if (!requireToken) return null
+
+  const formData = await request
+    .clone()
+    .formData()
+    .catch(() => null)
+  const token = (formData?.get('csrf_token') as string) || ''
+  const expected = await getCSRFToken(env, session)
+
+  return token && timingSafeEqual(token, expected)
+    ? null
+    : 'Invalid or missing CSRF token. Reload the page and try again.'
+}
+
 // ========== API Endpoints ==========
 
+interface ScheduleInput {
+  activatesAt?: string | null
+  expiresAt?: string | null
+  maxClicks?: number | string | null
+  fallbackUrl?: string | null
+}
+
+/**
+ * Parse the optional schedule and limit fields shared by create and update.
+ * Missing fields are left untouched; empty fields are cleared.
+ */
+function parseScheduleFields(body: ScheduleInput): {
+  updates: Partial<URLRecord>
+  error?: string
+} {
+  const updates: Partial<URLRecord> = {}
+
+  for (const field of ['activatesAt', 'expiresAt'] as const) {
+    const value = body[field]
+    if (value === undefined) continue
+    if (value === null || value === '') {
+      updates[field] = undefined
+      continue
+    }
+
+    // datetime-local form inputs have no timezone, so treat them as UTC
+    const iso = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/.test(value)
+      ? `${value}:00Z`
+      : value
+    const date = new Date(iso)
+    if (isNaN(date.getTime())) {
+      return { updates, error: `Invalid ${field} date` }
+    }
+    updates[field] = date.toISOString()
+  }
+
+  if (
+    updates.activatesAt &&
+    updates.expiresAt &&
+    updates.activatesAt >= updates.expiresAt
+  ) {
+    return { updates, error: 'expiresAt must be after activatesAt' }
+  }
+
+  if (body.maxClicks !== undefined) {
+    if (body.maxClicks === null || body.maxClicks === '') {
+      updates.maxClicks = undefined
+    } else {
+      const maxClicks = Number(body.maxClicks)
+      if (!Number.isInteger(maxClicks) || maxClicks < 1) {
+        return { updates, error: 'maxClicks must be a positive whole number' }
+      }
+      updates.maxClicks = maxClicks
+    }
+  }
+
+  if (body.fallbackUrl !== undefined) {
+    if (body.fallbackUrl === null || body.fallbackUrl === '') {
+      updates.fallbackUrl = undefined
+    } else {
+      const fallbackUrl = normalizeURL(body.fallbackUrl)
+      if (!isValidURL(fallbackUrl) || isDangerousURL(fallbackUrl)) {
+        return { updates, error: 'Invalid fallback URL' }
+      }
+      updates.fallbackUrl = fallbackUrl
+    }
+  }
+
+  return { updates }
+}
+
+/**
+ * Parse the optional redirect type shared by create and update. Missing
+ * leaves it untouched; empty clears it so the site default applies.
+ */
+function parseRedirectType(value: number | string | null | undefined): {
+  redirectType?: RedirectType | null
+  error?: string
+} {
+  if (value === undefined) return {}
+  if (value === null || value === '') return { redirectType: null }
+
+  const redirectType = Number(value) as RedirectType
+  if (!REDIRECT_TYPES.includes(redirectType)) {
+    return { error: 'redirectType must be 301, 302, 307 or 308' }
+  }
+  return { redirectType }
+}
+
+interface ForwardingInput {
+  queryPassthrough?: string | null
+  prefix?: boolean | null
+}
+
+/**
+ * Parse the query passthrough and prefix options shared by create and
+ * update. Missing fields are left untouched; empty or false clears them.
+ */
+function parseForwardingFields(body: ForwardingInput): {
+  updates: Partial<URLRecord>
+  error?: string
+} {
+  const updates: Partial<URLRecord> = {}
+
+  if (body.queryPassthrough !== undefined) {
+    const mode = body.queryPassthrough || undefined
+    if (mode && !QUERY_PASSTHROUGH.includes(mode as QueryPassthrough)) {
+      return {
+        updates,
+        error: 'queryPassthrough must be incoming, destination or both',
+      }
+    }
+    updates.queryPassthrough = mode as QueryPassthrough | undefined
+  }
+
+  if (body.prefix !== undefined) {
+    if (body.prefix !== null && typeof body.prefix !== 'boolean') {
+      return { updates, error: 'prefix must be true or false' }
+    }
+    updates.prefix = body.prefix || undefined
+  }
+
+  return { updates }
+}
+
 /**
  * Handle POST /admin/urls - Create new URL
  */
 export async function handleCreateURL(
   request: Request,
-  env: Env
+  env: Env,
+  actor: Actor = API_KEY_ACTOR
 ): Promise<Response> {
   try {
-    const body = (await request.json()) as { url: string; slug?: string }
+    const body = (await request.json()) as {
+      url: string
+      slug?: string
+      tags?: string[] | string
+      password?: string | null
+      redirectType?: number | string | null
+      utmTemplate?: string
+      utm?: UTMParams | null
+      targets?: unknown
+      variants?: unknown
+    } & ScheduleInput &
+      ForwardingInput
 
     if (!body.url) {
       return new Response(JSON.stringify({ error: 'URL is required' }), {
@@ -184,6 +642,70 @@ export async function handleCreateURL(
       )
     }
 
+    const schedule = parseScheduleFields(body)
+    if (schedule.error) {
+      return new Response(JSON.stringify({ error: schedule.error }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    const tags = body.tags !== undefined ? normalizeTags(body.tags) : []
+    if (!tags) {
+      return new Response(JSON.stringify({ error: 'Invalid tags' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    const protection = await parsePasswordField(body.password)
+    if (protection.error) {
+      return new Response(JSON.stringify({ error: protection.error }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    const redirect = parseRedirectType(body.redirectType)
+    if (redirect.error) {
+      return new Response(JSON.stringify({ error: redirect.error }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    const forwarding = parseForwardingFields(body)
+    if (forwarding.error) {
+      return new Response(JSON.stringify({ error: forwarding.error }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    const utm = await buildLinkUTM(env, body.utmTemplate, body.utm)
+    if (utm.error) {
+      return new Response(JSON.stringify({ error: utm.error }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    const targeting = parseTargetingRules(body.targets)
+    if (targeting.error) {
+      return new Response(JSON.stringify({ error: targeting.error }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    const split = parseVariants(body.variants)
+    if (split.error) {
+      return new Response(JSON.stringify({ error: split.error }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
     // Handle slug
     let slug: string
     if (body.slug) {
@@ -195,9 +717,8 @@ export async function handleCreateURL(
         })
       }
 
-      // Check if slug already exists
-      const existing = await getURL(env, slug)
-      if (existing) {
+      // Check if slug already exists (as a URL or an alias)
+      if (await isSlugTaken(env, slug)) {
         return new Response(JSON.stringify({ error: 'Slug already exists' }), {
           status: 409,
           headers: { 'Content-Type': 'application/json' },
@@ -217,14 +738,24 @@ export async function handleCreateURL(
       created: new Date().toISOString(),
       updated: new Date().toISOString(),
       metadata,
+      ...schedule.updates,
+      tags: tags.length ? tags : undefined,
+      createdBy: actor.name,
+      passwordHash: protection.passwordHash || undefined,
+      redirectType: redirect.redirectType || undefined,
+      ...forwarding.updates,
+      utm: utm.utm,
+      targets: targeting.targets || undefined,
+      variants: split.variants || undefined,
     }
 
     await storeURL(env, record)
+    await recordRevision(env, slug, null, record, actor, 'create')
 
     return new Response(
       JSON.stringify({
         success: true,
-        data: record,
+        data: toURLInfo(record),
         shortUrl: `https://${env.DOMAIN}/${slug}`,
       }),
       {
@@ -241,81 +772,34 @@ export async function handleCreateURL(
 }
 
 /**
- * Handle PUT /admin/urls/{slug} - Update existing URL
+ * Handle GET /admin/urls - Search, filter, sort and paginate URLs
  */
-export async function handleUpdateURL(
+export async function handleListURLs(
   request: Request,
   env: Env
 ): Promise<Response> {
   try {
     const url = new URL(request.url)
-    const pathParts = url.pathname.split('/')
-    const slug = pathParts[pathParts.length - 1]
-
-    if (!slug) {
-      return new Response(JSON.stringify({ error: 'Slug is required' }), {
-        status: 400,
-        headers: { 'Content-Type': 'application/json' },
-      })
-    }
+    const { query, error } = parseURLQuery(url.searchParams)
 
-    const body = (await request.json()) as { url?: string }
-
-    if (!body.url) {
-      return new Response(JSON.stringify({ error: 'URL is required' }), {
-        status: 400,
-        headers: { 'Content-Type': 'application/json' },
-      })
-    }
-
-    // Check if record exists
-    const existing = await getURL(env, slug)
-    if (!existing) {
-      return new Response(JSON.stringify({ error: 'URL not found' }), {
-        status: 404,
-        headers: { 'Content-Type': 'application/json' },
-      })
-    }
-
-    // Normalize and validate new URL
-    const normalizedURL = normalizeURL(body.url)
-    if (!isValidURL(normalizedURL)) {
-      return new Response(JSON.stringify({ error: 'Invalid URL format' }), {
+    if (error) {
+      return new Response(JSON.stringify({ error }), {
         status: 400,
         headers: { 'Content-Type': 'application/json' },
       })
     }
 
-    // Check for dangerous URLs
-    if (isDangerousURL(normalizedURL)) {
-      return new Response(
-        JSON.stringify({ error: 'URL contains dangerous content' }),
-        {
-          status: 400,
-          headers: { 'Content-Type': 'application/json' },
-        }
-      )
-    }
-
-    // Fetch new metadata if URL changed
-    let metadata = existing.metadata
-    if (normalizedURL !== existing.url) {
-      metadata = await fetchPageMetadata(normalizedURL, TIMEOUTS.METADATA_FETCH_MS)
-    }
-
-    // Update record
-    await updateURL(env, slug, {
-      url: normalizedURL,
-      metadata,
-    })
-
-    const updated = await getURL(env, slug)
+    const result = await queryURLs(env, query)
 
     return new Response(
       JSON.stringify({
         success: true,
-        data: updated,
-        shortUrl: `https://${env.DOMAIN}/${slug}`,
+        data: result.items.map((record) => ({
+          ...toURLInfo(record),
+          clicks: result.clicks[record.slug],
+        })),
+        total: result.total,
+        cursor: result.cursor,
       }),
       {
         status: 200,
@@ -331,39 +815,682 @@ export async function handleUpdateURL(
 }
 
 /**
- * Handle DELETE /admin/urls/{slug} - Delete URL
+ * Handle POST /admin/index/rebuild - Rebuild the URL index from the primary
+ * records. Each call covers one page; repeat until data.done is true.
  */
-export async function handleDeleteURL(
+export async function handleRebuildIndex(
   request: Request,
   env: Env
 ): Promise<Response> {
   try {
-    const url = new URL(request.url)
-    const pathParts = url.pathname.split('/')
-    const slug = pathParts[pathParts.length - 1]
-
-    if (!slug) {
-      return new Response(JSON.stringify({ error: 'Slug is required' }), {
-        status: 400,
-        headers: { 'Content-Type': 'application/json' },
-      })
-    }
+    const progress = await rebuildIndex(env)
+    const data = progress.done
+      ? { ...(await getIndexMeta(env)), done: true }
+      : progress
 
-    // Check if record exists
-    const existing = await getURL(env, slug)
-    if (!existing) {
-      return new Response(JSON.stringify({ error: 'URL not found' }), {
-        status: 404,
-        headers: { 'Content-Type': 'application/json' },
-      })
+    return new Response(JSON.stringify({ success: true, data }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  } catch (error) {
+    return new Response(JSON.stringify({ error: 'Internal server error' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  }
+}
+
+/**
+ * Handle POST /admin/import - Bulk import URLs from a backup or another shortener.
+ * The file is the request body; format, conflict and dryRun are query params.
+ */
+export async function handleImport(
+  request: Request,
+  env: Env,
+  actor: Actor = API_KEY_ACTOR
+): Promise<Response> {
+  try {
+    const url = new URL(request.url)
+    const format = (url.searchParams.get('format') || 'json') as ImportFormat
+    const conflict = (url.searchParams.get('conflict') ||
+      'skip') as ConflictPolicy
+    const dryRun = ['1', 'true'].includes(url.searchParams.get('dryRun') || '')
+
+    if (!['json', 'csv', 'bitly', 'shlink'].includes(format)) {
+      return new Response(JSON.stringify({ error: 'Invalid format' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    if (!['skip', 'overwrite', 'suffix'].includes(conflict)) {
+      return new Response(JSON.stringify({ error: 'Invalid conflict policy' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    let entries: ImportEntry[]
+    try {
+      entries = parseImport(await request.text(), format)
+    } catch (error) {
+      return new Response(
+        JSON.stringify({
+          error: `Could not read import data: ${(error as Error).message}`,
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      )
+    }
+
+    if (entries.length === 0) {
+      return new Response(JSON.stringify({ error: 'No URLs to import' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    if (entries.length > IMPORT.MAX_ENTRIES) {
+      return new Response(
+        JSON.stringify({
+          error: `Too many URLs (maximum ${IMPORT.MAX_ENTRIES} per import)`,
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      )
+    }
+
+    const report = await importURLs(env, entries, {
+      format,
+      conflict,
+      dryRun,
+      actor,
+    })
+
+    return new Response(JSON.stringify({ success: true, data: report }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  } catch (error) {
+    return new Response(JSON.stringify({ error: 'Internal server error' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  }
+}
+
+/**
+ * Handle GET /admin/export - Download URLs as JSON, NDJSON, CSV or bookmarks.
+ * Accepts the list filters (tag, from, to, q, domain) plus metadata, clicks
+ * and, for admins, secrets to keep passphrase hashes in a full backup.
+ */
+export async function handleExport(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  try {
+    const url = new URL(request.url)
+    const params = url.searchParams
+    const format = (params.get('format') || 'json') as ExportFormat
+
+    if (!['json', 'ndjson', 'csv', 'html'].includes(format)) {
+      return new Response(JSON.stringify({ error: 'Invalid format' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    const { query, error } = parseURLQuery(params)
+    if (error) {
+      return new Response(JSON.stringify({ error }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    // Passphrase hashes only go into full backups, which import can restore
+    const secrets = ['1', 'true'].includes(params.get('secrets') || '')
+    if (secrets && format !== 'json' && format !== 'ndjson') {
+      return new Response(
+        JSON.stringify({ error: 'secrets is only available for JSON and NDJSON' }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      )
+    }
+
+    const records = (await listAllURLs(env)).filter((record) =>
+      matchesQuery(record, query)
+    )
+    const file = await exportURLs(env, records, {
+      format,
+      metadata: !['0', 'false'].includes(params.get('metadata') || ''),
+      clicks: ['1', 'true'].includes(params.get('clicks') || ''),
+      secrets,
+    })
+
+    return new Response(file.body, {
+      status: 200,
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+      },
+    })
+  } catch (error) {
+    return new Response(JSON.stringify({ error: 'Internal server error' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  }
+}
+
+/**
+ * Handle PUT /admin/urls/{slug} - Update existing URL
+ */
+export async function handleUpdateURL(
+  request: Request,
+  env: Env,
+  actor: Actor = API_KEY_ACTOR
+): Promise<Response> {
+  try {
+    const url = new URL(request.url)
+    const pathParts = url.pathname.split('/')
+    const slug = pathParts[pathParts.length - 1]
+
+    if (!slug) {
+      return new Response(JSON.stringify({ error: 'Slug is required' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    const body = (await request.json()) as {
+      url?: string
+      tags?: string[] | string
+      password?: string | null
+      redirectType?: number | string | null
+      utm?: UTMParams | null
+      targets?: unknown
+      variants?: unknown
+    } & ScheduleInput &
+      ForwardingInput
+
+    if (!body.url) {
+      return new Response(JSON.stringify({ error: 'URL is required' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    // Check if record exists
+    const existing = await getURL(env, slug)
+    if (!existing) {
+      return new Response(JSON.stringify({ error: 'URL not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    // Normalize and validate new URL
+    const normalizedURL = normalizeURL(body.url)
+    if (!isValidURL(normalizedURL)) {
+      return new Response(JSON.stringify({ error: 'Invalid URL format' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    // Check for dangerous URLs
+    if (isDangerousURL(normalizedURL)) {
+      return new Response(
+        JSON.stringify({ error: 'URL contains dangerous content' }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      )
+    }
+
+    const schedule = parseScheduleFields(body)
+    if (schedule.error) {
+      return new Response(JSON.stringify({ error: schedule.error }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    // Tags are only changed when provided
+    let tags = existing.tags
+    if (body.tags !== undefined) {
+      const normalized = normalizeTags(body.tags)
+      if (!normalized) {
+        return new Response(JSON.stringify({ error: 'Invalid tags' }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        })
+      }
+      tags = normalized.length ? normalized : undefined
+    }
+
+    // The passphrase is only changed when provided
+    const protection = await parsePasswordField(body.password)
+    if (protection.error) {
+      return new Response(JSON.stringify({ error: protection.error }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    const redirect = parseRedirectType(body.redirectType)
+    if (redirect.error) {
+      return new Response(JSON.stringify({ error: redirect.error }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    const forwarding = parseForwardingFields(body)
+    if (forwarding.error) {
+      return new Response(JSON.stringify({ error: forwarding.error }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    const utm = parseUTMParams(body.utm)
+    if (utm.error) {
+      return new Response(JSON.stringify({ error: utm.error }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    const targeting = parseTargetingRules(body.targets)
+    if (targeting.error) {
+      return new Response(JSON.stringify({ error: targeting.error }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    const split = parseVariants(body.variants)
+    if (split.error) {
+      return new Response(JSON.stringify({ error: split.error }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    // Fetch new metadata if URL changed
+    let metadata = existing.metadata
+    if (normalizedURL !== existing.url) {
+      metadata = await fetchPageMetadata(normalizedURL, TIMEOUTS.METADATA_FETCH_MS)
+    }
+
+    // Update record
+    await updateURL(env, slug, {
+      url: normalizedURL,
+      metadata,
+      ...schedule.updates,
+      tags,
+      ...(protection.passwordHash !== undefined
+        ? { passwordHash: protection.passwordHash || undefined }
+        : {}),
+      ...(redirect.redirectType !== undefined
+        ? { redirectType: redirect.redirectType || undefined }
+        : {}),
+      ...forwarding.updates,
+      ...(utm.utm !== undefined ? { utm: utm.utm || undefined } : {}),
+      ...(targeting.targets !== undefined
+        ? { targets: targeting.targets || undefined }
+        : {}),
+      ...(split.variants !== undefined
+        ? { variants: split.variants || undefined }
+        : {}),
+    })
+
+    const updated = await getURL(env, slug)
+    await recordRevision(env, slug, existing, updated, actor, 'update')
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: updated && toURLInfo(updated),
+        shortUrl: `https://${env.DOMAIN}/${slug}`,
+      }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    )
+  } catch (error) {
+    return new Response(JSON.stringify({ error: 'Internal server error' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  }
+}
+
+/**
+ * Handle POST /admin/urls/{slug}/rename - Move a URL to a new slug
+ */
+export async function handleRenameURL(
+  request: Request,
+  env: Env,
+  actor: Actor = API_KEY_ACTOR
+): Promise<Response> {
+  try {
+    const url = new URL(request.url)
+    const pathParts = url.pathname.split('/')
+    const slug = pathParts[pathParts.length - 2]
+
+    const body = (await request.json()) as { slug?: string }
+    const newSlug = body.slug?.toLowerCase()
+
+    if (!newSlug) {
+      return new Response(JSON.stringify({ error: 'New slug is required' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    if (!isValidCustomSlug(newSlug)) {
+      return new Response(JSON.stringify({ error: 'Invalid slug format' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    const existing = await getURL(env, slug)
+    if (!existing) {
+      return new Response(JSON.stringify({ error: 'URL not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    // Renaming back to one of the record's own aliases is allowed
+    const isOwnAlias = existing.aliases?.includes(newSlug)
+    if (
+      newSlug === slug ||
+      (!isOwnAlias && (await isSlugTaken(env, newSlug)))
+    ) {
+      return new Response(JSON.stringify({ error: 'Slug already exists' }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    const renamed = await renameURL(env, slug, newSlug)
+    await recordRevision(env, newSlug, existing, renamed, actor, 'rename')
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: toURLInfo(renamed),
+        shortUrl: `https://${env.DOMAIN}/${newSlug}`,
+      }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    )
+  } catch (error) {
+    return new Response(JSON.stringify({ error: 'Internal server error' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  }
+}
+
+/**
+ * Handle POST /admin/urls/{slug}/aliases - Add an alias slug
+ */
+export async function handleAddAlias(
+  request: Request,
+  env: Env,
+  actor: Actor = API_KEY_ACTOR
+): Promise<Response> {
+  try {
+    const url = new URL(request.url)
+    const pathParts = url.pathname.split('/')
+    const slug = pathParts[pathParts.length - 2]
+
+    const body = (await request.json()) as { alias?: string }
+    const alias = body.alias?.toLowerCase()
+
+    if (!alias || !isValidCustomSlug(alias)) {
+      return new Response(JSON.stringify({ error: 'Invalid alias format' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    const existing = await getURL(env, slug)
+    if (!existing) {
+      return new Response(JSON.stringify({ error: 'URL not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    if (await isSlugTaken(env, alias)) {
+      return new Response(JSON.stringify({ error: 'Slug already exists' }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    const updated = await addAlias(env, slug, alias)
+    await recordRevision(env, slug, existing, updated, actor, 'alias')
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: toURLInfo(updated),
+        shortUrl: `https://${env.DOMAIN}/${alias}`,
+      }),
+      {
+        status: 201,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    )
+  } catch (error) {
+    return new Response(JSON.stringify({ error: 'Internal server error' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  }
+}
+
+/**
+ * Handle DELETE /admin/urls/{slug}/aliases/{alias} - Remove an alias slug
+ */
+export async function handleRemoveAlias(
+  request: Request,
+  env: Env,
+  actor: Actor = API_KEY_ACTOR
+): Promise<Response> {
+  try {
+    const url = new URL(request.url)
+    const pathParts = url.pathname.split('/')
+    const slug = pathParts[pathParts.length - 3]
+    const alias = pathParts[pathParts.length - 1]
+
+    const existing = await getURL(env, slug)
+    if (!existing || !existing.aliases?.includes(alias)) {
+      return new Response(JSON.stringify({ error: 'Alias not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    const updated = await removeAlias(env, slug, alias)
+    await recordRevision(env, slug, existing, updated, actor, 'alias')
+
+    return new Response(JSON.stringify({ success: true, data: toURLInfo(updated) }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  } catch (error) {
+    return new Response(JSON.stringify({ error: 'Internal server error' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  }
+}
+
+/**
+ * Handle GET /admin/urls/{slug}/stats - Click stats for a URL
+ */
+export async function handleGetStats(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  try {
+    const url = new URL(request.url)
+    const pathParts = url.pathname.split('/')
+    const slug = pathParts[pathParts.length - 2]
+
+    const existing = await getURL(env, slug)
+    if (!existing) {
+      return new Response(JSON.stringify({ error: 'URL not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    const stats = await getLinkStats(env, slug)
+
+    return new Response(JSON.stringify({ success: true, data: stats }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  } catch (error) {
+    return new Response(JSON.stringify({ error: 'Internal server error' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  }
+}
+
+/**
+ * Handle DELETE /admin/urls/{slug} - Move URL to the trash
+ */
+export async function handleDeleteURL(
+  request: Request,
+  env: Env,
+  actor: Actor = API_KEY_ACTOR
+): Promise<Response> {
+  try {
+    const url = new URL(request.url)
+    const pathParts = url.pathname.split('/')
+    const slug = pathParts[pathParts.length - 1]
+
+    if (!slug) {
+      return new Response(JSON.stringify({ error: 'Slug is required' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    // Check if record exists
+    const existing = await getURL(env, slug)
+    if (!existing) {
+      return new Response(JSON.stringify({ error: 'URL not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    const deleted = await deleteURL(env, slug)
+    await recordRevision(env, slug, existing, deleted, actor, 'delete')
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        message: 'URL moved to trash',
+      }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    )
+  } catch (error) {
+    return new Response(JSON.stringify({ error: 'Internal server error' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  }
+}
+
+/**
+ * Handle POST /admin/urls/{slug}/restore - Restore URL from the trash
+ */
+export async function handleRestoreURL(
+  request: Request,
+  env: Env,
+  actor: Actor = API_KEY_ACTOR
+): Promise<Response> {
+  try {
+    const url = new URL(request.url)
+    const pathParts = url.pathname.split('/')
+    const slug = pathParts[pathParts.length - 2]
+
+    const existing = await getURL(env, slug, { includeDeleted: true })
+    if (!existing?.deletedAt) {
+      return new Response(JSON.stringify({ error: 'URL not found in trash' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    const restored = await restoreURL(env, slug)
+    await recordRevision(env, slug, existing, restored, actor, 'restore')
+
+    return new Response(JSON.stringify({ success: true, data: toURLInfo(restored) }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  } catch (error) {
+    return new Response(JSON.stringify({ error: 'Internal server error' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  }
+}
+
+/**
+ * Handle POST /admin/urls/{slug}/purge - Permanently delete URL from the trash
+ */
+export async function handlePurgeURL(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  try {
+    const url = new URL(request.url)
+    const pathParts = url.pathname.split('/')
+    const slug = pathParts[pathParts.length - 2]
+
+    const existing = await getURL(env, slug, { includeDeleted: true })
+    if (!existing?.deletedAt) {
+      return new Response(JSON.stringify({ error: 'URL not found in trash' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      })
     }
 
-    await deleteURL(env, slug)
+    await purgeURL(env, slug)
 
     return new Response(
       JSON.stringify({
         success: true,
-        message: 'URL deleted successfully',
+        message: 'URL permanently deleted',
       }),
       {
         status: 200,
@@ -378,20 +1505,208 @@ export async function handleDeleteURL(
   }
 }
 
+/**
+ * Handle GET /admin/urls/{slug}/history - Revision log for a URL, newest first
+ */
+export async function handleGetHistory(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  try {
+    const url = new URL(request.url)
+    const pathParts = url.pathname.split('/')
+    const slug = pathParts[pathParts.length - 2]
+
+    const existing = await getURL(env, slug, { includeDeleted: true })
+    if (!existing) {
+      return new Response(JSON.stringify({ error: 'URL not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    const history = await getHistory(env, slug)
+
+    return new Response(
+      JSON.stringify({ success: true, data: history.reverse() }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    )
+  } catch (error) {
+    return new Response(JSON.stringify({ error: 'Internal server error' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  }
+}
+
+/**
+ * Handle POST /admin/urls/{slug}/revert - Revert a URL to an earlier revision
+ */
+export async function handleRevertURL(
+  request: Request,
+  env: Env,
+  actor: Actor = API_KEY_ACTOR
+): Promise<Response> {
+  try {
+    const url = new URL(request.url)
+    const pathParts = url.pathname.split('/')
+    const slug = pathParts[pathParts.length - 2]
+
+    const body = (await request.json()) as { revision?: number | string }
+    const revision = Number(body.revision)
+
+    if (!Number.isInteger(revision) || revision < 1) {
+      return new Response(JSON.stringify({ error: 'Revision is required' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    const existing = await getURL(env, slug)
+    if (!existing) {
+      return new Response(JSON.stringify({ error: 'URL not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    const history = await getHistory(env, slug)
+    if (!history.some((r) => r.id === revision)) {
+      return new Response(JSON.stringify({ error: 'Revision not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    const { before, after } = await revertToRevision(env, slug, revision)
+    await recordRevision(env, slug, before, after, actor, 'revert', revision)
+
+    return new Response(JSON.stringify({ success: true, data: toURLInfo(after) }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  } catch (error) {
+    return new Response(JSON.stringify({ error: 'Internal server error' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  }
+}
+
+/**
+ * Handle GET /admin/audit.json - Audit log feed, newest first
+ */
+export async function handleListAudit(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  try {
+    const url = new URL(request.url)
+    const { filter, error } = parseAuditFilter(url.searchParams)
+
+    if (error) {
+      return new Response(JSON.stringify({ error }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    const { entries, cursor } = await listAuditEntries(
+      env,
+      filter,
+      url.searchParams.get('cursor') || undefined
+    )
+
+    return new Response(
+      JSON.stringify({ success: true, data: entries, cursor }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    )
+  } catch (error) {
+    return new Response(JSON.stringify({ error: 'Internal server error' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  }
+}
+
+/**
+ * Record the outcome of a data-changing request in the audit log
+ */
+async function withAudit(
+  env: Env,
+  request: Request,
+  action: AuditAction,
+  actor: Actor,
+  target: string | undefined,
+  pending: Promise<Response>
+): Promise<Response> {
+  const response = await pending
+  const result = (await response
+    .clone()
+    .json()
+    .catch(() => ({}))) as {
+    data?: {
+      slug?: string
+      dryRun?: boolean
+      summary?: ImportReport['summary']
+    }
+    error?: string
+  }
+
+  const summary = result.data?.summary
+  await logAuditEvent(env, request, {
+    action,
+    outcome: response.ok ? 'success' : 'failure',
+    actor,
+    target: target || result.data?.slug,
+    detail: !response.ok
+      ? result.error
+      : summary
+        ? `${result.data?.dryRun ? 'Dry run: ' : ''}${summary.created} created, ${summary.overwritten} overwritten, ${summary.skipped} skipped, ${summary.failed} failed`
+        : undefined,
+  })
+
+  return response
+}
+
 // ========== HTML Templates ==========
 
+export interface AdminPageData {
+  result: URLQueryResult
+  query: URLQuery
+  tags: { tag: string; count: number }[]
+  totals: { total: number; createdToday: number }
+  utmTemplates: UTMTemplate[]
+}
+
 /**
  * Render the main admin page
  */
 export function renderAdminPage(
-  urls: URLRecord[],
+  page: AdminPageData,
   domain: string,
+  csrfToken: string,
   message?: { type: 'success' | 'error'; text: string; newShortUrl?: string }
 ): string {
+  const { result, query } = page
+  const urls = result.items
+  const clicks = result.clicks
+  const isFiltered = Boolean(
+    query.q || query.domain || query.tag || query.campaign || query.from || query.to
+  )
+  const campaignOf = (url: URLRecord) => url.utm?.campaign || ''
+
   const icon = {
     copy: `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><rect x="9" y="9" width="13" height="13" rx="2" ry="2"></rect><path d="M5 15H4a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2h9a2 2 0 0 1 2 2v1"></path></svg>`,
     check: `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><polyline points="20 6 9 17 4 12"></polyline></svg>`,
     edit: `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M11 4H4a2 2 0 0 0-2 2v14a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2v-7"></path><path d="M18.5 2.5a2.121 2.121 0 0 1 3 3L12 15l-4 1 1-4 9.5-9.5z"></path></svg>`,
+    stats: `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><line x1="18" y1="20" x2="18" y2="10"></line><line x1="12" y1="20" x2="12" y2="4"></line><line x1="6" y1="20" x2="6" y2="14"></line></svg>`,
     delete: `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><polyline points="3 6 5 6 21 6"></polyline><path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"></path><line x1="10" y1="11" x2="10" y2="17"></line><line x1="14" y1="11" x2="14" y2="17"></line></svg>`,
   }
 
@@ -413,10 +1728,19 @@ export function renderAdminPage(
         .url-list-header { margin-bottom: 1rem; }
         .url-card { display: grid; grid-template-columns: 1fr auto; gap: 1rem; align-items: center; padding: 0.75rem 1rem; border-radius: var(--pico-border-radius); margin-bottom: 0.5rem; border: 1px solid var(--pico-form-element-border-color); transition: background-color 0.2s ease-in-out; }
         .url-card:hover { background-color: var(--pico-card-background-color); }
-        .url-card[hidden] { display: none; }
+        .pagination { display: flex; gap: 0.5rem; justify-content: center; margin-top: 1rem; }
+        .export-links { text-align: center; font-size: 0.8rem; color: var(--pico-muted-color); }
         .url-info { word-wrap: break-word; overflow: hidden; }
         .url-info strong { font-size: 1.1rem; }
         .url-info a { font-family: monospace; font-size: 0.9rem; color: var(--pico-muted-color); }
+        .url-badge { font-size: 0.7rem; padding: 0.1rem 0.4rem; margin-left: 0.5rem; border-radius: var(--pico-border-radius); background: var(--pico-del-color); color: var(--pico-contrast-inverse); vertical-align: middle; }
+        .tag-chips { display: flex; flex-wrap: wrap; gap: 0.4rem; margin-bottom: 1rem; }
+        .tag-chip { font-size: 0.75rem; padding: 0.15rem 0.6rem; border-radius: 999px; border: 1px solid var(--pico-form-element-border-color); text-decoration: none; }
+        .tag-chip.active { background: var(--pico-primary-background); color: var(--pico-primary-inverse); }
+        .url-tags { display: inline-flex; flex-wrap: wrap; gap: 0.25rem; margin-top: 0.25rem; }
+        .url-tags .tag-chip { font-family: inherit; }
+        .url-clicks { display: block; font-size: 0.75rem; color: var(--pico-muted-color); }
+        .campaign-heading { margin: 1.5rem 0 0.5rem; font-size: 1rem; }
         .url-actions { display: flex; gap: 0.25rem; align-items: center; }
         .url-actions > * { margin: 0; }
         .url-actions button, .url-actions a { --pico-font-size: 0.8rem; padding: 0.4rem; white-space: nowrap; display: flex; align-items: center; justify-content: center; width: 32px; height: 32px; margin: 0; }
@@ -431,6 +1755,7 @@ export function renderAdminPage(
 </head>
 <body>
     <form method="post" action="/admin/logout" class="logout-form">
+        ${csrfField(csrfToken)}
         <button type="submit">Logout</button>
     </form>
 
@@ -445,51 +1770,155 @@ export function renderAdminPage(
             : ''
         }
 
-        <article class="create-form-section">${renderCreateForm()}</article>
+        <article class="create-form-section">${renderCreateForm(csrfToken, page.utmTemplates)}</article>
 
         <div class="stats">${
-          urls.length > 0
+          page.totals.total > 0
             ? `<div class="stat-card"><p class="stat-value">${
-                urls.length
+                page.totals.total
               }</p><p class="stat-label">Total URLs</p></div><div class="stat-card"><p class="stat-value">${
-                urls.filter(
-                  (u) => new Date(u.created) > new Date(Date.now() - 864e5)
-                ).length
+                page.totals.createdToday
               }</p><p class="stat-label">Created Today</p></div>`
             : ''
         }</div>
 
         ${
-          urls.length > 0
+          page.totals.total > 0
             ? `
-        <section class="search-section">
-            <input type="search" id="search-box" placeholder="Search by slug or destination URL...">
-        </section>
+        <form method="get" action="/admin" class="search-section">
+            <input type="search" name="q" value="${escapeHTML(query.q || '')}" placeholder="Search slugs, URLs, titles and descriptions...">
+            <details${query.domain || query.from || query.to || query.sort !== 'created' || query.group ? ' open' : ''}>
+                <summary>Filters &amp; sorting</summary>
+                <div class="grid">
+                    <input type="text" name="domain" value="${escapeHTML(query.domain || '')}" placeholder="Domain, e.g. github.com" aria-label="Domain">
+                    <input type="date" name="from" value="${escapeHTML(query.from || '')}" aria-label="Created from">
+                    <input type="date" name="to" value="${escapeHTML(query.to || '')}" aria-label="Created to">
+                    <select name="sort" aria-label="Sort by">
+                        ${(['created', 'updated', 'clicks'] as const)
+                          .map(
+                            (sort) =>
+                              `<option value="${sort}"${
+                                query.sort === sort ? ' selected' : ''
+                              }>Most ${sort === 'clicks' ? 'clicked' : `recently ${sort}`}</option>`
+                          )
+                          .join('')}
+                    </select>
+                    <select name="group" aria-label="Group by">
+                        <option value="">No grouping</option>
+                        <option value="campaign"${query.group === 'campaign' ? ' selected' : ''}>Group by campaign</option>
+                    </select>
+                </div>
+            </details>
+            ${query.tag ? `<input type="hidden" name="tag" value="${escapeHTML(query.tag)}">` : ''}
+            ${query.campaign ? `<input type="hidden" name="campaign" value="${escapeHTML(query.campaign)}">` : ''}
+            <button type="submit" class="secondary">Search</button>
+        </form>
+        ${
+          page.tags.length > 0
+            ? `<nav class="tag-chips">
+            <a href="/admin" class="tag-chip${query.tag ? '' : ' active'}">All</a>
+            ${page.tags
+              .map(
+                ({ tag, count }) =>
+                  `<a href="/admin?tag=${encodeURIComponent(tag)}" class="tag-chip${
+                    tag === query.tag ? ' active' : ''
+                  }">#${escapeHTML(tag)} (${count})</a>`
+              )
+              .join('')}
+        </nav>`
+            : ''
+        }
+        ${
+          isFiltered
+            ? `<p class="url-list-header">${result.total} matching URL${
+                result.total === 1 ? '' : 's'
+              } &middot; <a href="/admin">Clear filters</a></p>`
+            : ''
+        }
         <section id="url-list">
             ${urls
-              .map((url) => {
+              .map((url, i) => {
                 const shortUrl = `https://${domain}/${url.slug}`
-                return `
-                <div class="url-card" data-search-term="${escapeHTML(
-                  url.slug.toLowerCase()
-                )} ${escapeHTML(url.url.toLowerCase())}">
+                const urlClicks = clicks[url.slug] || { total: 0, recent: 0 }
+                const availability = getLinkAvailability(url, urlClicks.total)
+                // Grouped lists are sorted by campaign, so a heading goes
+                // wherever the campaign changes
+                const campaign = campaignOf(url)
+                const heading =
+                  query.group === 'campaign' &&
+                  (i === 0 || campaignOf(urls[i - 1]) !== campaign)
+                    ? `<h3 class="campaign-heading">${
+                        campaign
+                          ? `<a href="/admin?campaign=${encodeURIComponent(campaign)}">${escapeHTML(campaign)}</a>`
+                          : 'No campaign'
+                      }</h3>`
+                    : ''
+                return `${heading}
+                <div class="url-card">
                     <div class="url-info">
-                        <strong>/${escapeHTML(url.slug)}</strong><br>
+                        <strong>/${escapeHTML(url.slug)}</strong>${
+                          availability !== 'active'
+                            ? `<span class="url-badge">${availability}</span>`
+                            : ''
+                        }<br>
                         <a href="${escapeHTML(
                           url.url
                         )}" target="_blank">${escapeHTML(url.url)}</a>
+                        ${
+                          url.aliases?.length
+                            ? `<span class="url-clicks">Also ${url.aliases
+                                .map((a) => `/${escapeHTML(a)}`)
+                                .join(', ')}</span>`
+                            : ''
+                        }
+                        ${
+                          url.tags?.length
+                            ? `<span class="url-tags">${url.tags
+                                .map(
+                                  (tag) =>
+                                    `<a href="/admin?tag=${encodeURIComponent(
+                                      tag
+                                    )}" class="tag-chip">#${escapeHTML(tag)}</a>`
+                                )
+                                .join('')}</span>`
+                            : ''
+                        }
+                        ${
+                          url.utm
+                            ? `<span class="url-clicks">${escapeHTML(formatUTM(url.utm))}</span>`
+                            : ''
+                        }
+                        <span class="url-clicks">${urlClicks.total} clicks total &middot; ${
+                          urlClicks.recent
+                        } in the last ${CLICKS.RECENT_DAYS} days${
+                          url.createdBy ? ` &middot; added by ${escapeHTML(url.createdBy)}` : ''
+                        }${url.passwordHash ? ' &middot; passphrase protected' : ''}${
+                          url.redirectType ? ` &middot; ${url.redirectType} redirect` : ''
+                        }${url.prefix ? ' &middot; prefix' : ''}${
+                          url.queryPassthrough ? ' &middot; passes query string' : ''
+                        }${
+                          url.targets
+                            ? ` &middot; ${url.targets.length} targeting rule${url.targets.length === 1 ? '' : 's'}`
+                            : ''
+                        }${
+                          url.variants ? ` &middot; A/B split ${url.variants.length} ways` : ''
+                        }</span>
                     </div>
                     <div class="url-actions">
                         <button class="icon-btn copy-btn" data-url="${escapeHTML(
                           shortUrl
                         )}" title="Copy short URL">${icon.copy}</button>
+                        <a href="/admin/stats/${
+                          url.slug
+                        }" class="icon-btn" title="View stats">${icon.stats}</a>
                         <a href="/admin/edit/${
                           url.slug
                         }" class="icon-btn" title="Edit URL">${icon.edit}</a>
                         <form method="post" action="/admin/delete/${
                           url.slug
-                        }" onsubmit="return confirm('Are you sure you want to delete this URL?');">
-                            <button type="submit" class="icon-btn" title="Delete URL">${
+                        }" onsubmit="return confirm('Move this URL to the trash?');">
+                            ${csrfField(csrfToken)}
+                            <button type="submit" class="icon-btn" title="Move to trash">${
                               icon.delete
                             }</button>
                         </form>
@@ -498,9 +1927,41 @@ export function renderAdminPage(
               })
               .join('')}
         </section>
+        <nav class="pagination">
+            ${
+              query.offset > 0
+                ? `<a href="/admin?${escapeHTML(
+                    toSearchParams(query).toString()
+                  )}" role="button" class="outline secondary">First page</a>`
+                : ''
+            }
+            ${
+              result.cursor
+                ? `<a href="/admin?${escapeHTML(
+                    toSearchParams(query, result.cursor).toString()
+                  )}" role="button" class="outline">Next page</a>`
+                : ''
+            }
+        </nav>
+        <p class="export-links">Export${isFiltered ? ' matching URLs' : ''}: ${(
+          [
+            ['json', 'JSON'],
+            ['ndjson', 'NDJSON'],
+            ['csv', 'CSV'],
+            ['html', 'Bookmarks'],
+          ] as const
+        )
+          .map(([format, label]) => {
+            const params = toSearchParams(query)
+            params.set('format', format)
+            if (format === 'csv') params.set('clicks', '1')
+            return `<a href="/admin/export?${escapeHTML(params.toString())}">${label}</a>`
+          })
+          .join(' &middot; ')}</p>
         `
             : '<p>No URLs created yet. Create one above!</p>'
         }
+        <p class="export-links"><a href="/admin/trash">Trash</a> &middot; <a href="/admin/audit">Audit log</a> &middot; <a href="/admin/tokens">API tokens</a> &middot; <a href="/admin/utm">UTM templates</a> &middot; <a href="/admin/users">Users</a> &middot; <a href="/admin/2fa">Two-factor</a> &middot; <a href="/admin/sessions">Sessions</a></p>
     </main>
     <script>
       document.addEventListener('DOMContentLoaded', () => {
@@ -535,14 +1996,6 @@ export function renderAdminPage(
             const button = e.target.closest('.copy-btn');
             if (button) handleCopyClick(button);
         });
-
-        const searchBox = document.getElementById('search-box');
-        searchBox?.addEventListener('input', (e) => {
-            const searchTerm = e.target.value.toLowerCase();
-            document.querySelectorAll('.url-card').forEach(card => {
-                card.hidden = !card.dataset.searchTerm.includes(searchTerm);
-            });
-        });
       });
     </script>
 </body>
@@ -552,9 +2005,13 @@ export function renderAdminPage(
 /**
  * Render create URL form
  */
-export function renderCreateForm(): string {
+export function renderCreateForm(
+  csrfToken: string,
+  utmTemplates: UTMTemplate[] = []
+): string {
   return `
     <form method="post" action="/admin/create">
+        ${csrfField(csrfToken)}
         <div class="grid">
             <label for="url">
                 URL to shorten
@@ -565,15 +2022,190 @@ export function renderCreateForm(): string {
                 <input type="text" id="slug" name="slug" placeholder="custom-slug" pattern="[a-z0-9-]{3,50}">
             </label>
         </div>
+        <label for="tags">
+            Tags (optional, comma separated)
+            <input type="text" id="tags" name="tags" placeholder="talks, django">
+        </label>
+        <details>
+            <summary>Schedule &amp; limits</summary>
+            ${renderRedirectField()}
+            ${renderScheduleFields()}
+        </details>
+        ${renderUTMField(undefined, utmTemplates)}
+        ${renderTargetingField()}
+        ${renderVariantsField()}
         <button type="submit">Create Short URL</button>
     </form>
   `
 }
 
+/**
+ * Render the redirect type and forwarding options shared by the create and
+ * edit forms
+ */
+function renderRedirectField(record?: URLRecord): string {
+  const labels: Record<RedirectType, string> = {
+    301: '301 Moved Permanently',
+    302: '302 Found (temporary)',
+    307: '307 Temporary Redirect',
+    308: '308 Permanent Redirect',
+  }
+  const queryLabels: Record<QueryPassthrough, string> = {
+    incoming: 'Pass it on, the visitor wins conflicts',
+    destination: 'Pass it on, the destination wins conflicts',
+    both: 'Pass it on, keep both on conflicts',
+  }
+
+  return `
+            <label for="redirectType">
+                Redirect type
+                <select id="redirectType" name="redirectType">
+                    <option value="">Site default</option>
+                    ${REDIRECT_TYPES.map(
+                      (type) =>
+                        `<option value="${type}"${type === record?.redirectType ? ' selected' : ''}>${labels[type]}</option>`
+                    ).join('')}
+                </select>
+                <small>Browsers cache permanent redirects for up to an hour. Use a temporary one for links you expect to change.</small>
+            </label>
+            <label for="queryPassthrough">
+                Query string
+                <select id="queryPassthrough" name="queryPassthrough">
+                    <option value="">Drop it</option>
+                    ${QUERY_PASSTHROUGH.map(
+                      (mode) =>
+                        `<option value="${mode}"${mode === record?.queryPassthrough ? ' selected' : ''}>${queryLabels[mode]}</option>`
+                    ).join('')}
+                </select>
+            </label>
+            <label for="prefix">
+                <input type="checkbox" id="prefix" name="prefix"${record?.prefix ? ' checked' : ''}>
+                Prefix link: /slug/rest/of/path goes to the destination with /rest/of/path appended
+            </label>
+  `
+}
+
+/**
+ * Render the UTM inputs shared by the create and edit forms. New links can
+ * start from a template; the inputs override its values.
+ */
+function renderUTMField(
+  record?: URLRecord,
+  utmTemplates: UTMTemplate[] = []
+): string {
+  return `
+            <details${record?.utm ? ' open' : ''}>
+                <summary>UTM parameters</summary>
+                ${
+                  utmTemplates.length > 0
+                    ? `<label for="utmTemplate">
+                    Template
+                    <select id="utmTemplate" name="utmTemplate">
+                        <option value="">None</option>
+                        ${utmTemplates
+                          .map(
+                            (template) =>
+                              `<option value="${escapeHTML(template.name)}">${escapeHTML(template.name)} (${escapeHTML(formatUTM(template.params))})</option>`
+                          )
+                          .join('')}
+                    </select>
+                </label>`
+                    : ''
+                }
+                ${renderUTMInputs(record?.utm)}
+                <small>Added to the destination when the link is followed, replacing any UTM parameters it already has.</small>
+            </details>
+  `
+}
+
+/**
+ * Render the targeting rules input shared by the create and edit forms
+ */
+function renderTargetingField(record?: URLRecord): string {
+  return `
+            <details${record?.targets ? ' open' : ''}>
+                <summary>Targeting</summary>
+                <label for="targets">
+                    Rules, one per line. The first match wins; everyone else goes to the destination URL.
+                    <textarea id="targets" name="targets" rows="3" placeholder="os:iOS https://apps.apple.com/app/example&#10;country:DE,AT language:de https://example.de">${escapeHTML(
+                      formatTargetingRules(record?.targets || [])
+                    )}</textarea>
+                    <small>Conditions: os (${TARGET_OS.join(', ')}), browser (${TARGET_BROWSERS.join(', ')}), country (e.g. US) and language (e.g. en or en-GB).</small>
+                </label>
+            </details>
+  `
+}
+
+/**
+ * Render the A/B variants input shared by the create and edit forms
+ */
+function renderVariantsField(record?: URLRecord): string {
+  return `
+            <details${record?.variants ? ' open' : ''}>
+                <summary>A/B split</summary>
+                <label for="variants">
+                    Variants, one per line as name, weight and URL. Visitors keep their variant; crawlers and link previews get the destination URL.
+                    <textarea id="variants" name="variants" rows="3" placeholder="a 50 https://example.com/landing&#10;b 50 https://example.com/landing-new">${escapeHTML(
+                      formatVariants(record?.variants || [])
+                    )}</textarea>
+                </label>
+            </details>
+  `
+}
+
+/**
+ * Render the schedule, limit and passphrase inputs shared by the create and
+ * edit forms
+ */
+function renderScheduleFields(record?: URLRecord): string {
+  const toInputValue = (date?: string) =>
+    date ? escapeHTML(date.slice(0, 16)) : ''
+
+  return `
+            <div class="grid">
+                <label for="activatesAt">
+                    Active from (UTC)
+                    <input type="datetime-local" id="activatesAt" name="activatesAt" value="${toInputValue(record?.activatesAt)}">
+                </label>
+                <label for="expiresAt">
+                    Expires at (UTC)
+                    <input type="datetime-local" id="expiresAt" name="expiresAt" value="${toInputValue(record?.expiresAt)}">
+                </label>
+            </div>
+            <div class="grid">
+                <label for="maxClicks">
+                    Max clicks
+                    <input type="number" id="maxClicks" name="maxClicks" min="1" value="${record?.maxClicks ?? ''}">
+                    <small>Approximate: a burst of clicks can go slightly over.</small>
+                </label>
+                <label for="fallbackUrl">
+                    Fallback URL when unavailable
+                    <input type="url" id="fallbackUrl" name="fallbackUrl" placeholder="Shows a 410 page if empty" value="${escapeHTML(record?.fallbackUrl || '')}">
+                </label>
+            </div>
+            <label for="password">
+                Passphrase${record?.passwordHash ? ' (leave blank to keep the current one)' : ' (optional)'}
+                <input type="password" id="password" name="password" minlength="${PROTECTED.MIN_PASSWORD_LENGTH}" maxlength="${PROTECTED.MAX_PASSWORD_LENGTH}" autocomplete="new-password">
+                <small>Visitors must enter it before they are redirected.</small>
+            </label>
+            ${
+              record?.passwordHash
+                ? `<label><input type="checkbox" name="removePassword" value="1"> Remove passphrase</label>`
+                : ''
+            }
+  `
+}
+
 /**
  * Render edit URL form
  */
-export function renderEditForm(record: URLRecord, domain: string): string {
+export function renderEditForm(
+  record: URLRecord,
+  domain: string,
+  csrfToken: string,
+  message?: { type: 'success' | 'error'; text: string },
+  history: Revision[] = []
+): string {
   return `<!DOCTYPE html>
 <html lang="en" data-theme="dark">
 <head>
@@ -586,24 +2218,50 @@ export function renderEditForm(record: URLRecord, domain: string): string {
         body { position: relative; font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif; padding-top: 2rem; }
         .container { max-width: 800px; }
         .grid a[role="button"] { align-self: start; }
+        .revision { border-top: 1px solid var(--pico-form-element-border-color); padding-top: 0.75rem; margin-top: 0.75rem; }
+        .revision table { font-size: 0.8rem; margin-bottom: 0.5rem; }
+        .revision td { word-break: break-all; }
+        .revision form { margin: 0; }
+        .revision button { --pico-font-size: 0.8rem; padding: 0.2rem 0.6rem; width: auto; margin: 0; }
     </style>
 </head>
 <body>
     <main class="container">
         <h2>Edit Short URL</h2>
+        ${
+          message
+            ? `<div class="message ${message.type}">${escapeHTML(message.text)}</div>`
+            : ''
+        }
 
         <article>
             <p>
-                <strong>Slug:</strong> /${escapeHTML(record.slug)} (cannot be changed)<br>
-                <strong>Short URL:</strong> <code>https://${escapeHTML(domain)}/${escapeHTML(record.slug)}</code>
+                <strong>Slug:</strong> /${escapeHTML(record.slug)}<br>
+                <strong>Short URL:</strong> <code>https://${escapeHTML(domain)}/${escapeHTML(record.slug)}</code><br>
+                ${record.createdBy ? `<strong>Created by:</strong> ${escapeHTML(record.createdBy)}<br>` : ''}
+                <a href="/admin/stats/${escapeHTML(record.slug)}">View click stats</a>
             </p>
 
             <form method="post" action="/admin/update/${escapeHTML(record.slug)}">
+                ${csrfField(csrfToken)}
                 <label for="url">
                     Destination URL
                     <input type="url" id="url" name="url" value="${escapeHTML(record.url)}" required>
                 </label>
 
+                <label for="tags">
+                    Tags (comma separated)
+                    <input type="text" id="tags" name="tags" value="${escapeHTML((record.tags || []).join(', '))}">
+                </label>
+
+                ${renderRedirectField(record)}
+
+                ${renderUTMField(record)}
+
+                ${renderTargetingField(record)}
+
+                ${renderVariantsField(record)}
+
                 ${record.metadata ? `
                     <fieldset>
                         <legend>Current Metadata</legend>
@@ -614,24 +2272,206 @@ export function renderEditForm(record: URLRecord, domain: string): string {
                     </fieldset>
                 ` : ''}
 
+                <fieldset>
+                    <legend>Schedule &amp; limits</legend>
+                    ${renderScheduleFields(record)}
+                </fieldset>
+
                 <div class="grid">
                     <button type="submit">Update URL</button>
                     <a href="/admin" role="button" class="outline">Cancel</a>
                 </div>
             </form>
         </article>
+
+        <article>
+            <h5>Aliases</h5>
+            ${record.aliases?.length ? `
+            <ul>
+                ${record.aliases.map((alias) => `
+                <li>
+                    <form method="post" action="/admin/remove-alias/${escapeHTML(record.slug)}" style="display: inline;">
+                        ${csrfField(csrfToken)}
+                        <code>/${escapeHTML(alias)}</code>
+                        <input type="hidden" name="alias" value="${escapeHTML(alias)}">
+                        <button type="submit" class="outline secondary" style="padding: 0.1rem 0.5rem; width: auto; display: inline;">Remove</button>
+                    </form>
+                </li>`).join('')}
+            </ul>` : '<p><small>No aliases yet.</small></p>'}
+            <form method="post" action="/admin/add-alias/${escapeHTML(record.slug)}">
+                ${csrfField(csrfToken)}
+                <label for="alias">
+                    Add alias
+                    <input type="text" id="alias" name="alias" placeholder="another-slug" pattern="[a-z0-9-]{3,50}" required>
+                    <small>Aliases redirect to this URL and their clicks count towards its stats.</small>
+                </label>
+                <button type="submit" class="secondary">Add Alias</button>
+            </form>
+        </article>
+
+        <article>
+            <form method="post" action="/admin/rename/${escapeHTML(record.slug)}">
+                ${csrfField(csrfToken)}
+                <label for="new-slug">
+                    Rename slug
+                    <input type="text" id="new-slug" name="slug" placeholder="new-slug" pattern="[a-z0-9-]{3,50}" required>
+                    <small>The current slug will be kept as an alias so existing links keep working.</small>
+                </label>
+                <button type="submit" class="secondary">Rename</button>
+            </form>
+        </article>
+
+        <article>
+            <h5>History</h5>
+            ${history.length ? renderHistory(record.slug, history, csrfToken) : '<p><small>No changes recorded yet.</small></p>'}
+        </article>
     </main>
 </body>
 </html>`
 }
 
 /**
- * Render login form
+ * Render a URL's revision log, newest first, with revert buttons
  */
-export function renderLoginForm(message?: {
-  type: 'success' | 'error'
-  text: string
-}): string {
+function renderHistory(
+  slug: string,
+  history: Revision[],
+  csrfToken: string
+): string {
+  const latest = history[history.length - 1].id
+  const formatValue = (value: unknown) =>
+    value === undefined
+      ? '<em>none</em>'
+      : escapeHTML(typeof value === 'string' ? value : JSON.stringify(value))
+
+  return [...history]
+    .reverse()
+    .map(
+      (revision) => `
+            <div class="revision">
+                <p>
+                    <strong>#${revision.id} ${escapeHTML(revision.action)}</strong>${
+                      revision.revertedTo ? ` to #${revision.revertedTo}` : ''
+                    }
+                    <small>&middot; ${escapeHTML(revision.timestamp.replace('T', ' ').slice(0, 16))} UTC &middot; ${escapeHTML(revision.actor.name)}</small>
+                </p>
+                <table>
+                    <tbody>
+                        ${Object.entries(revision.changes)
+                          .map(
+                            ([field, change]) => `
+                        <tr><th>${escapeHTML(field)}</th>${
+                          change.changed
+                            ? '<td colspan="2"><em>changed</em></td>'
+                            : `<td><del>${formatValue(change.before)}</del></td><td><ins>${formatValue(change.after)}</ins></td>`
+                        }</tr>`
+                          )
+                          .join('')}
+                    </tbody>
+                </table>
+                ${
+                  revision.id !== latest
+                    ? `<form method="post" action="/admin/revert/${escapeHTML(slug)}" onsubmit="return confirm('Revert this URL to revision #${revision.id}?');">
+                    ${csrfField(csrfToken)}
+                    <input type="hidden" name="revision" value="${revision.id}">
+                    <button type="submit" class="outline secondary">Revert to this revision</button>
+                </form>`
+                    : ''
+                }
+            </div>`
+    )
+    .join('')
+}
+
+/**
+ * Render the trash page, where deleted URLs can be restored or purged
+ */
+export function renderTrashPage(
+  urls: URLRecord[],
+  retentionDays: number,
+  csrfToken: string,
+  message?: { type: 'success' | 'error'; text: string }
+): string {
+  const purgeDate = (deletedAt: string) =>
+    new Date(new Date(deletedAt).getTime() + retentionDays * 864e5)
+      .toISOString()
+      .split('T')[0]
+
+  return `<!DOCTYPE html>
+<html lang="en" data-theme="dark">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Trash - URL Shortener Admin</title>
+    <link rel="stylesheet" href="https://unpkg.com/@picocss/pico@1.5.10/css/pico.min.css">
+    <style>
+        :root { --pico-font-size: 90%; }
+        body { position: relative; font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif; padding-top: 2rem; }
+        .container { max-width: 800px; }
+        .url-card { display: grid; grid-template-columns: 1fr auto; gap: 1rem; align-items: center; padding: 0.75rem 1rem; border-radius: var(--pico-border-radius); margin-bottom: 0.5rem; border: 1px solid var(--pico-form-element-border-color); }
+        .url-info { word-wrap: break-word; overflow: hidden; }
+        .url-info a, .url-info small { display: block; font-size: 0.8rem; color: var(--pico-muted-color); }
+        .url-actions { display: flex; gap: 0.5rem; }
+        .url-actions form { margin: 0; }
+        .url-actions button { --pico-font-size: 0.8rem; padding: 0.25rem 0.6rem; margin: 0; width: auto; }
+    </style>
+</head>
+<body>
+    <main class="container">
+        <h2>Trash</h2>
+        ${
+          message
+            ? `<div class="message ${message.type}">${escapeHTML(message.text)}</div>`
+            : ''
+        }
+        <p><small>Deleted URLs answer 410 Gone and keep their slugs reserved. They are permanently deleted after ${retentionDays} days.</small></p>
+
+        ${
+          urls.length > 0
+            ? urls
+                .map(
+                  (url) => `
+        <div class="url-card">
+            <div class="url-info">
+                <strong>/${escapeHTML(url.slug)}</strong>
+                <a href="${escapeHTML(url.url)}" target="_blank" rel="noopener noreferrer">${escapeHTML(url.url)}</a>
+                <small>Deleted ${escapeHTML(url.deletedAt!.split('T')[0])} &middot; purged on ${purgeDate(url.deletedAt!)}</small>
+            </div>
+            <div class="url-actions">
+                <form method="post" action="/admin/restore/${escapeHTML(url.slug)}">
+                    ${csrfField(csrfToken)}
+                    <button type="submit" class="secondary">Restore</button>
+                </form>
+                <form method="post" action="/admin/purge/${escapeHTML(url.slug)}" onsubmit="return confirm('Permanently delete this URL? This cannot be undone.');">
+                    ${csrfField(csrfToken)}
+                    <button type="submit" class="outline contrast">Delete forever</button>
+                </form>
+            </div>
+        </div>`
+                )
+                .join('')
+            : '<p>The trash is empty.</p>'
+        }
+
+        <a href="/admin" role="button" class="outline">Back to admin</a>
+    </main>
+</body>
+</html>`
+}
+
+/**
+ * Render login form, or the code form for the second step of a
+ * two-factor login. After repeated failures the form carries a challenge
+ * that can only be submitted once its delay has passed.
+ */
+export function renderLoginForm(
+  message?: {
+    type: 'success' | 'error'
+    text: string
+  },
+  step: 'password' | 'two-factor' = 'password',
+  challenge?: { token: string; delaySeconds: number }
+): string {
   return `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -678,22 +2518,122 @@ export function renderLoginForm(message?: {
                 : ''
             }
 
-            <form method="post" action="/admin/login">
-                <label for="password">
-                    Admin Password
-                    <input type="password" id="password" name="password" required autofocus>
+            ${
+              step === 'two-factor'
+                ? `<form method="post" action="/admin/login/2fa">
+                <label for="code">
+                    Authentication code
+                    <input type="text" id="code" name="code" inputmode="numeric" autocomplete="one-time-code" required autofocus>
+                    <small>Enter the code from your authenticator app, or one of your recovery codes.</small>
                 </label>
 
-                <button type="submit">Sign In</button>
+                <button type="submit">Verify</button>
             </form>
+            <p><a href="/admin/login">Start again</a></p>`
+                : `<form method="post" action="/admin/login">
+                <label for="username">
+                    Username
+                    <input type="text" id="username" name="username" autocomplete="username" autofocus>
+                    <small>Leave blank to sign in with the admin password.</small>
+                </label>
+
+                <label for="password">
+                    Password
+                    <input type="password" id="password" name="password" autocomplete="current-password" required>
+                </label>
+                ${
+                  challenge
+                    ? `<input type="hidden" name="challenge" value="${escapeHTML(challenge.token)}">
+                <small id="challenge-wait">You can sign in again in <span id="challenge-seconds">${challenge.delaySeconds}</span> seconds.</small>`
+                    : ''
+                }
+
+                <button type="submit" id="sign-in"${challenge ? ' disabled' : ''}>Sign In</button>
+            </form>`
+            }
         </div>
     </div>
+    ${
+      challenge
+        ? `<script>
+      (() => {
+        const button = document.getElementById('sign-in');
+        const wait = document.getElementById('challenge-wait');
+        const seconds = document.getElementById('challenge-seconds');
+        let left = ${challenge.delaySeconds};
+        const timer = setInterval(() => {
+            left -= 1;
+            seconds.textContent = left;
+            if (left <= 0) {
+                clearInterval(timer);
+                wait.remove();
+                button.disabled = false;
+            }
+        }, 1000);
+      })();
+    </script>`
+        : ''
+    }
 </body>
 </html>`
 }
 
 // ========== Auth Handlers ==========
 
+/**
+ * Explain how long an IP is locked out of signing in
+ */
+function lockoutMessage(until: number): string {
+  const minutes = Math.max(1, Math.ceil((until - Date.now()) / 60000))
+  return `Too many failed sign-ins. Try again in ${minutes} minute${
+    minutes === 1 ? '' : 's'
+  }.`
+}
+
+/**
+ * Issue the challenge the next login form must carry, if the IP has to wait
+ */
+async function getLoginChallenge(
+  env: Env,
+  ip: string,
+  throttle: LoginThrottle
+): Promise<{ token: string; delaySeconds: number } | undefined> {
+  if (!throttle.challengeMs || !env.API_SECRET) return undefined
+
+  return {
+    token: await issueLoginChallenge(env.API_SECRET, ip, throttle.challengeMs),
+    delaySeconds: Math.ceil(throttle.challengeMs / 1000),
+  }
+}
+
+/**
+ * Count a failed sign-in and render the form for the next attempt, which
+ * may be a lockout or need a challenge
+ */
+async function renderFailedLogin(
+  env: Env,
+  ip: string,
+  text: string
+): Promise<Response> {
+  const lockedUntil = await recordLoginFailure(env, ip)
+  if (lockedUntil) {
+    return new Response(
+      renderLoginForm({ type: 'error', text: lockoutMessage(lockedUntil) }),
+      { status: 429, headers: { 'Content-Type': 'text/html' } }
+    )
+  }
+
+  const challenge = await getLoginChallenge(
+    env,
+    ip,
+    await getLoginThrottle(env, ip)
+  )
+  return new Response(
+    renderLoginForm({ type: 'error', text }, 'password', challenge),
+    { headers: { 'Content-Type': 'text/html' } }
+  )
+}
+
 /**
  * Handle login and logout routes
  */
@@ -701,21 +2641,64 @@ async function handleAuthRoutes(request: Request, env: Env): Promise<Response> {
   const url = new URL(request.url)
   const path = url.pathname
   const method = request.method
+  const clientIP = request.headers.get('CF-Connecting-IP') || 'unknown'
 
   // Login page
   if (path === '/admin/login' && method === 'GET') {
-    return new Response(renderLoginForm(), {
-      headers: { 'Content-Type': 'text/html' },
-    })
+    const throttle = await getLoginThrottle(env, clientIP)
+    if (throttle.lockedUntil) {
+      return new Response(
+        renderLoginForm({
+          type: 'error',
+          text: lockoutMessage(throttle.lockedUntil),
+        }),
+        { status: 429, headers: { 'Content-Type': 'text/html' } }
+      )
+    }
+
+    return new Response(
+      renderLoginForm(
+        undefined,
+        'password',
+        await getLoginChallenge(env, clientIP, throttle)
+      ),
+      {
+        headers: { 'Content-Type': 'text/html' },
+      }
+    )
   }
 
   // Login form submission
   if (path === '/admin/login' && method === 'POST') {
     try {
       const formData = await request.formData()
+      const username = ((formData.get('username') as string) || '').trim()
       const password = formData.get('password') as string
 
+      // Locked out IPs don't get to try passwords at all
+      const throttle = await getLoginThrottle(env, clientIP)
+      if (throttle.lockedUntil) {
+        const text = lockoutMessage(throttle.lockedUntil)
+        await logAuditEvent(env, request, {
+          action: 'login',
+          outcome: 'denied',
+          actor: ANONYMOUS_ACTOR,
+          ...(username ? { target: username } : {}),
+          detail: text,
+        })
+        return new Response(renderLoginForm({ type: 'error', text }), {
+          status: 429,
+          headers: { 'Content-Type': 'text/html' },
+        })
+      }
+
       if (!password) {
+        await logAuditEvent(env, request, {
+          action: 'login',
+          outcome: 'failure',
+          actor: ANONYMOUS_ACTOR,
+          detail: 'Password is required',
+        })
         return new Response(
           renderLoginForm({ type: 'error', text: 'Password is required' }),
           {
@@ -724,7 +2707,7 @@ async function handleAuthRoutes(request: Request, env: Env): Promise<Response> {
         )
       }
 
-      // Check password against API_SECRET
+      // Sessions are signed with API_SECRET
       if (!env.API_SECRET) {
         return new Response(
           renderLoginForm({
@@ -737,21 +2720,93 @@ async function handleAuthRoutes(request: Request, env: Env): Promise<Response> {
         )
       }
 
-      if (password !== env.API_SECRET) {
-        // Password mismatch
-        return new Response(
-          renderLoginForm({ type: 'error', text: 'Invalid password' }),
-          {
-            headers: { 'Content-Type': 'text/html' },
+      // After repeated failures a sign-in is only checked once the form has
+      // waited out its challenge. Not waiting doesn't count as a failure.
+      if (throttle.challengeMs > 0) {
+        const result = await checkLoginChallenge(
+          env.API_SECRET,
+          clientIP,
+          (formData.get('challenge') as string) || '',
+          throttle.challengeMs
+        )
+        if (result !== 'ok') {
+          return new Response(
+            renderLoginForm(
+              {
+                type: 'error',
+                text: 'Too many failed sign-ins. Please wait before trying again.',
+              },
+              'password',
+              await getLoginChallenge(env, clientIP, throttle)
+            ),
+            { headers: { 'Content-Type': 'text/html' } }
+          )
+        }
+      }
+
+      // Without a username the password is checked against API_SECRET
+      let session: AdminSession | null = null
+      if (username) {
+        const user = await authenticateUser(env, username, password)
+        if (user) {
+          session = {
+            userId: user.id,
+            role: user.role,
+            actor: { type: 'session', name: user.username },
           }
+        }
+      } else if (timingSafeEqual(password, env.API_SECRET)) {
+        session = MASTER_SESSION
+      }
+
+      if (!session) {
+        const text = username ? 'Invalid username or password' : 'Invalid password'
+        await logAuditEvent(env, request, {
+          action: 'login',
+          outcome: 'failure',
+          actor: ANONYMOUS_ACTOR,
+          ...(username ? { target: username } : {}),
+          detail: text,
+        })
+        return await renderFailedLogin(env, clientIP, text)
+      }
+
+      const isSecure = new URL(request.url).protocol === 'https:'
+      const secureFlag = isSecure ? '; Secure' : ''
+
+      // With two-factor on, the password only earns a short-lived cookie
+      // for the code form
+      if (await isTwoFactorEnabled(env, session.userId)) {
+        const pending = await signSessionCookie(
+          session.userId,
+          String(Date.now()),
+          env.API_SECRET,
+          'two-factor'
         )
+        return new Response(renderLoginForm(undefined, 'two-factor'), {
+          headers: {
+            'Content-Type': 'text/html',
+            'Set-Cookie': `url_shortener_2fa=${pending}; HttpOnly${secureFlag}; SameSite=Strict; Max-Age=${
+              TOTP.LOGIN_TIMEOUT_MS / 1000
+            }; Path=/admin/login`,
+          },
+        })
       }
 
       // Login successful
+      await logAuditEvent(env, request, {
+        action: 'login',
+        outcome: 'success',
+        actor: session.actor,
+      })
+      await clearLoginFailures(env, clientIP)
 
       // Create session cookie and redirect to admin
-      const isSecure = new URL(request.url).protocol === 'https:'
-      const sessionCookie = await createSessionCookie(env, isSecure)
+      const sessionCookie = await createSessionCookie(
+        env,
+        session.userId,
+        request
+      )
       return new Response(null, {
         status: 302,
         headers: {
@@ -769,8 +2824,123 @@ async function handleAuthRoutes(request: Request, env: Env): Promise<Response> {
     }
   }
 
+  // Second login step: the two-factor code
+  if (path === '/admin/login/2fa' && method === 'POST') {
+    const pending = getCookie(request, 'url_shortener_2fa')
+    const verified =
+      pending && env.API_SECRET
+        ? await verifySessionCookie(pending, env.API_SECRET, 'two-factor')
+        : null
+    const session =
+      verified && Date.now() - Number(verified.value) <= TOTP.LOGIN_TIMEOUT_MS
+        ? await loadSession(env, verified.userId)
+        : null
+
+    if (!session) {
+      return new Response(
+        renderLoginForm({
+          type: 'error',
+          text: 'Your login timed out. Please sign in again.',
+        }),
+        { headers: { 'Content-Type': 'text/html' } }
+      )
+    }
+
+    const throttle = await getLoginThrottle(env, clientIP)
+    if (throttle.lockedUntil) {
+      return new Response(
+        renderLoginForm({
+          type: 'error',
+          text: lockoutMessage(throttle.lockedUntil),
+        }),
+        { status: 429, headers: { 'Content-Type': 'text/html' } }
+      )
+    }
+
+    // Only a handful of guesses per login
+    const isAllowed = await checkRateLimit(
+      env,
+      `2fa:${session.userId}`,
+      TOTP.MAX_ATTEMPTS,
+      TOTP.LOGIN_TIMEOUT_MS
+    )
+    const formData = await request.formData()
+    const accepted = isAllowed
+      ? await checkTwoFactorCode(
+          env,
+          session.userId,
+          (formData.get('code') as string) || ''
+        )
+      : null
+
+    if (!accepted) {
+      const text = isAllowed
+        ? 'Invalid authentication code'
+        : 'Too many attempts. Please wait a few minutes and sign in again.'
+      await logAuditEvent(env, request, {
+        action: 'login',
+        outcome: isAllowed ? 'failure' : 'denied',
+        actor: session.actor,
+        detail: text,
+      })
+
+      // Wrong codes count towards the IP's lockout like wrong passwords
+      const lockedUntil = isAllowed
+        ? await recordLoginFailure(env, clientIP)
+        : null
+      if (lockedUntil) {
+        return new Response(
+          renderLoginForm({ type: 'error', text: lockoutMessage(lockedUntil) }),
+          { status: 429, headers: { 'Content-Type': 'text/html' } }
+        )
+      }
+      return new Response(
+        renderLoginForm({ type: 'error', text }, 'two-factor'),
+        { headers: { 'Content-Type': 'text/html' } }
+      )
+    }
+
+    await logAuditEvent(env, request, {
+      action: 'login',
+      outcome: 'success',
+      actor: session.actor,
+      detail: accepted === 'recovery' ? 'Used a recovery code' : 'Two-factor code',
+    })
+    await clearLoginFailures(env, clientIP)
+
+    const isSecure = new URL(request.url).protocol === 'https:'
+    const secureFlag = isSecure ? '; Secure' : ''
+    const headers = new Headers({
+      Location: new URL('/admin', request.url).toString(),
+    })
+    headers.append(
+      'Set-Cookie',
+      await createSessionCookie(env, session.userId, request)
+    )
+    headers.append(
+      'Set-Cookie',
+      `url_shortener_2fa=; HttpOnly${secureFlag}; SameSite=Strict; Max-Age=0; Path=/admin/login`
+    )
+    return new Response(null, { status: 302, headers })
+  }
+
   // Logout
   if (path === '/admin/logout' && method === 'POST') {
+    const session = await getSession(request, env)
+    const error = session?.sessionId
+      ? await checkCSRF(request, env, session, true)
+      : null
+    if (error) {
+      return new Response(error, { status: 403 })
+    }
+    if (session?.sessionId) {
+      await revokeSession(env, session.sessionId)
+    }
+    await logAuditEvent(env, request, {
+      action: 'logout',
+      outcome: 'success',
+      actor: session?.actor || ANONYMOUS_ACTOR,
+    })
     const isSecure = new URL(request.url).protocol === 'https:'
     const secureFlag = isSecure ? '; Secure' : ''
     return new Response(null, {
@@ -787,6 +2957,32 @@ async function handleAuthRoutes(request: Request, env: Env): Promise<Response> {
 
 // ========== Main Admin Handler ==========
 
+/**
+ * Read the schedule and limit inputs from a submitted admin form
+ */
+function readScheduleForm(formData: FormData): ScheduleInput {
+  return {
+    activatesAt: (formData.get('activatesAt') as string) || '',
+    expiresAt: (formData.get('expiresAt') as string) || '',
+    maxClicks: (formData.get('maxClicks') as string) || '',
+    fallbackUrl: (formData.get('fallbackUrl') as string) || '',
+  }
+}
+
+/**
+ * Check whether a path is a JSON API route (cookie or API key auth, rate limited)
+ */
+function isAPIRoute(path: string): boolean {
+  return (
+    path.startsWith('/admin/urls') ||
+    path.startsWith('/admin/index') ||
+    path === '/admin/import' ||
+    path === '/admin/export' ||
+    path === '/admin/audit.json' ||
+    path === '/admin/utm.json'
+  )
+}
+
 /**
  * Main admin request handler
  */
@@ -799,16 +2995,28 @@ export async function handleAdminRequest(
   const method = request.method
 
   // Allow login/logout routes without authentication
-  if (path === '/admin/login' || path === '/admin/logout') {
+  if (
+    path === '/admin/login' ||
+    path === '/admin/login/2fa' ||
+    path === '/admin/logout'
+  ) {
     return await handleAuthRoutes(request, env)
   }
 
+  // Changes are attributed to the API key when one is sent, else the session
+  const session = await getSession(request, env)
+  let actor = session?.actor || SESSION_ACTOR
+  let usesToken = false
+
   // For API endpoints, check both cookie and API key authentication
-  if (path.startsWith('/admin/urls')) {
-    const cookieAuth = await isAuthenticated(request, env)
-    const apiKeyAuth = authenticateAPIKey(request, env)
+  if (isAPIRoute(path)) {
+    const apiKeyAuth = await authenticateAPIToken(request, env)
+    if (apiKeyAuth) {
+      actor = apiKeyAuth.actor
+      usesToken = true
+    }
 
-    if (!cookieAuth && !apiKeyAuth) {
+    if (!session && !apiKeyAuth) {
       // Redirect to login page for HTML requests (no auth header = browser)
       if (method === 'GET' && !request.headers.get('Authorization')) {
         return Response.redirect(
@@ -825,19 +3033,58 @@ export async function handleAdminRequest(
         }
       )
     }
+
+    const scope = getRequiredScope(method, path, url.searchParams)
+    const scopes = apiKeyAuth ? apiKeyAuth.scopes : ROLE_SCOPES[session!.role]
+    if (!hasScope(scopes, scope)) {
+      return new Response(
+        JSON.stringify({
+          error: apiKeyAuth
+            ? `Token does not have the "${scope}" scope`
+            : `Your role does not allow "${scope}" access`,
+        }),
+        {
+          status: 403,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      )
+    }
   } else {
     // For HTML interface routes, only check cookie authentication
-    const authenticated = await isAuthenticated(request, env)
-    if (!authenticated) {
+    if (!session) {
       return Response.redirect(
         new URL('/admin/login', request.url).toString(),
         302
       )
     }
+
+    if (
+      !hasScope(
+        ROLE_SCOPES[session.role],
+        getRequiredScope(method, path, url.searchParams)
+      )
+    ) {
+      return new Response('Forbidden', { status: 403 })
+    }
+  }
+
+  // Changes made with the session cookie must come from our own pages.
+  // Token requests are exempt: browsers never attach tokens by themselves.
+  if (method !== 'GET' && method !== 'HEAD' && session?.sessionId && !usesToken) {
+    const error = await checkCSRF(request, env, session, !isAPIRoute(path))
+    if (error) {
+      return isAPIRoute(path)
+        ? new Response(JSON.stringify({ error }), {
+            status: 403,
+            headers: { 'Content-Type': 'application/json' },
+          })
+        : new Response(error, { status: 403 })
+    }
   }
+  const csrfToken = session ? await getCSRFToken(env, session) : ''
 
   // API endpoints
-  if (path.startsWith('/admin/urls')) {
+  if (isAPIRoute(path)) {
     // Check rate limiting for admin operations (50 requests per 15 minutes)
     const clientIP = request.headers.get('CF-Connecting-IP') || 'unknown'
     const rateLimitKey = `admin:${clientIP}`
@@ -849,6 +3096,12 @@ SESSION.CLEANUP_INTERVAL_MS
     )
 
     if (!isAllowed) {
+      await logAuditEvent(env, request, {
+        action: 'rate-limit',
+        outcome: 'denied',
+        actor,
+        detail: `${method} ${path}`,
+      })
       return new Response(JSON.stringify({ error: 'Rate limit exceeded' }), {
         status: 429,
         headers: { 'Content-Type': 'application/json' },
@@ -857,13 +3110,117 @@ SESSION.CLEANUP_INTERVAL_MS
 
     // Handle API endpoints (authentication already checked above)
 
-    // Route API requests
+    // Route API requests. Changes are recorded in the audit log.
+    const slug = path.split('/')[3]
     if (method === 'POST' && path === '/admin/urls') {
-      return handleCreateURL(request, env)
+      return withAudit(
+        env,
+        request,
+        'create',
+        actor,
+        undefined,
+        handleCreateURL(request, env, actor)
+      )
+    } else if (method === 'GET' && path === '/admin/export') {
+      return handleExport(request, env)
+    } else if (method === 'POST' && path === '/admin/import') {
+      return withAudit(
+        env,
+        request,
+        'import',
+        actor,
+        undefined,
+        handleImport(request, env, actor)
+      )
+    } else if (method === 'POST' && path === '/admin/index/rebuild') {
+      return handleRebuildIndex(request, env)
+    } else if (method === 'GET' && path === '/admin/audit.json') {
+      return handleListAudit(request, env)
+    } else if (method === 'GET' && path === '/admin/utm.json') {
+      return new Response(JSON.stringify(await listUTMTemplates(env)), {
+        headers: { 'Content-Type': 'application/json' },
+      })
+    } else if (method === 'GET' && path === '/admin/urls') {
+      return handleListURLs(request, env)
+    } else if (method === 'GET' && /^\/admin\/urls\/[^/]+\/stats$/.test(path)) {
+      return handleGetStats(request, env)
+    } else if (method === 'POST' && /^\/admin\/urls\/[^/]+\/restore$/.test(path)) {
+      return withAudit(
+        env,
+        request,
+        'restore',
+        actor,
+        slug,
+        handleRestoreURL(request, env, actor)
+      )
+    } else if (method === 'POST' && /^\/admin\/urls\/[^/]+\/purge$/.test(path)) {
+      return withAudit(
+        env,
+        request,
+        'purge',
+        actor,
+        slug,
+        handlePurgeURL(request, env)
+      )
+    } else if (method === 'GET' && /^\/admin\/urls\/[^/]+\/history$/.test(path)) {
+      return handleGetHistory(request, env)
+    } else if (method === 'POST' && /^\/admin\/urls\/[^/]+\/revert$/.test(path)) {
+      return withAudit(
+        env,
+        request,
+        'revert',
+        actor,
+        slug,
+        handleRevertURL(request, env, actor)
+      )
+    } else if (method === 'POST' && /^\/admin\/urls\/[^/]+\/rename$/.test(path)) {
+      return withAudit(
+        env,
+        request,
+        'rename',
+        actor,
+        slug,
+        handleRenameURL(request, env, actor)
+      )
+    } else if (method === 'POST' && /^\/admin\/urls\/[^/]+\/aliases$/.test(path)) {
+      return withAudit(
+        env,
+        request,
+        'alias',
+        actor,
+        slug,
+        handleAddAlias(request, env, actor)
+      )
+    } else if (
+      method === 'DELETE' &&
+      /^\/admin\/urls\/[^/]+\/aliases\/[^/]+$/.test(path)
+    ) {
+      return withAudit(
+        env,
+        request,
+        'alias',
+        actor,
+        slug,
+        handleRemoveAlias(request, env, actor)
+      )
     } else if (method === 'PUT' && path.startsWith('/admin/urls/')) {
-      return handleUpdateURL(request, env)
+      return withAudit(
+        env,
+        request,
+        'update',
+        actor,
+        slug,
+        handleUpdateURL(request, env, actor)
+      )
     } else if (method === 'DELETE' && path.startsWith('/admin/urls/')) {
-      return handleDeleteURL(request, env)
+      return withAudit(
+        env,
+        request,
+        'delete',
+        actor,
+        slug,
+        handleDeleteURL(request, env, actor)
+      )
     }
   }
 
@@ -871,12 +3228,19 @@ SESSION.CLEANUP_INTERVAL_MS
 
   // Main admin page
   if (method === 'GET' && path === '/admin') {
-    const urls = await listAllURLs(env)
+    // Fall back to the default listing if the query is invalid
+    const parsed = parseURLQuery(url.searchParams)
+    const query = parsed.error
+      ? parseURLQuery(new URLSearchParams()).query
+      : parsed.query
+
+    const allURLs = await listAllURLs(env)
+    const result = await queryURLs(env, query, allURLs)
     
     // Check for success/error messages in query params
     let message: { type: 'success' | 'error'; text: string; newShortUrl?: string } | undefined
     const successMsg = url.searchParams.get('success')
-    const errorMsg = url.searchParams.get('error')
+    const errorMsg = url.searchParams.get('error') || parsed.error
     const newShortUrl = url.searchParams.get('newShortUrl')
     
     if (successMsg) {
@@ -888,7 +3252,21 @@ SESSION.CLEANUP_INTERVAL_MS
       message = { type: 'error', text: errorMsg }
     }
     
-    return new Response(renderAdminPage(urls, env.DOMAIN, message), {
+    const dayAgo = Date.now() - 864e5
+    const page: AdminPageData = {
+      result,
+      query,
+      tags: countTags(allURLs),
+      totals: {
+        total: allURLs.length,
+        createdToday: allURLs.filter(
+          (u) => new Date(u.created).getTime() > dayAgo
+        ).length,
+      },
+      utmTemplates: await listUTMTemplates(env),
+    }
+
+    return new Response(renderAdminPage(page, env.DOMAIN, csrfToken, message), {
       headers: { 'Content-Type': 'text/html' },
     })
   }
@@ -902,7 +3280,172 @@ SESSION.CLEANUP_INTERVAL_MS
       return new Response('Not found', { status: 404 })
     }
 
-    return new Response(renderEditForm(record, env.DOMAIN), {
+    const successMsg = url.searchParams.get('success')
+    const errorMsg = url.searchParams.get('error')
+    const message = successMsg
+      ? { type: 'success' as const, text: successMsg }
+      : errorMsg
+        ? { type: 'error' as const, text: errorMsg }
+        : undefined
+
+    const history = await getHistory(env, slug)
+
+    return new Response(renderEditForm(record, env.DOMAIN, csrfToken, message, history), {
+      headers: { 'Content-Type': 'text/html' },
+    })
+  }
+
+  // Audit log
+  if (method === 'GET' && path === '/admin/audit') {
+    const { filter, error } = parseAuditFilter(url.searchParams)
+    const { entries, cursor } = await listAuditEntries(
+      env,
+      error ? {} : filter,
+      url.searchParams.get('cursor') || undefined
+    )
+
+    const lockouts = await listLockouts(env)
+
+    return new Response(
+      renderAuditPage(entries, filter, cursor, error, lockouts),
+      {
+        headers: { 'Content-Type': 'text/html' },
+      }
+    )
+  }
+
+  // API tokens
+  if (method === 'GET' && path === '/admin/tokens') {
+    const successMsg = url.searchParams.get('success')
+    const errorMsg = url.searchParams.get('error')
+    const message = successMsg
+      ? { type: 'success' as const, text: successMsg }
+      : errorMsg
+        ? { type: 'error' as const, text: errorMsg }
+        : undefined
+
+    return new Response(renderTokensPage(await listTokens(env), csrfToken, message), {
+      headers: { 'Content-Type': 'text/html' },
+    })
+  }
+
+  // UTM templates
+  if (method === 'GET' && path === '/admin/utm') {
+    const successMsg = url.searchParams.get('success')
+    const errorMsg = url.searchParams.get('error')
+    const message = successMsg
+      ? { type: 'success' as const, text: successMsg }
+      : errorMsg
+        ? { type: 'error' as const, text: errorMsg }
+        : undefined
+
+    return new Response(
+      renderUTMTemplatesPage(await listUTMTemplates(env), csrfToken, message),
+      {
+        headers: { 'Content-Type': 'text/html' },
+      }
+    )
+  }
+
+  // Two-factor settings for the signed-in user. Enrolment only starts on
+  // POST /admin/2fa/start, so loading this page never writes a secret.
+  if (method === 'GET' && path === '/admin/2fa') {
+    const config = await getTwoFactor(env, session!.userId)
+
+    return new Response(
+      renderTwoFactorPage({
+        config,
+        uri: config
+          ? getOtpauthURI(config.secret, getAccountName(session!), env.DOMAIN)
+          : undefined,
+        isMaster: session!.userId === MASTER_USER_ID,
+        csrfToken,
+        message: url.searchParams.get('success')
+          ? { type: 'success', text: url.searchParams.get('success')! }
+          : undefined,
+      }),
+      { headers: { 'Content-Type': 'text/html', 'Cache-Control': 'no-store' } }
+    )
+  }
+
+  // Sessions: admins see everyone's, other users their own
+  if (method === 'GET' && path === '/admin/sessions') {
+    const successMsg = url.searchParams.get('success')
+    const errorMsg = url.searchParams.get('error')
+    const message = successMsg
+      ? { type: 'success' as const, text: successMsg }
+      : errorMsg
+        ? { type: 'error' as const, text: errorMsg }
+        : undefined
+
+    const isAdmin = session!.role === 'admin'
+    const names = isAdmin
+      ? Object.fromEntries([
+          [MASTER_USER_ID, 'admin (API_SECRET)'],
+          ...(await listUsers(env)).map((user) => [user.id, user.username]),
+        ])
+      : undefined
+
+    return new Response(
+      renderSessionsPage(
+        await listSessions(env, isAdmin ? undefined : session!.userId),
+        session!.sessionId || '',
+        csrfToken,
+        names,
+        message
+      ),
+      { headers: { 'Content-Type': 'text/html' } }
+    )
+  }
+
+  // Users
+  if (method === 'GET' && path === '/admin/users') {
+    const successMsg = url.searchParams.get('success')
+    const errorMsg = url.searchParams.get('error')
+    const message = successMsg
+      ? { type: 'success' as const, text: successMsg }
+      : errorMsg
+        ? { type: 'error' as const, text: errorMsg }
+        : undefined
+
+    return new Response(
+      renderUsersPage(await listUsers(env), session!.userId, csrfToken, message),
+      { headers: { 'Content-Type': 'text/html' } }
+    )
+  }
+
+  // Trash
+  if (method === 'GET' && path === '/admin/trash') {
+    const successMsg = url.searchParams.get('success')
+    const errorMsg = url.searchParams.get('error')
+    const message = successMsg
+      ? { type: 'success' as const, text: successMsg }
+      : errorMsg
+        ? { type: 'error' as const, text: errorMsg }
+        : undefined
+
+    return new Response(
+      renderTrashPage(
+        await listTrashedURLs(env),
+        getTrashRetentionDays(env),
+        csrfToken,
+        message
+      ),
+      { headers: { 'Content-Type': 'text/html' } }
+    )
+  }
+
+  // Stats page
+  if (method === 'GET' && path.startsWith('/admin/stats/')) {
+    const slug = path.substring('/admin/stats/'.length)
+    const record = await getURL(env, slug)
+
+    if (!record) {
+      return new Response('Not found', { status: 404 })
+    }
+
+    const stats = await getLinkStats(env, slug)
+    return new Response(renderStatsPage(stats, env.DOMAIN), {
       headers: { 'Content-Type': 'text/html' },
     })
   }
@@ -916,6 +3459,8 @@ SESSION.CLEANUP_INTERVAL_MS
     if (path === '/admin/create') {
       const url = formData.get('url') as string
       const slug = formData.get('slug') as string
+      const tags = formData.get('tags') as string
+      const schedule = readScheduleForm(formData)
 
       // Create request object for API handler
       const apiRequest = new Request(request.url, {
@@ -924,10 +3469,30 @@ SESSION.CLEANUP_INTERVAL_MS
           'Content-Type': 'application/json',
           Authorization: `Bearer ${env.API_SECRET}`,
         },
-        body: JSON.stringify({ url, slug: slug || undefined }),
+        body: JSON.stringify({
+          url,
+          slug: slug || undefined,
+          tags: tags || undefined,
+          activatesAt: schedule.activatesAt || undefined,
+          expiresAt: schedule.expiresAt || undefined,
+          maxClicks: schedule.maxClicks || undefined,
+          fallbackUrl: schedule.fallbackUrl || undefined,
+          password: (formData.get('password') as string) || undefined,
+          redirectType: (formData.get('redirectType') as string) || undefined,
+          queryPassthrough: (formData.get('queryPassthrough') as string) || undefined,
+          prefix: formData.has('prefix') || undefined,
+          utmTemplate: (formData.get('utmTemplate') as string) || undefined,
+          utm: readUTMForm(formData),
+          targets: parseTargetingText((formData.get('targets') as string) || ''),
+          variants: parseVariantsText((formData.get('variants') as string) || ''),
+        }),
       })
 
-      const response = await handleCreateURL(apiRequest, env)
+      const response = await withAudit(
+        env,
+        request,
+        'create', actor, undefined, handleCreateURL(apiRequest, env, actor)
+      )
       const result = (await response.json()) as any
 
       // Redirect back to /admin with message in query params
@@ -948,6 +3513,8 @@ SESSION.CLEANUP_INTERVAL_MS
     if (path.startsWith('/admin/update/')) {
       const slug = path.substring('/admin/update/'.length)
       const url = formData.get('url') as string
+      const tags = (formData.get('tags') as string) || ''
+      const schedule = readScheduleForm(formData)
 
       // Create request object for API handler
       const apiRequest = new Request(
@@ -958,11 +3525,29 @@ SESSION.CLEANUP_INTERVAL_MS
             'Content-Type': 'application/json',
             Authorization: `Bearer ${env.API_SECRET}`,
           },
-          body: JSON.stringify({ url }),
+          body: JSON.stringify({
+            url,
+            tags,
+            ...schedule,
+            redirectType: (formData.get('redirectType') as string | null) ?? undefined,
+            queryPassthrough: (formData.get('queryPassthrough') as string | null) ?? undefined,
+            prefix: formData.has('prefix'),
+            utm: readUTMForm(formData),
+            targets: parseTargetingText((formData.get('targets') as string) || ''),
+            variants: parseVariantsText((formData.get('variants') as string) || ''),
+            // A blank passphrase keeps the current one
+            password: formData.get('removePassword')
+              ? null
+              : (formData.get('password') as string) || undefined,
+          }),
         }
       )
 
-      const response = await handleUpdateURL(apiRequest, env)
+      const response = await withAudit(
+        env,
+        request,
+        'update', actor, slug, handleUpdateURL(apiRequest, env, actor)
+      )
       const result = (await response.json()) as any
 
       // Redirect back to /admin with message in query params
@@ -976,6 +3561,497 @@ SESSION.CLEANUP_INTERVAL_MS
       return Response.redirect(adminUrl.toString(), 302)
     }
 
+    // Rename URL
+    if (path.startsWith('/admin/rename/')) {
+      const slug = path.substring('/admin/rename/'.length)
+      const newSlug = formData.get('slug') as string
+
+      // Create request object for API handler
+      const apiRequest = new Request(
+        `${request.url.split('/admin/rename/')[0]}/admin/urls/${slug}/rename`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${env.API_SECRET}`,
+          },
+          body: JSON.stringify({ slug: newSlug }),
+        }
+      )
+
+      const response = await withAudit(
+        env,
+        request,
+        'rename', actor, slug, handleRenameURL(apiRequest, env, actor)
+      )
+      const result = (await response.json()) as any
+
+      // Redirect back to /admin with message in query params
+      const adminUrl = new URL('/admin', request.url)
+      if (response.ok) {
+        adminUrl.searchParams.set(
+          'success',
+          `Renamed /${slug} to /${result.data?.slug || ''}`
+        )
+      } else {
+        adminUrl.searchParams.set('error', result.error || 'Failed to rename URL')
+      }
+
+      return Response.redirect(adminUrl.toString(), 302)
+    }
+
+    // Revert to a revision
+    if (path.startsWith('/admin/revert/')) {
+      const slug = path.substring('/admin/revert/'.length)
+      const revision = formData.get('revision') as string
+
+      // Create request object for API handler
+      const apiRequest = new Request(
+        `${request.url.split('/admin/revert/')[0]}/admin/urls/${slug}/revert`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${env.API_SECRET}`,
+          },
+          body: JSON.stringify({ revision }),
+        }
+      )
+
+      const response = await withAudit(
+        env,
+        request,
+        'revert', actor, slug, handleRevertURL(apiRequest, env, actor)
+      )
+      const result = (await response.json()) as any
+
+      // Redirect back to the edit page with message in query params
+      const editUrl = new URL(`/admin/edit/${slug}`, request.url)
+      if (response.ok) {
+        editUrl.searchParams.set('success', `Reverted to revision ${revision}`)
+      } else {
+        editUrl.searchParams.set('error', result.error || 'Failed to revert URL')
+      }
+
+      return Response.redirect(editUrl.toString(), 302)
+    }
+
+    // Add alias
+    if (path.startsWith('/admin/add-alias/')) {
+      const slug = path.substring('/admin/add-alias/'.length)
+      const alias = formData.get('alias') as string
+
+      // Create request object for API handler
+      const apiRequest = new Request(
+        `${request.url.split('/admin/add-alias/')[0]}/admin/urls/${slug}/aliases`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${env.API_SECRET}`,
+          },
+          body: JSON.stringify({ alias }),
+        }
+      )
+
+      const response = await withAudit(
+        env,
+        request,
+        'alias', actor, slug, handleAddAlias(apiRequest, env, actor)
+      )
+      const result = (await response.json()) as any
+
+      // Redirect back to the edit page with message in query params
+      const editUrl = new URL(`/admin/edit/${slug}`, request.url)
+      if (!response.ok) {
+        editUrl.searchParams.set('error', result.error || 'Failed to add alias')
+      }
+
+      return Response.redirect(editUrl.toString(), 302)
+    }
+
+    // Remove alias
+    if (path.startsWith('/admin/remove-alias/')) {
+      const slug = path.substring('/admin/remove-alias/'.length)
+      const alias = formData.get('alias') as string
+
+      // Create request object for API handler
+      const apiRequest = new Request(
+        `${request.url.split('/admin/remove-alias/')[0]}/admin/urls/${slug}/aliases/${encodeURIComponent(alias)}`,
+        {
+          method: 'DELETE',
+          headers: {
+            Authorization: `Bearer ${env.API_SECRET}`,
+          },
+        }
+      )
+
+      const response = await withAudit(
+        env,
+        request,
+        'alias', actor, slug, handleRemoveAlias(apiRequest, env, actor)
+      )
+      const result = (await response.json()) as any
+
+      // Redirect back to the edit page with message in query params
+      const editUrl = new URL(`/admin/edit/${slug}`, request.url)
+      if (!response.ok) {
+        editUrl.searchParams.set('error', result.error || 'Failed to remove alias')
+      }
+
+      return Response.redirect(editUrl.toString(), 302)
+    }
+
+    // Restore or purge URL from the trash
+    const trashAction = path.match(/^\/admin\/(restore|purge)\/([^/]+)$/)
+    if (trashAction) {
+      const [, action, slug] = trashAction
+
+      // Create request object for API handler
+      const apiRequest = new Request(
+        `${request.url.split(`/admin/${action}/`)[0]}/admin/urls/${slug}/${action}`,
+        {
+          method: 'POST',
+          headers: {
+            Authorization: `Bearer ${env.API_SECRET}`,
+          },
+        }
+      )
+
+      const response = await withAudit(
+        env,
+        request,
+        action as 'restore' | 'purge',
+        actor,
+        slug,
+        action === 'restore'
+          ? handleRestoreURL(apiRequest, env, actor)
+          : handlePurgeURL(apiRequest, env)
+      )
+      const result = (await response.json()) as any
+
+      // Redirect back to the trash with message in query params
+      const trashUrl = new URL('/admin/trash', request.url)
+      if (response.ok) {
+        trashUrl.searchParams.set(
+          'success',
+          action === 'restore'
+            ? `Restored URL: /${slug}`
+            : `Permanently deleted URL: /${slug}`
+        )
+      } else {
+        trashUrl.searchParams.set('error', result.error || `Failed to ${action} URL`)
+      }
+
+      return Response.redirect(trashUrl.toString(), 302)
+    }
+
+    // Issue API token. The page is rendered directly so the token is
+    // shown once and never ends up in a URL.
+    if (path === '/admin/tokens') {
+      const { name, scopes, expiresAt, error } = parseTokenForm(formData)
+
+      if (error) {
+        return new Response(
+          renderTokensPage(await listTokens(env), csrfToken, {
+            type: 'error',
+            text: error,
+          }),
+          { status: 400, headers: { 'Content-Type': 'text/html' } }
+        )
+      }
+
+      const issued = await issueToken(env, { name, scopes, expiresAt })
+      await logAuditEvent(env, request, {
+        action: 'issue-token',
+        outcome: 'success',
+        actor,
+        target: name,
+        detail: scopes.join(', '),
+      })
+
+      return new Response(
+        renderTokensPage(await listTokens(env), csrfToken, undefined, issued),
+        { headers: { 'Content-Type': 'text/html', 'Cache-Control': 'no-store' } }
+      )
+    }
+
+    // Revoke API token
+    const revokeMatch = path.match(/^\/admin\/tokens\/([^/]+)\/revoke$/)
+    if (revokeMatch) {
+      const token = await revokeToken(env, revokeMatch[1])
+      await logAuditEvent(env, request, {
+        action: 'revoke-token',
+        outcome: token ? 'success' : 'failure',
+        actor,
+        target: token?.name || revokeMatch[1],
+        ...(token ? {} : { detail: 'Token not found' }),
+      })
+
+      const tokensUrl = new URL('/admin/tokens', request.url)
+      if (token) {
+        tokensUrl.searchParams.set('success', `Revoked token: ${token.name}`)
+      } else {
+        tokensUrl.searchParams.set('error', 'Token not found')
+      }
+
+      return Response.redirect(tokensUrl.toString(), 302)
+    }
+
+    // Save UTM template
+    if (path === '/admin/utm') {
+      const { name, params, error } = parseUTMTemplateForm(formData)
+      const utmUrl = new URL('/admin/utm', request.url)
+
+      if (error) {
+        utmUrl.searchParams.set('error', error)
+        return Response.redirect(utmUrl.toString(), 302)
+      }
+
+      await saveUTMTemplate(env, name, params)
+      await logAuditEvent(env, request, {
+        action: 'save-utm-template',
+        outcome: 'success',
+        actor,
+        target: name,
+        detail: formatUTM(params),
+      })
+
+      utmUrl.searchParams.set('success', `Saved template: ${name}`)
+      return Response.redirect(utmUrl.toString(), 302)
+    }
+
+    // Delete UTM template
+    const utmDeleteMatch = path.match(/^\/admin\/utm\/([^/]+)\/delete$/)
+    if (utmDeleteMatch) {
+      const template = await deleteUTMTemplate(env, utmDeleteMatch[1])
+      await logAuditEvent(env, request, {
+        action: 'delete-utm-template',
+        outcome: template ? 'success' : 'failure',
+        actor,
+        target: utmDeleteMatch[1],
+        ...(template ? {} : { detail: 'Template not found' }),
+      })
+
+      const utmUrl = new URL('/admin/utm', request.url)
+      if (template) {
+        utmUrl.searchParams.set('success', `Deleted template: ${template.name}`)
+      } else {
+        utmUrl.searchParams.set('error', 'Template not found')
+      }
+
+      return Response.redirect(utmUrl.toString(), 302)
+    }
+
+    if (path === '/admin/2fa/start') {
+      await startEnrolment(env, session!.userId)
+      return Response.redirect(new URL('/admin/2fa', request.url).toString(), 302)
+    }
+
+    // Turn two-factor on or off, or replace the recovery codes. Pages with
+    // recovery codes are rendered directly so the codes never end up in a URL.
+    const twoFactorAction = path.match(
+      /^\/admin\/2fa\/(enable|disable|recovery-codes)$/
+    )
+    if (twoFactorAction) {
+      const action = twoFactorAction[1]
+      const code = (formData.get('code') as string) || ''
+      const userId = session!.userId
+
+      let recoveryCodes: string[] | undefined
+      let error: string | undefined
+      try {
+        if (action === 'enable') {
+          recoveryCodes = await enableTwoFactor(env, userId, code)
+        } else if (!(await checkTwoFactorCode(env, userId, code))) {
+          error = 'Invalid authentication code'
+        } else if (action === 'disable') {
+          await disableTwoFactor(env, userId)
+        } else {
+          recoveryCodes = await regenerateRecoveryCodes(env, userId)
+        }
+      } catch (e) {
+        error = e instanceof Error ? e.message : 'Failed to update two-factor settings'
+      }
+
+      await logAuditEvent(env, request, {
+        action: 'two-factor',
+        outcome: error ? 'failure' : 'success',
+        actor,
+        detail: error || {
+          enable: 'Enabled',
+          disable: 'Disabled',
+          'recovery-codes': 'Replaced recovery codes',
+        }[action],
+      })
+
+      if (action === 'disable' && !error) {
+        const twoFactorUrl = new URL('/admin/2fa', request.url)
+        twoFactorUrl.searchParams.set('success', 'Two-factor authentication is off')
+        return Response.redirect(twoFactorUrl.toString(), 302)
+      }
+
+      const config = await getTwoFactor(env, userId)
+      return new Response(
+        renderTwoFactorPage({
+          config,
+          uri: config
+            ? getOtpauthURI(config.secret, getAccountName(session!), env.DOMAIN)
+            : undefined,
+          isMaster: session!.userId === MASTER_USER_ID,
+          recoveryCodes,
+          csrfToken,
+          message: error
+            ? { type: 'error', text: error }
+            : action === 'enable'
+              ? { type: 'success', text: 'Two-factor authentication is on' }
+              : undefined,
+        }),
+        {
+          status: error ? 400 : 200,
+          headers: { 'Content-Type': 'text/html', 'Cache-Control': 'no-store' },
+        }
+      )
+    }
+
+    // Revoke one session, or all of the user's other sessions
+    const sessionAction = path.match(
+      /^\/admin\/sessions\/(?:([a-f0-9]+)\/revoke|(revoke-others))$/
+    )
+    if (sessionAction) {
+      const [, id, others] = sessionAction
+      const sessionsUrl = new URL('/admin/sessions', request.url)
+
+      if (others) {
+        const count = await revokeUserSessions(
+          env,
+          session!.userId,
+          session!.sessionId
+        )
+        await logAuditEvent(env, request, {
+          action: 'revoke-session',
+          outcome: 'success',
+          actor,
+          detail: `Logged out ${count} other sessions`,
+        })
+        sessionsUrl.searchParams.set('success', `Logged out ${count} other sessions`)
+      } else {
+        // Only admins can end other users' sessions
+        const target = await getSessionRecord(env, id)
+        const allowed =
+          !!target &&
+          (target.userId === session!.userId || session!.role === 'admin')
+        if (allowed) {
+          await revokeSession(env, id)
+        }
+        await logAuditEvent(env, request, {
+          action: 'revoke-session',
+          outcome: allowed ? 'success' : 'failure',
+          actor,
+          ...(allowed ? {} : { detail: 'Session not found' }),
+        })
+        if (allowed) {
+          sessionsUrl.searchParams.set('success', 'Session revoked')
+        } else {
+          sessionsUrl.searchParams.set('error', 'Session not found')
+        }
+      }
+
+      return Response.redirect(sessionsUrl.toString(), 302)
+    }
+
+    // Add user
+    if (path === '/admin/users') {
+      const username = ((formData.get('username') as string) || '').trim()
+      const usersUrl = new URL('/admin/users', request.url)
+
+      try {
+        const user = await createUser(env, {
+          username,
+          password: (formData.get('password') as string) || '',
+          role: formData.get('role') as UserRole,
+        })
+        await logAuditEvent(env, request, {
+          action: 'create-user',
+          outcome: 'success',
+          actor,
+          target: user.username,
+          detail: user.role,
+        })
+        usersUrl.searchParams.set('success', `Added user: ${user.username}`)
+      } catch (error) {
+        const text = error instanceof Error ? error.message : 'Failed to add user'
+        await logAuditEvent(env, request, {
+          action: 'create-user',
+          outcome: 'failure',
+          actor,
+          target: username,
+          detail: text,
+        })
+        usersUrl.searchParams.set('error', text)
+      }
+
+      return Response.redirect(usersUrl.toString(), 302)
+    }
+
+    // Change or delete user
+    const userAction = path.match(/^\/admin\/users\/([^/]+)\/(update|delete)$/)
+    if (userAction) {
+      const [, id, action] = userAction
+      const usersUrl = new URL('/admin/users', request.url)
+
+      try {
+        if (action === 'delete') {
+          if (id === session!.userId) {
+            throw new Error('You cannot delete your own account')
+          }
+          const user = await deleteUser(env, id)
+          if (!user) {
+            throw new Error('User not found')
+          }
+          await disableTwoFactor(env, id)
+          await revokeUserSessions(env, id)
+          await logAuditEvent(env, request, {
+            action: 'delete-user',
+            outcome: 'success',
+            actor,
+            target: user.username,
+          })
+          usersUrl.searchParams.set('success', `Deleted user: ${user.username}`)
+        } else {
+          const password = (formData.get('password') as string) || ''
+          const user = await updateUser(env, id, {
+            role: (formData.get('role') as UserRole) || undefined,
+            password: password || undefined,
+          })
+          // A new password signs the user out everywhere
+          if (password) {
+            await revokeUserSessions(env, id)
+          }
+          await logAuditEvent(env, request, {
+            action: 'update-user',
+            outcome: 'success',
+            actor,
+            target: user.username,
+            detail: password ? `${user.role}, password changed` : user.role,
+          })
+          usersUrl.searchParams.set('success', `Updated user: ${user.username}`)
+        }
+      } catch (error) {
+        const text = error instanceof Error ? error.message : `Failed to ${action} user`
+        await logAuditEvent(env, request, {
+          action: action === 'delete' ? 'delete-user' : 'update-user',
+          outcome: 'failure',
+          actor,
+          target: id,
+          detail: text,
+        })
+        usersUrl.searchParams.set('error', text)
+      }
+
+      return Response.redirect(usersUrl.toString(), 302)
+    }
+
     // Delete URL
     if (path.startsWith('/admin/delete/')) {
       const slug = path.substring('/admin/delete/'.length)
@@ -991,13 +4067,20 @@ SESSION.CLEANUP_INTERVAL_MS
         }
       )
 
-      const response = await handleDeleteURL(apiRequest, env)
+      const response = await withAudit(
+        env,
+        request,
+        'delete',
+        actor,
+        slug,
+        handleDeleteURL(apiRequest, env, actor)
+      )
       const result = (await response.json()) as any
 
       // Redirect back to /admin with message in query params
       const adminUrl = new URL('/admin', request.url)
       if (response.ok) {
-        adminUrl.searchParams.set('success', `Deleted URL: /${slug}`)
+        adminUrl.searchParams.set('success', `Moved /${slug} to the trash`)
       } else {
         adminUrl.searchParams.set('error', result.error || 'Failed to delete URL')
       }
@@ -0,0 +1,550 @@
+import {
+  Env,
+  ClickEvent,
+  ClickCounter,
+  ClickSummary,
+  ClickMove,
+  UserAgentClass,
+  LinkStats,
+  StatsBucket,
+} from './types'
+import { isSocialMediaCrawler, escapeHTML, getAlias } from './index'
+import { CLICKS } from './constants'
+
+// ========== User Agent Classification ==========
+
+/**
+ * Classify a user agent into coarse device, browser and OS buckets
+ */
+export function classifyUserAgent(userAgent: string): UserAgentClass {
+  const ua = userAgent.toLowerCase()
+
+  const isBot =
+    !ua ||
+    isSocialMediaCrawler(ua) ||
+    /bot|crawler|spider|slurp|preview|curl|wget|python|httpclient|headless/.test(
+      ua
+    )
+
+  let os = 'Other'
+  if (/iphone|ipad|ipod/.test(ua)) os = 'iOS'
+  else if (ua.includes('android')) os = 'Android'
+  else if (ua.includes('windows')) os = 'Windows'
+  else if (ua.includes('mac os x') || ua.includes('macintosh')) os = 'macOS'
+  else if (ua.includes('cros')) os = 'ChromeOS'
+  else if (ua.includes('linux')) os = 'Linux'
+
+  // Order matters: most browsers include "chrome" and/or "safari" in their UA
+  let browser = 'Other'
+  if (ua.includes('edg/')) browser = 'Edge'
+  else if (ua.includes('opr/') || ua.includes('opera')) browser = 'Opera'
+  else if (ua.includes('firefox') || ua.includes('fxios')) browser = 'Firefox'
+  else if (ua.includes('chrome') || ua.includes('crios')) browser = 'Chrome'
+  else if (ua.includes('safari')) browser = 'Safari'
+
+  let device: UserAgentClass['device'] = 'desktop'
+  if (isBot) device = 'bot'
+  else if (ua.includes('ipad') || ua.includes('tablet')) device = 'tablet'
+  else if (ua.includes('android') && !ua.includes('mobile')) device = 'tablet'
+  else if (/mobi|iphone|ipod|android/.test(ua)) device = 'mobile'
+
+  return { device, browser, os }
+}
+
+// ========== Click Recording ==========
+
+/**
+ * Hash a client IP with the API secret so raw IPs are never stored
+ */
+export async function hashIP(ip: string, secret: string): Promise<string> {
+  const data = new TextEncoder().encode(`${secret}:${ip}`)
+  const digest = await crypto.subtle.digest('SHA-256', data)
+  return Array.from(new Uint8Array(digest).slice(0, 8))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+/**
+ * Extract the referrer host from a request, or "direct" if there isn't one
+ */
+function getReferrerHost(request: Request): string {
+  const referrer = request.headers.get('Referer')
+  if (!referrer) return 'direct'
+
+  try {
+    return new URL(referrer).hostname.toLowerCase() || 'direct'
+  } catch {
+    return 'direct'
+  }
+}
+
+/**
+ * Build a click event from an incoming redirect request
+ */
+export async function createClickEvent(
+  request: Request,
+  env: Env
+): Promise<ClickEvent> {
+  const clientIP = request.headers.get('CF-Connecting-IP') || 'unknown'
+
+  return {
+    timestamp: new Date().toISOString(),
+    ipHash: await hashIP(clientIP, env.API_SECRET || ''),
+    referrer: getReferrerHost(request),
+    country: (request.cf?.country as string | undefined) || 'unknown',
+    agent: classifyUserAgent(request.headers.get('User-Agent') || ''),
+  }
+}
+
+/**
+ * Record a click event and bump the rolling counter for a slug. Crawlers and
+ * other bots, link unfurls included, are kept for the stats breakdowns but
+ * don't count towards the total or a link's maxClicks.
+ */
+export async function recordClick(
+  env: Env,
+  slug: string,
+  event: ClickEvent
+): Promise<void> {
+  // Events are stored as list metadata so stats can be read without a get per event
+  const suffix = Math.random().toString(36).slice(2, 8)
+  const key = `click:${slug}:${event.timestamp}:${suffix}`
+
+  await Promise.all([
+    env.URLS_KV.put(key, JSON.stringify(event), {
+      metadata: event,
+      expirationTtl: CLICKS.EVENT_RETENTION_SECONDS,
+    }),
+    ...(event.agent.device === 'bot'
+      ? []
+      : [incrementClickCounter(env, slug, event.timestamp)]),
+  ])
+}
+
+// ========== Click Counters ==========
+
+/**
+ * Retrieve the rolling click counter for a slug
+ */
+export async function getClickCounter(
+  env: Env,
+  slug: string
+): Promise<ClickCounter> {
+  const data = await env.URLS_KV.get(`counter:${slug}`)
+  if (!data) return { total: 0, daily: {} }
+
+  try {
+    return JSON.parse(data) as ClickCounter
+  } catch {
+    return { total: 0, daily: {} }
+  }
+}
+
+/**
+ * Increment the click counter for a slug, dropping daily buckets past retention.
+ *
+ * KV has no atomic increment, so two clicks recorded at the same moment can
+ * both read the old count and one of them is lost. KV also takes at most one
+ * write per second to a key, so on a link clicked several times a second
+ * some counter writes are rejected. Counts, and the maxClicks limit checked
+ * against them, are therefore approximate under bursts and on busy links.
+ */
+async function incrementClickCounter(
+  env: Env,
+  slug: string,
+  timestamp: string
+): Promise<void> {
+  const counter = await getClickCounter(env, slug)
+  const day = timestamp.slice(0, 10)
+
+  counter.total++
+  counter.daily[day] = (counter.daily[day] || 0) + 1
+
+  const cutoff = dayKey(Date.now(), CLICKS.COUNTER_RETENTION_DAYS)
+  for (const key of Object.keys(counter.daily)) {
+    if (key < cutoff) delete counter.daily[key]
+  }
+
+  await env.URLS_KV.put(`counter:${slug}`, JSON.stringify(counter))
+}
+
+/**
+ * Get the YYYY-MM-DD key for the day `daysAgo` days before `now`
+ */
+export function dayKey(now: number, daysAgo: number = 0): string {
+  return new Date(now - daysAgo * 864e5).toISOString().slice(0, 10)
+}
+
+/**
+ * Count clicks in the last `days` days (including today)
+ */
+export function countRecentClicks(
+  counter: ClickCounter,
+  days: number = CLICKS.RECENT_DAYS,
+  now: number = Date.now()
+): number {
+  let count = 0
+  for (let i = 0; i < days; i++) {
+    count += counter.daily[dayKey(now, i)] || 0
+  }
+  return count
+}
+
+/**
+ * Get total and recent click counts for a set of slugs
+ */
+export async function getClickSummaries(
+  env: Env,
+  slugs: string[]
+): Promise<Record<string, ClickSummary>> {
+  const counters = await Promise.all(
+    slugs.map((slug) => getClickCounter(env, slug))
+  )
+
+  const summaries: Record<string, ClickSummary> = {}
+  slugs.forEach((slug, i) => {
+    summaries[slug] = {
+      total: counters[i].total,
+      recent: countRecentClicks(counters[i]),
+    }
+  })
+  return summaries
+}
+
+/**
+ * Move click data from one slug to another (used when renaming). The counter
+ * moves at once; events move a batch at a time, and any left over are queued
+ * under click-move:{from} for the scheduled job so a rename of a busy link
+ * stays within KV's per-invocation operation limit.
+ */
+export async function moveClickData(
+  env: Env,
+  from: string,
+  to: string
+): Promise<void> {
+  const [source, target] = await Promise.all([
+    getClickCounter(env, from),
+    getClickCounter(env, to),
+  ])
+
+  if (source.total > 0) {
+    target.total += source.total
+    for (const [day, count] of Object.entries(source.daily)) {
+      target.daily[day] = (target.daily[day] || 0) + count
+    }
+    await env.URLS_KV.put(`counter:${to}`, JSON.stringify(target))
+  }
+  await env.URLS_KV.delete(`counter:${from}`)
+
+  if (!(await moveClickEvents(env, from, to))) {
+    const move: ClickMove = { to, queuedAt: new Date().toISOString() }
+    await env.URLS_KV.put(`click-move:${from}`, JSON.stringify(move))
+  }
+}
+
+/**
+ * Move up to CLICKS.MOVE_BATCH events from one slug to another. Moved events
+ * are deleted from the source, so each batch starts from the front of the
+ * list. Returns true once no events are left behind.
+ */
+async function moveClickEvents(
+  env: Env,
+  from: string,
+  to: string
+): Promise<boolean> {
+  const list = await env.URLS_KV.list<ClickEvent>({
+    prefix: `click:${from}:`,
+    limit: CLICKS.MOVE_BATCH,
+  })
+  for (const key of list.keys) {
+    if (key.metadata) {
+      await env.URLS_KV.put(
+        `click:${to}:${key.name.slice(`click:${from}:`.length)}`,
+        JSON.stringify(key.metadata),
+        {
+          metadata: key.metadata,
+          expirationTtl: CLICKS.EVENT_RETENTION_SECONDS,
+        }
+      )
+    }
+    await env.URLS_KV.delete(key.name)
+  }
+  return list.list_complete
+}
+
+/**
+ * Take the next batch of the oldest queued event move (used by the frequent
+ * scheduled job). The old slug's alias points at the link's current slug, so
+ * a link renamed again while its move was queued gets its events all the same.
+ */
+export async function continueClickMoves(env: Env): Promise<void> {
+  const pending = await env.URLS_KV.list({ prefix: 'click-move:', limit: 1 })
+  if (pending.keys.length === 0) return
+
+  const key = pending.keys[0].name
+  const from = key.slice('click-move:'.length)
+  const data = await env.URLS_KV.get(key)
+  let move: ClickMove
+  try {
+    move = JSON.parse(data || '') as ClickMove
+  } catch {
+    await env.URLS_KV.delete(key)
+    return
+  }
+
+  const to = (await getAlias(env, from))?.slug || move.to
+  if (await moveClickEvents(env, from, to)) {
+    await env.URLS_KV.delete(key)
+  }
+}
+
+/**
+ * Delete a slug's click events and counter (used when purging)
+ */
+export async function deleteClickData(env: Env, slug: string): Promise<void> {
+  await env.URLS_KV.delete(`counter:${slug}`)
+
+  let cursor: string | undefined
+  do {
+    const list = await env.URLS_KV.list({ prefix: `click:${slug}:`, cursor })
+    for (const key of list.keys) {
+      await env.URLS_KV.delete(key.name)
+    }
+    cursor = list.list_complete ? undefined : list.cursor
+  } while (cursor)
+}
+
+// ========== Link Stats ==========
+
+/**
+ * List a slug's retained click events, reading at most maxPages list pages.
+ * Keys sort by timestamp, so a busy link's breakdowns cover its oldest
+ * retained clicks and partial is set.
+ */
+export async function listClickEvents(
+  env: Env,
+  slug: string,
+  maxPages: number = CLICKS.STATS_MAX_PAGES
+): Promise<{ events: ClickEvent[]; partial: boolean }> {
+  const events: ClickEvent[] = []
+  let cursor: string | undefined
+  let pages = 0
+
+  do {
+    const list = await env.URLS_KV.list<ClickEvent>({
+      prefix: `click:${slug}:`,
+      cursor,
+    })
+    for (const key of list.keys) {
+      if (key.metadata) events.push(key.metadata)
+    }
+    cursor = list.list_complete ? undefined : list.cursor
+    pages++
+  } while (cursor && pages < maxPages)
+
+  return { events, partial: cursor !== undefined }
+}
+
+/**
+ * Tally values into buckets, largest first, keeping the top N
+ */
+function toBuckets(
+  values: string[],
+  limit: number = CLICKS.STATS_TOP_N
+): StatsBucket[] {
+  const counts = new Map<string, number>()
+  for (const value of values) {
+    counts.set(value, (counts.get(value) || 0) + 1)
+  }
+
+  return [...counts.entries()]
+    .map(([name, count]) => ({ name, count }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+    .slice(0, limit)
+}
+
+/**
+ * Build the stats for a slug: daily series from the counter, breakdowns from events
+ */
+export async function getLinkStats(
+  env: Env,
+  slug: string,
+  now: number = Date.now()
+): Promise<LinkStats> {
+  const [counter, { events, partial }] = await Promise.all([
+    getClickCounter(env, slug),
+    listClickEvents(env, slug),
+  ])
+
+  const daily: StatsBucket[] = []
+  for (let i = CLICKS.STATS_DAYS - 1; i >= 0; i--) {
+    const date = dayKey(now, i)
+    daily.push({ name: date, count: counter.daily[date] || 0 })
+  }
+
+  return {
+    slug,
+    total: counter.total,
+    recent: countRecentClicks(counter, CLICKS.RECENT_DAYS, now),
+    daily,
+    referrers: toBuckets(events.map((e) => e.referrer)),
+    countries: toBuckets(events.map((e) => e.country)),
+    devices: toBuckets(events.map((e) => e.agent.device)),
+    browsers: toBuckets(events.map((e) => e.agent.browser)),
+    audience: toBuckets(
+      events.map((e) => (e.agent.device === 'bot' ? 'crawler' : 'human'))
+    ),
+    aliases: toBuckets(events.map((e) => `/${e.alias || slug}`)),
+    variants: toBuckets(
+      events.filter((e) => e.variant).map((e) => e.variant!)
+    ),
+    partial,
+  }
+}
+
+// ========== Stats Charts ==========
+
+/**
+ * Render a daily click series as an inline SVG bar chart
+ */
+export function renderDailyChart(daily: StatsBucket[]): string {
+  const width = 720
+  const height = 160
+  const max = Math.max(1, ...daily.map((d) => d.count))
+  const barWidth = width / Math.max(1, daily.length)
+
+  const bars = daily
+    .map((day, i) => {
+      const barHeight = Math.round((day.count / max) * (height - 20))
+      return `<rect x="${(i * barWidth + 1).toFixed(1)}" y="${
+        height - 20 - barHeight
+      }" width="${(barWidth - 2).toFixed(1)}" height="${barHeight}" rx="2"><title>${escapeHTML(
+        day.name
+      )}: ${day.count}</title></rect>`
+    })
+    .join('')
+
+  const first = daily[0]?.name || ''
+  const last = daily[daily.length - 1]?.name || ''
+
+  return `<svg class="chart" viewBox="0 0 ${width} ${height}" role="img" aria-label="Daily clicks">
+    <g fill="currentColor">${bars}</g>
+    <text x="0" y="${height - 4}" font-size="11">${escapeHTML(first)}</text>
+    <text x="${width}" y="${height - 4}" font-size="11" text-anchor="end">${escapeHTML(last)}</text>
+  </svg>`
+}
+
+/**
+ * Render a breakdown as an inline SVG horizontal bar list
+ */
+export function renderBreakdownChart(buckets: StatsBucket[]): string {
+  if (buckets.length === 0) {
+    return '<p><small>No clicks recorded yet.</small></p>'
+  }
+
+  const width = 340
+  const rowHeight = 24
+  const labelWidth = 130
+  const max = Math.max(1, ...buckets.map((b) => b.count))
+
+  const rows = buckets
+    .map((bucket, i) => {
+      const y = i * rowHeight
+      const barWidth = Math.max(
+        2,
+        Math.round((bucket.count / max) * (width - labelWidth - 40))
+      )
+      return `<text x="0" y="${y + 16}" font-size="12">${escapeHTML(
+        bucket.name.slice(0, 20)
+      )}</text><rect x="${labelWidth}" y="${
+        y + 5
+      }" width="${barWidth}" height="14" rx="2" fill="currentColor"></rect><text x="${
+        labelWidth + barWidth + 6
+      }" y="${y + 16}" font-size="12">${bucket.count}</text>`
+    })
+    .join('')
+
+  return `<svg class="chart" viewBox="0 0 ${width} ${
+    buckets.length * rowHeight
+  }" role="img">${rows}</svg>`
+}
+
+/**
+ * Render the per-link stats page
+ */
+export function renderStatsPage(stats: LinkStats, domain: string): string {
+  const breakdowns: [string, StatsBucket[]][] = [
+    ['Referrers', stats.referrers],
+    ['Countries', stats.countries],
+    ['Devices', stats.devices],
+    ['Browsers', stats.browsers],
+    ['Crawlers vs humans', stats.audience],
+    ['Slug used', stats.aliases],
+    ...(stats.variants.length
+      ? [['A/B variants', stats.variants] as [string, StatsBucket[]]]
+      : []),
+  ]
+
+  return `<!DOCTYPE html>
+<html lang="en" data-theme="dark">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Stats for /${escapeHTML(stats.slug)} - URL Shortener Admin</title>
+    <link rel="stylesheet" href="https://unpkg.com/@picocss/pico@1.5.10/css/pico.min.css">
+    <style>
+        :root { --pico-font-size: 90%; }
+        body { position: relative; font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif; padding-top: 2rem; }
+        .container { max-width: 800px; }
+        .stats { display: grid; grid-template-columns: 1fr 1fr; gap: 1rem; margin-bottom: 2rem; }
+        .stat-card { padding: 0.75rem; text-align: center; background: var(--pico-card-background-color); border: 1px solid var(--pico-card-border-color); border-radius: var(--pico-border-radius); }
+        .stat-value { font-size: 1.5rem; font-weight: bold; }
+        .stat-label { font-size: 0.8rem; color: var(--pico-muted-color); }
+        .chart { width: 100%; height: auto; color: var(--pico-primary); }
+        .chart text { fill: var(--pico-color); }
+        .breakdowns { display: grid; grid-template-columns: repeat(auto-fit, minmax(300px, 1fr)); gap: 1rem; }
+    </style>
+</head>
+<body>
+    <main class="container">
+        <h2>Stats for /${escapeHTML(stats.slug)}</h2>
+        <p><code>https://${escapeHTML(domain)}/${escapeHTML(stats.slug)}</code></p>
+
+        <div class="stats">
+            <div class="stat-card"><p class="stat-value">${stats.total}</p><p class="stat-label">Total clicks</p></div>
+            <div class="stat-card"><p class="stat-value">${stats.recent}</p><p class="stat-label">Last ${CLICKS.RECENT_DAYS} days</p></div>
+        </div>
+
+        <article>
+            <h4>Clicks per day (last ${CLICKS.STATS_DAYS} days)</h4>
+            ${renderDailyChart(stats.daily)}
+        </article>
+
+        <section class="breakdowns">
+            ${breakdowns
+              .map(
+                ([title, buckets]) => `
+            <article>
+                <h5>${title}</h5>
+                ${renderBreakdownChart(buckets)}
+            </article>`
+              )
+              .join('')}
+        </section>
+
+        <p><small>${
+          stats.partial
+            ? `Breakdowns are partial: they cover only the earliest ${
+                CLICKS.STATS_MAX_PAGES * 1000
+              } of the clicks kept for the last ${
+                CLICKS.EVENT_RETENTION_SECONDS / 86400
+              } days.`
+            : `Breakdowns cover the last ${
+                CLICKS.EVENT_RETENTION_SECONDS / 86400
+              } days of clicks.`
+        }</small></p>
+        <a href="/admin" role="button" class="outline">Back</a>
+    </main>
+</body>
+</html>`
+}
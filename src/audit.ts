@@ -0,0 +1,305 @@
+import {
+  Env,
+  Actor,
+  AuditAction,
+  AuditEntry,
+  AuditFilter,
+  AuditOutcome,
+  LoginLockout,
+} from './types'
+import { escapeHTML } from './index'
+import { AUDIT } from './constants'
+
+const AUDIT_ACTIONS: AuditAction[] = [
+  'login',
+  'logout',
+  'create',
+  'update',
+  'rename',
+  'alias',
+  'revert',
+  'delete',
+  'restore',
+  'purge',
+  'import',
+  'issue-token',
+  'revoke-token',
+  'create-user',
+  'update-user',
+  'delete-user',
+  'two-factor',
+  'revoke-session',
+  'save-utm-template',
+  'delete-utm-template',
+  'rate-limit',
+]
+const AUDIT_OUTCOMES: AuditOutcome[] = ['success', 'failure', 'denied']
+const ACTOR_TYPES: Actor['type'][] = ['session', 'api-key', 'anonymous']
+
+// Keys hold the time remaining until this 13-digit timestamp, so KV's
+// ascending list order returns the newest entries first
+const MAX_TIMESTAMP = 9999999999999
+
+// ========== Recording ==========
+
+/**
+ * Shorten a value so a whole entry fits in KV list metadata
+ */
+function truncate(value: string): string {
+  return value.length > AUDIT.MAX_FIELD_LENGTH
+    ? `${value.slice(0, AUDIT.MAX_FIELD_LENGTH - 1)}…`
+    : value
+}
+
+/**
+ * Record an admin or API action in the audit log
+ */
+export async function logAuditEvent(
+  env: Env,
+  request: Request,
+  event: {
+    action: AuditAction
+    outcome: AuditOutcome
+    actor: Actor
+    target?: string
+    detail?: string
+  }
+): Promise<void> {
+  const now = Date.now()
+  const entry: AuditEntry = {
+    timestamp: new Date(now).toISOString(),
+    action: event.action,
+    outcome: event.outcome,
+    actor: event.actor,
+    ip: request.headers.get('CF-Connecting-IP') || 'unknown',
+    userAgent: truncate(request.headers.get('User-Agent') || ''),
+    ...(event.target ? { target: truncate(event.target) } : {}),
+    ...(event.detail ? { detail: truncate(event.detail) } : {}),
+  }
+
+  const suffix = Math.random().toString(36).slice(2, 8)
+  const key = `audit:${String(MAX_TIMESTAMP - now).padStart(13, '0')}:${suffix}`
+
+  // The entry is also stored as metadata so listing needs no extra reads
+  await env.URLS_KV.put(key, JSON.stringify(entry), {
+    metadata: entry,
+    expirationTtl: AUDIT.RETENTION_SECONDS,
+  })
+}
+
+// ========== Querying ==========
+
+/**
+ * Parse audit log filters from query parameters
+ */
+export function parseAuditFilter(
+  params: URLSearchParams
+): { filter: AuditFilter; error?: string } {
+  const filter: AuditFilter = {
+    action: (params.get('action') || undefined) as AuditAction | undefined,
+    outcome: (params.get('outcome') || undefined) as AuditOutcome | undefined,
+    actor: (params.get('actor') || undefined) as Actor['type'] | undefined,
+    from: params.get('from') || undefined,
+    to: params.get('to') || undefined,
+  }
+
+  if (filter.action && !AUDIT_ACTIONS.includes(filter.action)) {
+    return { filter, error: 'Invalid action' }
+  }
+  if (filter.outcome && !AUDIT_OUTCOMES.includes(filter.outcome)) {
+    return { filter, error: 'Invalid outcome' }
+  }
+  if (filter.actor && !ACTOR_TYPES.includes(filter.actor)) {
+    return { filter, error: 'Invalid actor' }
+  }
+  for (const date of [filter.from, filter.to]) {
+    if (date && isNaN(new Date(date).getTime())) {
+      return { filter, error: 'Invalid date range' }
+    }
+  }
+
+  return { filter }
+}
+
+/**
+ * Check whether an audit entry matches every filter
+ */
+export function matchesAuditFilter(
+  entry: AuditEntry,
+  filter: AuditFilter
+): boolean {
+  if (filter.action && entry.action !== filter.action) return false
+  if (filter.outcome && entry.outcome !== filter.outcome) return false
+  if (filter.actor && entry.actor.type !== filter.actor) return false
+
+  const time = new Date(entry.timestamp).getTime()
+  if (filter.from && time < new Date(filter.from).getTime()) return false
+  if (filter.to) {
+    // Plain dates include the whole day
+    const to = /^\d{4}-\d{2}-\d{2}$/.test(filter.to)
+      ? new Date(filter.to).getTime() + 864e5
+      : new Date(filter.to).getTime() + 1
+    if (time >= to) return false
+  }
+
+  return true
+}
+
+/**
+ * List audit entries matching a filter, newest first, a page at a time.
+ * The cursor continues from where the previous page stopped.
+ */
+export async function listAuditEntries(
+  env: Env,
+  filter: AuditFilter,
+  cursor?: string
+): Promise<{ entries: AuditEntry[]; cursor: string | null }> {
+  const entries: AuditEntry[] = []
+  const from = filter.from ? new Date(filter.from).getTime() : 0
+  let next: string | undefined = cursor
+
+  do {
+    const list = await env.URLS_KV.list<AuditEntry>({
+      prefix: 'audit:',
+      cursor: next,
+      limit: AUDIT.PAGE_SIZE,
+    })
+
+    for (const key of list.keys) {
+      if (!key.metadata) continue
+      // Everything after this is older still
+      if (new Date(key.metadata.timestamp).getTime() < from) {
+        return { entries, cursor: null }
+      }
+      if (matchesAuditFilter(key.metadata, filter)) entries.push(key.metadata)
+    }
+    next = list.list_complete ? undefined : list.cursor
+  } while (next && entries.length < AUDIT.PAGE_SIZE)
+
+  return { entries, cursor: next || null }
+}
+
+// ========== Audit Page ==========
+
+/**
+ * Render the audit log page with filters and paging. IPs currently locked
+ * out of signing in are listed above the log.
+ */
+export function renderAuditPage(
+  entries: AuditEntry[],
+  filter: AuditFilter,
+  cursor: string | null,
+  error?: string,
+  lockouts: LoginLockout[] = []
+): string {
+  const params = new URLSearchParams()
+  for (const [name, value] of Object.entries(filter)) {
+    if (value) params.set(name, value)
+  }
+  const select = (name: string, label: string, options: string[], value?: string) =>
+    `<select name="${name}" aria-label="${label}">
+                    <option value="">Any ${label.toLowerCase()}</option>
+                    ${options
+                      .map(
+                        (option) =>
+                          `<option value="${option}"${option === value ? ' selected' : ''}>${option}</option>`
+                      )
+                      .join('')}
+                </select>`
+
+  return `<!DOCTYPE html>
+<html lang="en" data-theme="dark">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Audit Log - URL Shortener Admin</title>
+    <link rel="stylesheet" href="https://unpkg.com/@picocss/pico@1.5.10/css/pico.min.css">
+    <style>
+        :root { --pico-font-size: 90%; }
+        body { position: relative; font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif; padding-top: 2rem; }
+        .container { max-width: 1000px; }
+        table { font-size: 0.8rem; }
+        td { word-break: break-word; }
+        .outcome-failure, .outcome-denied { color: var(--pico-del-color); }
+        .lockouts ul { margin: 0.5rem 0 0; font-size: 0.8rem; }
+        .user-agent { display: block; max-width: 220px; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; color: var(--pico-muted-color); }
+    </style>
+</head>
+<body>
+    <main class="container">
+        <h2>Audit Log</h2>
+        ${error ? `<div class="message error">${escapeHTML(error)}</div>` : ''}
+        ${
+          lockouts.length > 0
+            ? `<article class="lockouts">
+            <strong>Locked out of signing in</strong>
+            <ul>
+                ${lockouts
+                  .map(
+                    (lockout) =>
+                      `<li>${escapeHTML(lockout.ip)} until ${escapeHTML(
+                        new Date(lockout.until).toISOString().replace('T', ' ').slice(0, 16)
+                      )} UTC${lockout.level > 1 ? ` (lockout ${lockout.level} this week)` : ''}</li>`
+                  )
+                  .join('')}
+            </ul>
+        </article>`
+            : ''
+        }
+
+        <form method="get" action="/admin/audit">
+            <div class="grid">
+                ${select('action', 'Action', AUDIT_ACTIONS, filter.action)}
+                ${select('outcome', 'Outcome', AUDIT_OUTCOMES, filter.outcome)}
+                ${select('actor', 'Actor', ACTOR_TYPES, filter.actor)}
+                <input type="date" name="from" value="${escapeHTML(filter.from || '')}" aria-label="From">
+                <input type="date" name="to" value="${escapeHTML(filter.to || '')}" aria-label="To">
+            </div>
+            <button type="submit" class="secondary">Filter</button>
+        </form>
+
+        ${
+          entries.length > 0
+            ? `<figure>
+            <table>
+                <thead>
+                    <tr><th>Time (UTC)</th><th>Action</th><th>Target</th><th>Outcome</th><th>Actor</th><th>Client</th></tr>
+                </thead>
+                <tbody>
+                    ${entries
+                      .map(
+                        (entry) => `
+                    <tr>
+                        <td>${escapeHTML(entry.timestamp.replace('T', ' ').slice(0, 19))}</td>
+                        <td>${escapeHTML(entry.action)}</td>
+                        <td>${entry.target ? `/${escapeHTML(entry.target)}` : ''}</td>
+                        <td class="outcome-${escapeHTML(entry.outcome)}">${escapeHTML(entry.outcome)}${
+                          entry.detail ? `<br><small>${escapeHTML(entry.detail)}</small>` : ''
+                        }</td>
+                        <td>${escapeHTML(entry.actor.name)}</td>
+                        <td>${escapeHTML(entry.ip)}<span class="user-agent" title="${escapeHTML(entry.userAgent)}">${escapeHTML(entry.userAgent)}</span></td>
+                    </tr>`
+                      )
+                      .join('')}
+                </tbody>
+            </table>
+        </figure>`
+            : '<p>No matching audit entries.</p>'
+        }
+
+        <div class="grid">
+            ${
+              cursor
+                ? `<a href="/admin/audit?${escapeHTML(
+                    new URLSearchParams([...params, ['cursor', cursor]]).toString()
+                  )}" role="button" class="outline">Older entries</a>`
+                : ''
+            }
+            <a href="/admin/audit?action=login&amp;outcome=failure" role="button" class="outline secondary">Failed sign-ins</a>
+            <a href="/admin/audit.json?${escapeHTML(params.toString())}" role="button" class="outline secondary">JSON feed</a>
+            <a href="/admin" role="button" class="outline">Back to admin</a>
+        </div>
+    </main>
+</body>
+</html>`
+}
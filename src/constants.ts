@@ -12,6 +12,12 @@ export const RATE_LIMITS = {
 // Cache Settings
 export const CACHE = {
   ALL_URLS_MAX_AGE: 300, // 5 minutes
+  PERMANENT_REDIRECT_MAX_AGE: 3600, // 1 hour, so edits reach repeat visitors
+} as const
+
+// Redirects
+export const REDIRECTS = {
+  DEFAULT_TYPE: 301, // Unless DEFAULT_REDIRECT_TYPE is set
 } as const
 
 // Timeouts
@@ -21,12 +27,142 @@ export const TIMEOUTS = {
 
 // Session Management
 export const SESSION = {
-  DURATION_MS: 7 * 24 * 60 * 60 * 1000, // 7 days in milliseconds
-  DURATION_SECONDS: 7 * 24 * 60 * 60, // 7 days in seconds
+  DURATION_MS: 7 * 24 * 60 * 60 * 1000, // 7 days of inactivity in milliseconds
+  DURATION_SECONDS: 7 * 24 * 60 * 60, // 7 days of inactivity in seconds
+  MAX_LIFETIME_SECONDS: 30 * 24 * 60 * 60, // 30 days, however active
+  TOUCH_INTERVAL_MS: 60 * 1000, // Limits last-seen writes to one a minute
   CLEANUP_INTERVAL_MS: 15 * 60 * 1000, // 15 minutes
 } as const
 
+// Login Throttling
+export const LOGIN = {
+  WINDOW_MS: 15 * 60 * 1000, // Failed sign-ins are counted over 15 minutes
+  MAX_FAILURES_PER_IP: 10, // Before the IP is locked out
+  CHALLENGE_AFTER: 3, // Failures from an IP before each sign-in must wait
+  GLOBAL_FAILURES: 100, // Across all IPs, before everyone must wait
+  CHALLENGE_BASE_MS: 2000, // Doubles with each further failure
+  CHALLENGE_MAX_MS: 30000,
+  CHALLENGE_TTL_MS: 10 * 60 * 1000, // How long a challenge can be used
+  LOCKOUT_BASE_MS: 5 * 60 * 1000, // Doubles with each lockout
+  LOCKOUT_MAX_MS: 24 * 60 * 60 * 1000,
+  LOCKOUT_MEMORY_SECONDS: 7 * 24 * 60 * 60, // Lockouts escalate for a week
+} as const
+
+// Password-Protected Links
+export const PROTECTED = {
+  MIN_PASSWORD_LENGTH: 4,
+  MAX_PASSWORD_LENGTH: 200,
+  UNLOCK_SECONDS: 60 * 60, // How long a visitor stays unlocked, 1 hour
+  MAX_ATTEMPTS: 10, // Wrong passphrases per IP per window
+  ATTEMPT_WINDOW_MS: 15 * 60 * 1000,
+} as const
+
+// User Accounts
+export const USERS = {
+  PBKDF2_ITERATIONS: 100000,
+  MIN_PASSWORD_LENGTH: 10,
+  MAX_USERNAME_LENGTH: 32,
+} as const
+
+// Two-Factor Authentication (RFC 6238 TOTP)
+export const TOTP = {
+  PERIOD_SECONDS: 30,
+  DIGITS: 6,
+  WINDOW: 1, // Steps either side of now that are accepted, for clock drift
+  RECOVERY_CODES: 10,
+  LOGIN_TIMEOUT_MS: 5 * 60 * 1000, // Time allowed to enter a code after the password
+  MAX_ATTEMPTS: 5, // Code attempts per login timeout
+  ENROLMENT_SECONDS: 15 * 60, // Time to finish setup before the new secret is dropped
+} as const
+
+// API Tokens
+export const TOKENS = {
+  MAX_NAME_LENGTH: 50,
+  LAST_USED_INTERVAL_MS: 60 * 1000, // Limits last-used writes to one a minute
+} as const
+
+// URL Index
+export const INDEX = {
+  SHARDS: 8, // Summary documents holding every URL record
+  VERSION: 1,
+  REBUILD_BATCH: 500, // Records per rebuild step: one get each, plus 20 other operations
+  FALLBACK_LIMIT: 100, // Records read directly while the index isn't built
+} as const
+
+// Audit Log
+export const AUDIT = {
+  RETENTION_SECONDS: 365 * 24 * 60 * 60, // 1 year
+  PAGE_SIZE: 100,
+  MAX_FIELD_LENGTH: 200, // Keeps entries within KV's 1024-byte list metadata
+} as const
+
+// Scheduled Jobs (must match the crons in wrangler.toml)
+export const CRONS = {
+  DAILY: '0 3 * * *', // Trash purge, and an index rebuild to repair drift
+  FREQUENT: '*/10 * * * *', // Next step of an index rebuild under way
+} as const
+
+// Trash
+export const TRASH = {
+  RETENTION_DAYS: 30, // Default before deleted URLs are purged for good
+} as const
+
+// URL List Pagination
+export const PAGINATION = {
+  DEFAULT_LIMIT: 50,
+  MAX_LIMIT: 200,
+} as const
+
+// Tags
+export const TAGS = {
+  MAX_PER_URL: 10,
+  MAX_LENGTH: 30,
+} as const
+
+// UTM Parameters
+export const UTM = {
+  MAX_VALUE_LENGTH: 100,
+  MAX_TEMPLATE_NAME_LENGTH: 50,
+} as const
+
+// Targeted Links
+export const TARGETING = {
+  MAX_RULES: 20,
+} as const
+
+// A/B Links
+export const VARIANTS = {
+  MAX: 10,
+  MAX_WEIGHT: 100,
+  COOKIE_SECONDS: 30 * 24 * 60 * 60, // How long a visitor keeps their variant
+} as const
+
+// Bulk Import
+// A Worker invocation gets 1,000 KV operations. An imported row takes five:
+// two reads to check its slug, the record write, and a read and write of its
+// history. Each index shard is then read and written once, and a few
+// operations are left for auth and the audit log. Restored aliases and
+// suffixed slugs cost extra reads, so rows using them lower the real limit.
+const IMPORT_KV_BUDGET = 1000 - 2 * INDEX.SHARDS - 20
+const IMPORT_KV_OPS_PER_ROW = 5
+
+export const IMPORT = {
+  MAX_ENTRIES: Math.floor(IMPORT_KV_BUDGET / IMPORT_KV_OPS_PER_ROW), // 192
+  MAX_SUFFIX: 100, // Highest -N suffix tried for a conflicting slug
+} as const
+
 // Slug Generation
 export const SLUG = {
   RANDOM_SUFFIX_MAX: 1000,
-} as const
\ No newline at end of file
+} as const
+
+// Click Analytics
+export const CLICKS = {
+  EVENT_RETENTION_SECONDS: 90 * 24 * 60 * 60, // 90 days
+  COUNTER_RETENTION_DAYS: 90,
+  RECENT_DAYS: 7,
+  STATS_DAYS: 30, // Days shown in the stats time series
+  STATS_TOP_N: 10, // Rows shown per breakdown
+  STATS_MAX_PAGES: 5, // KV list pages (1000 events each) read for the breakdowns
+  MOVE_BATCH: 200, // Events moved per step after a rename: a put and a delete each
+} as const
@@ -0,0 +1,175 @@
+import { Env, URLRecord, ClickSummary, ExportFormat, ExportOptions } from './types'
+import { escapeHTML } from './index'
+import { getClickSummaries } from './analytics'
+import { toURLInfo, URLInfo } from './protection'
+
+// ========== Formats ==========
+
+type ExportRecord = URLInfo & { passwordHash?: string; clicks?: ClickSummary }
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  json: 'application/json',
+  ndjson: 'application/x-ndjson',
+  csv: 'text/csv; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+}
+
+/**
+ * Build the exported form of a record, dropping metadata or adding clicks.
+ * Passphrase hashes are only kept for full backups.
+ */
+function toExportRecord(
+  record: URLRecord,
+  options: ExportOptions,
+  clicks?: ClickSummary
+): ExportRecord {
+  const { metadata, ...rest } = toURLInfo(record)
+  return {
+    ...rest,
+    ...(options.secrets && record.passwordHash
+      ? { passwordHash: record.passwordHash }
+      : {}),
+    ...(options.metadata && metadata ? { metadata } : {}),
+    ...(options.clicks ? { clicks: clicks || { total: 0, recent: 0 } } : {}),
+  }
+}
+
+/**
+ * Quote a CSV field when needed. Fields that a spreadsheet would run as a
+ * formula (page titles are attacker-controlled) are prefixed with a quote.
+ */
+function toCSVField(value: string | number | undefined): string {
+  let field = value === undefined ? '' : String(value)
+  if (/^[=+\-@\t\r]/.test(field)) field = `'${field}`
+  return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field
+}
+
+/**
+ * Render records as CSV. The url, slug, created and title columns match the
+ * CSV format accepted by POST /admin/import.
+ */
+function renderCSV(
+  records: ExportRecord[],
+  options: ExportOptions
+): string {
+  const columns = [
+    'url',
+    'slug',
+    'created',
+    'updated',
+    'tags',
+    'aliases',
+    'activatesAt',
+    'expiresAt',
+    'maxClicks',
+    ...(options.metadata ? ['title', 'description', 'image'] : []),
+    ...(options.clicks ? ['clicks', 'clicksLast7Days'] : []),
+  ]
+
+  const rows = records.map((record) =>
+    [
+      record.url,
+      record.slug,
+      record.created,
+      record.updated,
+      record.tags?.join(','),
+      record.aliases?.join(','),
+      record.activatesAt,
+      record.expiresAt,
+      record.maxClicks,
+      ...(options.metadata
+        ? [
+            record.metadata?.title,
+            record.metadata?.description,
+            record.metadata?.image,
+          ]
+        : []),
+      ...(options.clicks ? [record.clicks?.total, record.clicks?.recent] : []),
+    ]
+      .map(toCSVField)
+      .join(',')
+  )
+
+  return [columns.join(','), ...rows].join('\r\n') + '\r\n'
+}
+
+/**
+ * Render records as a Netscape bookmarks file, which browsers can import
+ */
+function renderBookmarks(
+  records: ExportRecord[],
+  domain: string
+): string {
+  const toUnix = (date: string) => Math.floor(new Date(date).getTime() / 1000)
+
+  const items = records.map((record) => {
+    const title = record.metadata?.title || `${domain}/${record.slug}`
+    const tags = record.tags?.length
+      ? ` TAGS="${escapeHTML(record.tags.join(','))}"`
+      : ''
+    const description = record.metadata?.description
+      ? `\n    <DD>${escapeHTML(record.metadata.description)}`
+      : ''
+
+    return `    <DT><A HREF="${escapeHTML(record.url)}" ADD_DATE="${toUnix(
+      record.created
+    )}" LAST_MODIFIED="${toUnix(record.updated)}"${tags}>${escapeHTML(
+      title
+    )}</A>${description}`
+  })
+
+  return `<!DOCTYPE NETSCAPE-Bookmark-file-1>
+<!-- This is an automatically generated file.
+     It will be read and overwritten.
+     DO NOT EDIT! -->
+<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">
+<TITLE>Bookmarks</TITLE>
+<H1>${escapeHTML(domain)}</H1>
+<DL><p>
+${items.join('\n')}
+</DL><p>
+`
+}
+
+// ========== Export ==========
+
+/**
+ * Export URL records in the requested format, ready to download
+ */
+export async function exportURLs(
+  env: Env,
+  records: URLRecord[],
+  options: ExportOptions
+): Promise<{ body: string; contentType: string; filename: string }> {
+  const clicks = options.clicks
+    ? await getClickSummaries(
+        env,
+        records.map((r) => r.slug)
+      )
+    : {}
+  const exported = records.map((record) =>
+    toExportRecord(record, options, clicks[record.slug])
+  )
+
+  let body: string
+  switch (options.format) {
+    case 'ndjson':
+      body = exported.map((record) => JSON.stringify(record) + '\n').join('')
+      break
+    case 'csv':
+      body = renderCSV(exported, options)
+      break
+    case 'html':
+      body = renderBookmarks(exported, env.DOMAIN)
+      break
+    default:
+      body = JSON.stringify(exported, null, 2)
+  }
+
+  const date = new Date().toISOString().split('T')[0]
+  return {
+    body,
+    contentType: CONTENT_TYPES[options.format],
+    filename: `${env.DOMAIN.replace(/[^a-z0-9.-]/gi, '-')}-urls-${date}.${options.format}`,
+  }
+}
@@ -0,0 +1,156 @@
+import {
+  Env,
+  URLRecord,
+  Actor,
+  Revision,
+  RevisionAction,
+  FieldChange,
+} from './types'
+import { getURL, storeURL } from './index'
+
+// Fields a revert never touches: identity, aliases and trash state have
+// their own operations, and passphrase changes are logged without the hash
+const NON_REVERTABLE_FIELDS = [
+  'slug',
+  'aliases',
+  'deletedAt',
+  'created',
+  'updated',
+  'password',
+]
+
+// ========== Revisions ==========
+
+/**
+ * Work out which fields changed between two versions of a record.
+ * The updated timestamp is ignored, and a passphrase change is only noted
+ * as having happened so the log never holds the hash.
+ */
+export function diffRecords(
+  before: URLRecord | null,
+  after: URLRecord | null
+): Record<string, FieldChange> {
+  const a: Record<string, unknown> = { ...before }
+  const b: Record<string, unknown> = { ...after }
+  const changes: Record<string, FieldChange> = {}
+
+  for (const field of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    if (field === 'updated') continue
+    if (JSON.stringify(a[field]) === JSON.stringify(b[field])) continue
+    if (field === 'passwordHash') {
+      changes.password = { changed: true }
+    } else {
+      changes[field] = { before: a[field], after: b[field] }
+    }
+  }
+
+  return changes
+}
+
+/**
+ * Get the revision log for a slug, oldest first
+ */
+export async function getHistory(env: Env, slug: string): Promise<Revision[]> {
+  const data = await env.URLS_KV.get(`history:${slug}`)
+  if (!data) return []
+
+  try {
+    return JSON.parse(data) as Revision[]
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Append a revision to a slug's log. Nothing is recorded if no field changed.
+ */
+export async function recordRevision(
+  env: Env,
+  slug: string,
+  before: URLRecord | null,
+  after: URLRecord | null,
+  actor: Actor,
+  action: RevisionAction,
+  revertedTo?: number
+): Promise<Revision | null> {
+  const changes = diffRecords(before, after)
+  if (Object.keys(changes).length === 0) return null
+
+  const history = await getHistory(env, slug)
+  const revision: Revision = {
+    id: (history[history.length - 1]?.id || 0) + 1,
+    timestamp: new Date().toISOString(),
+    actor,
+    action,
+    changes,
+    ...(revertedTo !== undefined ? { revertedTo } : {}),
+  }
+
+  history.push(revision)
+  await env.URLS_KV.put(`history:${slug}`, JSON.stringify(history))
+  return revision
+}
+
+/**
+ * Move a slug's revision log to a new slug (used when renaming)
+ */
+export async function moveHistory(
+  env: Env,
+  from: string,
+  to: string
+): Promise<void> {
+  const history = await getHistory(env, from)
+  if (history.length > 0) {
+    await env.URLS_KV.put(`history:${to}`, JSON.stringify(history))
+  }
+  await env.URLS_KV.delete(`history:${from}`)
+}
+
+/**
+ * Delete a slug's revision log
+ */
+export async function deleteHistory(env: Env, slug: string): Promise<void> {
+  await env.URLS_KV.delete(`history:${slug}`)
+}
+
+/**
+ * Put a record's fields back to how they were after the given revision, by
+ * undoing every later revision. Returns the record before and after.
+ */
+export async function revertToRevision(
+  env: Env,
+  slug: string,
+  id: number
+): Promise<{ before: URLRecord; after: URLRecord }> {
+  const existing = await getURL(env, slug)
+  if (!existing) {
+    throw new Error('URL not found')
+  }
+
+  const history = await getHistory(env, slug)
+  if (!history.some((revision) => revision.id === id)) {
+    throw new Error('Revision not found')
+  }
+
+  const reverted: Record<string, unknown> = { ...existing }
+  for (const revision of [...history].reverse()) {
+    if (revision.id <= id) break
+
+    for (const [field, change] of Object.entries(revision.changes)) {
+      if (NON_REVERTABLE_FIELDS.includes(field)) continue
+      if (change.before === undefined) {
+        delete reverted[field]
+      } else {
+        reverted[field] = change.before
+      }
+    }
+  }
+
+  const after = {
+    ...reverted,
+    updated: new Date().toISOString(),
+  } as URLRecord
+  await storeURL(env, after)
+
+  return { before: existing, after }
+}
@@ -0,0 +1,564 @@
+import {
+  Env,
+  URLRecord,
+  ImportEntry,
+  ImportFormat,
+  ImportReport,
+  ImportRow,
+  ConflictPolicy,
+  Actor,
+  RedirectType,
+  QueryPassthrough,
+} from './types'
+import {
+  isValidURL,
+  isDangerousURL,
+  normalizeURL,
+  isValidCustomSlug,
+  generateUniqueSlug,
+  normalizeTags,
+  getURL,
+  getAlias,
+  storeAlias,
+  storeURLs,
+  REDIRECT_TYPES,
+  QUERY_PASSTHROUGH,
+} from './index'
+import { recordRevision } from './history'
+import { parseUTMParams } from './utm'
+import { parseTargetingRules } from './targeting'
+import { parseVariants } from './variants'
+import { IMPORT, USERS } from './constants'
+
+// ========== Parsing ==========
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, escaped quotes, CRLF) into rows
+ */
+export function parseCSV(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field || row.length) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  // Drop blank lines
+  return rows.filter((r) => r.some((value) => value.trim()))
+}
+
+// CSV header names for each import field, covering our own CSV and the
+// Bitly and Shlink exports (headers are compared lowercased, without spaces)
+const CSV_HEADERS: Record<keyof ImportEntry, string[]> = {
+  url: ['url', 'longurl', 'destination'],
+  slug: ['slug', 'custombitlink', 'bitlink', 'link', 'shortcode', 'shorturl'],
+  created: ['created', 'createdat', 'datecreated'],
+  updated: ['updated', 'updatedat'],
+  title: ['title'],
+  metadata: [],
+  tags: ['tags'],
+  aliases: [],
+  activatesAt: ['activatesat', 'validsince'],
+  expiresAt: ['expiresat', 'validuntil'],
+  maxClicks: ['maxclicks', 'maxvisits'],
+  fallbackUrl: ['fallbackurl'],
+  createdBy: ['createdby'],
+  passwordHash: [],
+  protected: [],
+  redirectType: ['redirecttype'],
+  queryPassthrough: ['querypassthrough'],
+  prefix: ['prefix'],
+  utm: [],
+  targets: [],
+  variants: [],
+}
+
+/**
+ * Convert parsed CSV rows (header row first) into import entries
+ */
+function csvToEntries(rows: string[][]): ImportEntry[] {
+  const [header, ...body] = rows
+  if (!header) return []
+
+  const names = header.map((name) => name.toLowerCase().replace(/[\s_-]/g, ''))
+  const columns = new Map<keyof ImportEntry, number>()
+  for (const [field, candidates] of Object.entries(CSV_HEADERS)) {
+    // Earlier candidates win, e.g. a custom Bitlink over the generated one
+    const index = candidates
+      .map((candidate) => names.indexOf(candidate))
+      .find((i) => i !== -1)
+    if (index !== undefined) columns.set(field as keyof ImportEntry, index)
+  }
+
+  if (!columns.has('url')) {
+    throw new Error('CSV must have a url column')
+  }
+
+  return body.map((values) => {
+    const entry: Record<string, string> = {}
+    for (const [field, index] of columns) {
+      const value = values[index]?.trim()
+      if (value) entry[field] = value
+    }
+    if (entry.slug) entry.slug = slugFromShortURL(entry.slug)
+    // Shlink joins tags with "|"
+    if (entry.tags) entry.tags = entry.tags.replace(/\|/g, ',')
+    return { ...entry, url: entry.url || '' }
+  })
+}
+
+// The fields read from Bitly and Shlink API responses
+interface BitlyLink {
+  id?: string
+  link?: string
+  custom_bitlinks?: string[]
+  long_url?: string
+  created_at?: string
+  title?: string
+  tags?: unknown
+}
+
+interface ShlinkShortUrl {
+  shortCode?: string
+  longUrl?: string
+  dateCreated?: string
+  title?: string | null
+  tags?: unknown
+  meta?: {
+    validSince?: string | null
+    validUntil?: string | null
+    maxVisits?: number | null
+  }
+}
+
+/**
+ * Treat parsed JSON as an object of the given shape, or an empty one if it
+ * isn't an object at all
+ */
+function asObject<T>(value: unknown): T {
+  return (value && typeof value === 'object' ? value : {}) as T
+}
+
+/**
+ * Find the list in parsed JSON: the JSON itself, or the value at a path
+ */
+function findList(data: unknown, path: string[]): unknown[] | null {
+  if (Array.isArray(data)) return data
+
+  let value = data
+  for (const key of path) {
+    value = asObject<Record<string, unknown>>(value)[key]
+  }
+  return Array.isArray(value) ? value : null
+}
+
+/**
+ * Take the slug from a short URL such as "https://bit.ly/abc" or "bit.ly/abc"
+ */
+function slugFromShortURL(value: string): string {
+  const segments = value.split(/[?#]/)[0].split('/').filter(Boolean)
+  return segments[segments.length - 1] || ''
+}
+
+/**
+ * Convert a Bitly v4 API bitlink into an import entry
+ */
+function fromBitly(value: unknown): ImportEntry {
+  const link = asObject<BitlyLink>(value)
+  const shortURL = link.custom_bitlinks?.[0] || link.id || link.link || ''
+  return {
+    url: link.long_url || '',
+    slug: shortURL ? slugFromShortURL(shortURL) : undefined,
+    created: link.created_at,
+    title: link.title || undefined,
+    tags: Array.isArray(link.tags) ? link.tags : undefined,
+  }
+}
+
+/**
+ * Convert a Shlink API short URL into an import entry
+ */
+function fromShlink(value: unknown): ImportEntry {
+  const shortUrl = asObject<ShlinkShortUrl>(value)
+  return {
+    url: shortUrl.longUrl || '',
+    slug: shortUrl.shortCode,
+    created: shortUrl.dateCreated,
+    title: shortUrl.title || undefined,
+    tags: Array.isArray(shortUrl.tags) ? shortUrl.tags : undefined,
+    activatesAt: shortUrl.meta?.validSince || undefined,
+    expiresAt: shortUrl.meta?.validUntil || undefined,
+    maxClicks: shortUrl.meta?.maxVisits || undefined,
+  }
+}
+
+/**
+ * Parse an import file into entries. Throws if the data can't be read.
+ *
+ * - json: our own backup format (an array of URL records, as in /all.json)
+ * - csv: a header row with url, slug, created and title columns
+ * - bitly, shlink: their API JSON responses or CSV exports
+ */
+export function parseImport(text: string, format: ImportFormat): ImportEntry[] {
+  const isJSON = /^[[{]/.test(text.trim())
+
+  if (format === 'csv' || (format !== 'json' && !isJSON)) {
+    return csvToEntries(parseCSV(text))
+  }
+
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error('Invalid JSON')
+  }
+
+  if (format === 'bitly') {
+    const links = findList(data, ['links'])
+    if (!links) throw new Error('Expected a list of Bitly links')
+    return links.map(fromBitly)
+  }
+
+  if (format === 'shlink') {
+    const shortUrls = findList(data, ['shortUrls', 'data'])
+    if (!shortUrls) throw new Error('Expected a list of Shlink short URLs')
+    return shortUrls.map(fromShlink)
+  }
+
+  // Also accept the paginated GET /admin/urls response
+  const records = findList(data, ['data'])
+  if (!records) throw new Error('Expected a list of URL records')
+  return records.map((value) => {
+    const record = asObject<ImportEntry>(value)
+    return { ...record, url: typeof record.url === 'string' ? record.url : '' }
+  })
+}
+
+// ========== Importing ==========
+
+// Passphrase hashes as hashPassword writes them: 16-byte salt, 32-byte hash.
+// Other iteration counts are refused so a backup can't weaken a passphrase.
+const PASSWORD_HASH_PATTERN = new RegExp(
+  `^pbkdf2\\$${USERS.PBKDF2_ITERATIONS}\\$[a-f0-9]{32}\\$[a-f0-9]{64}$`
+)
+
+/**
+ * Validate an import entry and build its URL record (slug is filled in later)
+ */
+function toRecord(
+  entry: ImportEntry,
+  now: string
+): { record: Omit<URLRecord, 'slug'>; error?: undefined } | { error: string } {
+  const url = normalizeURL(entry.url)
+  if (!entry.url || !isValidURL(url)) {
+    return { error: 'Invalid URL format' }
+  }
+  if (isDangerousURL(url)) {
+    return { error: 'URL contains dangerous content' }
+  }
+
+  const dates: Partial<Record<'created' | 'updated' | 'activatesAt' | 'expiresAt', string>> = {}
+  for (const field of ['created', 'updated', 'activatesAt', 'expiresAt'] as const) {
+    const value = entry[field]
+    if (!value) continue
+    const date = new Date(value)
+    if (isNaN(date.getTime())) {
+      return { error: `Invalid ${field} date` }
+    }
+    dates[field] = date.toISOString()
+  }
+
+  let maxClicks: number | undefined
+  if (entry.maxClicks) {
+    maxClicks = Number(entry.maxClicks)
+    if (!Number.isInteger(maxClicks) || maxClicks < 1) {
+      return { error: 'maxClicks must be a positive whole number' }
+    }
+  }
+
+  let fallbackUrl: string | undefined
+  if (entry.fallbackUrl) {
+    fallbackUrl = normalizeURL(entry.fallbackUrl)
+    if (!isValidURL(fallbackUrl) || isDangerousURL(fallbackUrl)) {
+      return { error: 'Invalid fallback URL' }
+    }
+  }
+
+  const tags = entry.tags !== undefined ? normalizeTags(entry.tags) : []
+  if (!tags) {
+    return { error: 'Invalid tags' }
+  }
+
+  // Exports flag protected links without their passphrase hash, so
+  // importing one as-is would leave its destination open
+  if (entry.protected && !entry.passwordHash) {
+    return { error: 'Protected links need their passphrase hash' }
+  }
+  if (entry.passwordHash && !PASSWORD_HASH_PATTERN.test(entry.passwordHash)) {
+    return { error: 'Invalid password hash' }
+  }
+
+  let redirectType: RedirectType | undefined
+  if (entry.redirectType) {
+    redirectType = Number(entry.redirectType) as RedirectType
+    if (!REDIRECT_TYPES.includes(redirectType)) {
+      return { error: 'redirectType must be 301, 302, 307 or 308' }
+    }
+  }
+
+  const queryPassthrough = entry.queryPassthrough || undefined
+  if (
+    queryPassthrough &&
+    !QUERY_PASSTHROUGH.includes(queryPassthrough as QueryPassthrough)
+  ) {
+    return { error: 'queryPassthrough must be incoming, destination or both' }
+  }
+
+  const utm = parseUTMParams(entry.utm)
+  if (utm.error) {
+    return { error: utm.error }
+  }
+
+  const targeting = parseTargetingRules(entry.targets)
+  if (targeting.error) {
+    return { error: targeting.error }
+  }
+
+  const split = parseVariants(entry.variants)
+  if (split.error) {
+    return { error: split.error }
+  }
+
+  // Metadata isn't fetched on import, so keep whatever the source had
+  const metadata =
+    entry.metadata || (entry.title ? { title: entry.title } : undefined)
+
+  const created = dates.created || now
+  return {
+    record: {
+      url,
+      created,
+      updated: dates.updated || created,
+      metadata,
+      activatesAt: dates.activatesAt,
+      expiresAt: dates.expiresAt,
+      maxClicks,
+      fallbackUrl,
+      tags: tags.length ? tags : undefined,
+      passwordHash: entry.passwordHash || undefined,
+      redirectType,
+      queryPassthrough: queryPassthrough as QueryPassthrough | undefined,
+      prefix: entry.prefix === true || entry.prefix === 'true' || undefined,
+      utm: utm.utm || undefined,
+      targets: targeting.targets || undefined,
+      variants: split.variants || undefined,
+    },
+  }
+}
+
+/**
+ * Find the first free "{slug}-N" variant of a slug
+ */
+async function findSuffixedSlug(
+  env: Env,
+  slug: string,
+  claimed: Set<string>
+): Promise<string | null> {
+  for (let n = 2; n <= IMPORT.MAX_SUFFIX; n++) {
+    const suffix = `-${n}`
+    const candidate = `${slug.slice(0, 50 - suffix.length).replace(/-+$/, '')}${suffix}`
+    if (
+      isValidCustomSlug(candidate) &&
+      !claimed.has(candidate) &&
+      !(await getURL(env, candidate, { includeDeleted: true })) &&
+      !(await getAlias(env, candidate))
+    ) {
+      return candidate
+    }
+  }
+  return null
+}
+
+/**
+ * Import entries, resolving slug conflicts with the given policy.
+ * With dryRun nothing is written, but the report is the same.
+ */
+export async function importURLs(
+  env: Env,
+  entries: ImportEntry[],
+  options: {
+    format: ImportFormat
+    conflict: ConflictPolicy
+    dryRun: boolean
+    actor: Actor
+  }
+): Promise<ImportReport> {
+  const now = new Date().toISOString()
+  const rows: ImportRow[] = []
+  // Slugs used by earlier rows of this import, which a dry run never stores
+  const claimed = new Set<string>()
+  // Records are stored together at the end so each index shard is written
+  // once, then each revision is logged in row order
+  const records = new Map<string, URLRecord>()
+  const revisions: { before: URLRecord | null; after: URLRecord }[] = []
+
+  for (const [i, entry] of entries.entries()) {
+    const row: ImportRow = {
+      row: i + 1,
+      url: entry.url,
+      slug: null,
+      action: 'failed',
+    }
+    rows.push(row)
+
+    const built = toRecord(entry, now)
+    if (built.error !== undefined) {
+      row.reason = built.error
+      continue
+    }
+
+    let slug = entry.slug?.trim().toLowerCase()
+    if (slug && !isValidCustomSlug(slug)) {
+      row.requestedSlug = entry.slug
+      row.reason = 'Invalid slug format'
+      continue
+    }
+
+    let existing: URLRecord | null = null
+    if (!slug) {
+      do {
+        slug = await generateUniqueSlug(env)
+      } while (claimed.has(slug))
+      row.action = 'created'
+    } else {
+      const [record, alias] = await Promise.all([
+        getURL(env, slug, { includeDeleted: true }),
+        getAlias(env, slug),
+      ])
+      // A slug imported by an earlier row isn't stored yet
+      existing = records.get(slug) || record
+
+      if (!record && !alias && !claimed.has(slug)) {
+        row.action = 'created'
+      } else if (options.conflict === 'skip') {
+        row.slug = slug
+        row.action = 'skipped'
+        row.reason = 'Slug already exists'
+        continue
+      } else if (options.conflict === 'overwrite') {
+        if (alias) {
+          row.slug = slug
+          row.action = 'skipped'
+          row.reason = `Slug is an alias of /${alias.slug}`
+          continue
+        }
+        row.action = 'overwritten'
+      } else {
+        const suffixed = await findSuffixedSlug(env, slug, claimed)
+        if (!suffixed) {
+          row.requestedSlug = slug
+          row.reason = 'No free suffixed slug'
+          continue
+        }
+        row.requestedSlug = slug
+        row.action = 'created'
+        slug = suffixed
+        existing = null
+      }
+    }
+
+    row.slug = slug
+    claimed.add(slug)
+
+    // Restore aliases from our own backups where they're still free
+    const aliases = [...(existing?.aliases || [])]
+    const unavailable: string[] = []
+    for (const value of entry.aliases || []) {
+      const alias = String(value).toLowerCase()
+      if (aliases.includes(alias)) continue
+
+      const available =
+        isValidCustomSlug(alias) &&
+        !claimed.has(alias) &&
+        !(await getURL(env, alias, { includeDeleted: true }))
+      const current = available ? await getAlias(env, alias) : null
+      if (!available || (current && current.slug !== slug)) {
+        unavailable.push(alias)
+        continue
+      }
+
+      aliases.push(alias)
+      claimed.add(alias)
+      if (!options.dryRun && !current) {
+        await storeAlias(env, { alias, slug, created: now })
+      }
+    }
+    if (unavailable.length) {
+      row.reason = `Aliases not restored: ${unavailable.join(', ')}`
+    }
+
+    if (!options.dryRun) {
+      const record: URLRecord = {
+        ...built.record,
+        slug,
+        aliases: aliases.length ? aliases : undefined,
+        // Backups keep their original author
+        createdBy: entry.createdBy || options.actor.name,
+      }
+      records.set(slug, record)
+      revisions.push({ before: existing, after: record })
+    }
+  }
+
+  await storeURLs(env, [...records.values()])
+  for (const { before, after } of revisions) {
+    await recordRevision(env, after.slug, before, after, options.actor, 'import')
+  }
+
+  const count = (action: ImportRow['action']) =>
+    rows.filter((row) => row.action === action).length
+
+  return {
+    dryRun: options.dryRun,
+    format: options.format,
+    conflict: options.conflict,
+    summary: {
+      created: count('created'),
+      overwritten: count('overwritten'),
+      skipped: count('skipped'),
+      failed: count('failed'),
+    },
+    rows,
+  }
+}
@@ -5,33 +5,69 @@ import {
   colors,
   animals,
 } from 'unique-names-generator'
-import { Env, URLRecord, RateLimitInfo } from './types'
+import {
+  Env,
+  URLRecord,
+  AliasRecord,
+  IndexMeta,
+  IndexRebuild,
+  RateLimitInfo,
+  RedirectType,
+  QueryPassthrough,
+} from './types'
 import { handleAdminRequest } from './admin'
-import { RATE_LIMITS, CACHE, TIMEOUTS, SLUG } from './constants'
+import {
+  createClickEvent,
+  recordClick,
+  getClickCounter,
+  moveClickData,
+  continueClickMoves,
+  deleteClickData,
+} from './analytics'
+import { moveHistory, deleteHistory } from './history'
+import { isUnlocked, unlockLink } from './protection'
+import { applyUTM } from './utm'
+import { selectTarget } from './targeting'
+import { pickVariant } from './variants'
+import {
+  RATE_LIMITS,
+  CACHE,
+  TIMEOUTS,
+  SLUG,
+  TAGS,
+  INDEX,
+  TRASH,
+  REDIRECTS,
+  CRONS,
+} from './constants'
 
 // ========== KV Storage Functions ==========
 
 /**
- * Store a URL record in KV storage
+ * Store a URL record in KV storage and keep the index in sync
  */
 export async function storeURL(env: Env, record: URLRecord): Promise<void> {
   const key = `urls:${record.slug}`
   await env.URLS_KV.put(key, JSON.stringify(record))
+  await updateIndexShard(env, record.slug, record)
 }
 
 /**
- * Retrieve a URL record from KV storage
+ * Retrieve a URL record from KV storage. Records in the trash are skipped
+ * unless includeDeleted is set.
  */
 export async function getURL(
   env: Env,
-  slug: string
+  slug: string,
+  options: { includeDeleted?: boolean } = {}
 ): Promise<URLRecord | null> {
   const key = `urls:${slug}`
   const data = await env.URLS_KV.get(key)
   if (!data) return null
 
   try {
-    return JSON.parse(data) as URLRecord
+    const record = JSON.parse(data) as URLRecord
+    return record.deletedAt && !options.includeDeleted ? null : record
   } catch {
     return null
   }
@@ -61,36 +97,476 @@ export async function updateURL(
 }
 
 /**
- * Delete a URL record from KV storage
+ * Move a URL record to the trash. Its slug and aliases stay reserved.
  */
-export async function deleteURL(env: Env, slug: string): Promise<void> {
-  const key = `urls:${slug}`
-  await env.URLS_KV.delete(key)
+export async function deleteURL(env: Env, slug: string): Promise<URLRecord> {
+  const existing = await getURL(env, slug)
+  if (!existing) {
+    throw new Error('URL not found')
+  }
+
+  const deleted = { ...existing, deletedAt: new Date().toISOString() }
+  await storeURL(env, deleted)
+  return deleted
 }
 
 /**
- * List all URL records from KV storage
+ * List all URL records from the index, newest first
  */
 export async function listAllURLs(env: Env): Promise<URLRecord[]> {
-  const urls: URLRecord[] = []
-  const list = await env.URLS_KV.list({ prefix: 'urls:' })
-
-  for (const key of list.keys) {
-    const data = await env.URLS_KV.get(key.name)
-    if (data) {
-      try {
-        urls.push(JSON.parse(data) as URLRecord)
-      } catch {
-        // Skip malformed records
-      }
+  const urls = (await listIndexedURLs(env)).filter((u) => !u.deletedAt)
+
+  return urls.sort(
+    (a, b) => new Date(b.created).getTime() - new Date(a.created).getTime()
+  )
+}
+
+/**
+ * Read every indexed record, including those in the trash. Until the index
+ * has been built (or after a format change) only the first
+ * INDEX.FALLBACK_LIMIT records are read directly; building it is left to the
+ * scheduled job or POST /admin/index/rebuild.
+ */
+async function listIndexedURLs(env: Env): Promise<URLRecord[]> {
+  const meta = await getIndexMeta(env)
+
+  if (meta && meta.version === INDEX.VERSION && meta.shards === INDEX.SHARDS) {
+    const shards = await Promise.all(
+      Array.from({ length: INDEX.SHARDS }, (_, i) => getIndexShard(env, i))
+    )
+    return shards.flatMap((shard) => Object.values(shard))
+  }
+
+  const list = await env.URLS_KV.list({
+    prefix: 'urls:',
+    limit: INDEX.FALLBACK_LIMIT,
+  })
+  const records = await Promise.all(
+    list.keys.map((key) =>
+      getURL(env, key.name.substring('urls:'.length), { includeDeleted: true })
+    )
+  )
+  return records.filter((record): record is URLRecord => record !== null)
+}
+
+// ========== URL Index ==========
+
+// Every URL record is also kept in one of a few sharded summary documents,
+// so listing takes a handful of reads instead of a list plus a get per key.
+//
+// Shards are updated with an unlocked read-modify-write, so two writes to the
+// same shard at the same moment can lose one of them. The lost link still
+// redirects but is missing from listings until the next rebuild, which the
+// daily scheduled job starts to repair any such drift.
+
+/**
+ * Pick the index shard for a slug (FNV-1a hash)
+ */
+function getShardNumber(slug: string, shards: number = INDEX.SHARDS): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < slug.length; i++) {
+    hash ^= slug.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0) % shards
+}
+
+/**
+ * Retrieve the index metadata, or null if the index hasn't been built
+ */
+export async function getIndexMeta(env: Env): Promise<IndexMeta | null> {
+  const data = await env.URLS_KV.get('index:meta')
+  if (!data) return null
+
+  try {
+    return JSON.parse(data) as IndexMeta
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Retrieve one index shard
+ */
+async function getIndexShard(
+  env: Env,
+  shard: number
+): Promise<Record<string, URLRecord>> {
+  const data = await env.URLS_KV.get(`index:shard:${shard}`)
+  if (!data) return {}
+
+  try {
+    return JSON.parse(data) as Record<string, URLRecord>
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Add, replace or (with a null record) remove a slug in its index shard
+ */
+async function updateIndexShard(
+  env: Env,
+  slug: string,
+  record: URLRecord | null
+): Promise<void> {
+  const shard = getShardNumber(slug)
+  const entries = await getIndexShard(env, shard)
+
+  if (record) {
+    entries[slug] = record
+  } else if (slug in entries) {
+    delete entries[slug]
+  } else {
+    return
+  }
+
+  await env.URLS_KV.put(`index:shard:${shard}`, JSON.stringify(entries))
+}
+
+/**
+ * Store many URL records, reading and writing each affected index shard once
+ * instead of once per record (used by imports)
+ */
+export async function storeURLs(env: Env, records: URLRecord[]): Promise<void> {
+  const byShard = new Map<number, URLRecord[]>()
+  for (const record of records) {
+    await env.URLS_KV.put(`urls:${record.slug}`, JSON.stringify(record))
+    const shard = getShardNumber(record.slug)
+    byShard.set(shard, [...(byShard.get(shard) || []), record])
+  }
+
+  for (const [shard, shardRecords] of byShard) {
+    const entries = await getIndexShard(env, shard)
+    for (const record of shardRecords) {
+      entries[record.slug] = record
     }
+    await env.URLS_KV.put(`index:shard:${shard}`, JSON.stringify(entries))
+  }
+}
+
+/**
+ * Get the rebuild in progress, or null if there isn't one
+ */
+async function getIndexRebuild(env: Env): Promise<IndexRebuild | null> {
+  const data = await env.URLS_KV.get('index:rebuild')
+  if (!data) return null
+
+  try {
+    return JSON.parse(data) as IndexRebuild
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Rebuild the index from the primary `urls:` records, one page of
+ * INDEX.REBUILD_BATCH records per call so each call stays within the
+ * Worker's KV operation limit. Progress is saved between calls; call again
+ * until it reports done.
+ *
+ * Pages are repaired in place: records are written to their shards, and
+ * entries for slugs in the page's key range that no longer exist are
+ * dropped, so the index stays usable while a rebuild is under way.
+ */
+export async function rebuildIndex(
+  env: Env
+): Promise<{ done: boolean; count: number }> {
+  const progress: IndexRebuild = (await getIndexRebuild(env)) || {
+    after: '',
+    count: 0,
+    startedAt: new Date().toISOString(),
+  }
+
+  const list = await env.URLS_KV.list({
+    prefix: 'urls:',
+    cursor: progress.cursor,
+    limit: INDEX.REBUILD_BATCH,
+  })
+  const records = (
+    await Promise.all(
+      list.keys.map((key) =>
+        getURL(env, key.name.substring('urls:'.length), { includeDeleted: true })
+      )
+    )
+  ).filter((record): record is URLRecord => record !== null) // Skip malformed records
+
+  // The slugs this page covers: after the previous page, up to its last key
+  // (or everything left, on the last page)
+  const done = list.list_complete
+  const last = list.keys.length
+    ? list.keys[list.keys.length - 1].name.substring('urls:'.length)
+    : progress.after
+  const inRange = (slug: string) =>
+    slug > progress.after && (done || slug <= last)
+
+  await Promise.all(
+    Array.from({ length: INDEX.SHARDS }, async (_, shard) => {
+      const entries = await getIndexShard(env, shard)
+      for (const slug of Object.keys(entries)) {
+        if (inRange(slug)) delete entries[slug]
+      }
+      for (const record of records) {
+        if (getShardNumber(record.slug) === shard) entries[record.slug] = record
+      }
+      await env.URLS_KV.put(`index:shard:${shard}`, JSON.stringify(entries))
+    })
+  )
+
+  const count = progress.count + records.length
+  if (!done) {
+    const next: IndexRebuild = { ...progress, cursor: list.cursor, after: last, count }
+    await env.URLS_KV.put('index:rebuild', JSON.stringify(next))
+    return { done, count }
+  }
+
+  const meta: IndexMeta = {
+    version: INDEX.VERSION,
+    shards: INDEX.SHARDS,
+    count,
+    rebuiltAt: new Date().toISOString(),
+  }
+  await env.URLS_KV.put('index:meta', JSON.stringify(meta))
+  await env.URLS_KV.delete('index:rebuild')
+  return { done, count }
+}
+
+/**
+ * Take the next step of a rebuild if one is under way or the index hasn't
+ * been built yet (used by the frequent scheduled job)
+ */
+export async function continueIndexRebuild(env: Env): Promise<void> {
+  const [meta, progress] = await Promise.all([
+    getIndexMeta(env),
+    getIndexRebuild(env),
+  ])
+  const isCurrent =
+    meta && meta.version === INDEX.VERSION && meta.shards === INDEX.SHARDS
+  if (progress || !isCurrent) {
+    await rebuildIndex(env)
   }
+}
+
+// ========== Aliases ==========
+
+/**
+ * Store an alias pointing at a canonical slug
+ */
+export async function storeAlias(env: Env, alias: AliasRecord): Promise<void> {
+  await env.URLS_KV.put(`alias:${alias.alias}`, JSON.stringify(alias))
+}
+
+/**
+ * Retrieve an alias record from KV storage
+ */
+export async function getAlias(
+  env: Env,
+  alias: string
+): Promise<AliasRecord | null> {
+  const data = await env.URLS_KV.get(`alias:${alias}`)
+  if (!data) return null
+
+  try {
+    return JSON.parse(data) as AliasRecord
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Delete an alias record from KV storage
+ */
+export async function deleteAlias(env: Env, alias: string): Promise<void> {
+  await env.URLS_KV.delete(`alias:${alias}`)
+}
+
+/**
+ * Resolve a slug to its URL record, following an alias if there is one.
+ * Records in the trash are returned so the caller can answer 410 Gone.
+ */
+export async function resolveURL(
+  env: Env,
+  slug: string
+): Promise<URLRecord | null> {
+  const record = await getURL(env, slug, { includeDeleted: true })
+  if (record) return record
+
+  const alias = await getAlias(env, slug)
+  return alias ? getURL(env, alias.slug, { includeDeleted: true }) : null
+}
+
+/**
+ * Check whether a slug is already used by a URL record (even one in the
+ * trash) or an alias
+ */
+export async function isSlugTaken(env: Env, slug: string): Promise<boolean> {
+  const [record, alias] = await Promise.all([
+    getURL(env, slug, { includeDeleted: true }),
+    getAlias(env, slug),
+  ])
+  return record !== null || alias !== null
+}
+
+/**
+ * Add an alias slug that redirects to an existing URL record
+ */
+export async function addAlias(
+  env: Env,
+  slug: string,
+  alias: string
+): Promise<URLRecord> {
+  const existing = await getURL(env, slug)
+  if (!existing) {
+    throw new Error('URL not found')
+  }
+
+  const updated: URLRecord = {
+    ...existing,
+    aliases: [...(existing.aliases || []), alias],
+    updated: new Date().toISOString(),
+  }
+
+  await storeAlias(env, { alias, slug, created: updated.updated })
+  await storeURL(env, updated)
+  return updated
+}
+
+/**
+ * Remove an alias slug from a URL record
+ */
+export async function removeAlias(
+  env: Env,
+  slug: string,
+  alias: string
+): Promise<URLRecord> {
+  const existing = await getURL(env, slug)
+  if (!existing) {
+    throw new Error('URL not found')
+  }
+
+  const aliases = (existing.aliases || []).filter((a) => a !== alias)
+  const updated: URLRecord = {
+    ...existing,
+    aliases: aliases.length ? aliases : undefined,
+    updated: new Date().toISOString(),
+  }
+
+  await deleteAlias(env, alias)
+  await storeURL(env, updated)
+  return updated
+}
+
+/**
+ * Move a URL record to a new slug, keeping the old slug as an alias
+ */
+export async function renameURL(
+  env: Env,
+  slug: string,
+  newSlug: string
+): Promise<URLRecord> {
+  const existing = await getURL(env, slug)
+  if (!existing) {
+    throw new Error('URL not found')
+  }
+
+  const now = new Date().toISOString()
+  const aliases = (existing.aliases || []).filter((a) => a !== newSlug)
+  aliases.push(slug)
+
+  const renamed: URLRecord = {
+    ...existing,
+    slug: newSlug,
+    aliases,
+    updated: now,
+  }
+
+  await storeURL(env, renamed)
+  await deleteAlias(env, newSlug)
+  for (const alias of aliases) {
+    await storeAlias(env, { alias, slug: newSlug, created: now })
+  }
+  await env.URLS_KV.delete(`urls:${slug}`)
+  await updateIndexShard(env, slug, null)
+  await moveClickData(env, slug, newSlug)
+  await moveHistory(env, slug, newSlug)
+
+  return renamed
+}
+
+// ========== Trash ==========
+
+/**
+ * List records in the trash, most recently deleted first
+ */
+export async function listTrashedURLs(env: Env): Promise<URLRecord[]> {
+  const urls = (await listIndexedURLs(env)).filter((u) => u.deletedAt)
 
   return urls.sort(
-    (a, b) => new Date(b.created).getTime() - new Date(a.created).getTime()
+    (a, b) =>
+      new Date(b.deletedAt!).getTime() - new Date(a.deletedAt!).getTime()
   )
 }
 
+/**
+ * Restore a URL record from the trash
+ */
+export async function restoreURL(env: Env, slug: string): Promise<URLRecord> {
+  const existing = await getURL(env, slug, { includeDeleted: true })
+  if (!existing?.deletedAt) {
+    throw new Error('URL not found in trash')
+  }
+
+  const { deletedAt, ...restored } = existing
+  await storeURL(env, restored)
+  return restored
+}
+
+/**
+ * Permanently delete a record from the trash, along with its aliases
+ */
+export async function purgeURL(env: Env, slug: string): Promise<void> {
+  const existing = await getURL(env, slug, { includeDeleted: true })
+  if (!existing?.deletedAt) {
+    throw new Error('URL not found in trash')
+  }
+
+  await env.URLS_KV.delete(`urls:${slug}`)
+  await updateIndexShard(env, slug, null)
+
+  for (const alias of existing.aliases || []) {
+    await deleteAlias(env, alias)
+  }
+  await deleteHistory(env, slug)
+  await deleteClickData(env, slug)
+}
+
+/**
+ * Get the number of days records stay in the trash before being purged
+ */
+export function getTrashRetentionDays(env: Env): number {
+  const days = parseInt(env.TRASH_RETENTION_DAYS || '')
+  return days > 0 ? days : TRASH.RETENTION_DAYS
+}
+
+/**
+ * Purge every record that has been in the trash longer than the retention
+ * period. Returns the purged slugs.
+ */
+export async function purgeExpiredTrash(
+  env: Env,
+  now: number = Date.now()
+): Promise<string[]> {
+  const cutoff = now - getTrashRetentionDays(env) * 864e5
+  const expired = (await listTrashedURLs(env)).filter(
+    (u) => new Date(u.deletedAt!).getTime() <= cutoff
+  )
+
+  for (const record of expired) {
+    await purgeURL(env, record.slug)
+  }
+  return expired.map((u) => u.slug)
+}
+
 // ========== Slug Generation ==========
 
 /**
@@ -116,9 +592,8 @@ export async function generateUniqueSlug(env: Env): Promise<string> {
 
   while (attempts < maxAttempts) {
     const slug = generateSlug()
-    const existing = await getURL(env, slug)
 
-    if (!existing) {
+    if (!(await isSlugTaken(env, slug))) {
       return slug
     }
 
@@ -235,6 +710,178 @@ export function normalizeURL(url: string): string {
   }
 }
 
+// ========== Tags ==========
+
+/**
+ * Normalize a list (or comma-separated string) of tags.
+ * Returns null if any tag is invalid.
+ */
+export function normalizeTags(input: string[] | string): string[] | null {
+  const raw = Array.isArray(input) ? input : input.split(',')
+  const tags: string[] = []
+
+  for (const value of raw) {
+    if (typeof value !== 'string') return null
+
+    const tag = value.trim().toLowerCase().replace(/\s+/g, '-')
+    if (!tag) continue
+    if (tag.length > TAGS.MAX_LENGTH || !/^[a-z0-9-]+$/.test(tag)) return null
+    if (!tags.includes(tag)) tags.push(tag)
+  }
+
+  return tags.length <= TAGS.MAX_PER_URL ? tags : null
+}
+
+/**
+ * Count how many URLs use each tag, most used first
+ */
+export function countTags(urls: URLRecord[]): { tag: string; count: number }[] {
+  const counts = new Map<string, number>()
+  for (const url of urls) {
+    for (const tag of url.tags || []) {
+      counts.set(tag, (counts.get(tag) || 0) + 1)
+    }
+  }
+
+  return [...counts.entries()]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag))
+}
+
+// ========== Link Availability ==========
+
+export type LinkAvailability =
+  | 'active'
+  | 'scheduled'
+  | 'expired'
+  | 'exhausted'
+  | 'deleted'
+
+/**
+ * Work out whether a link should currently redirect
+ */
+export function getLinkAvailability(
+  record: URLRecord,
+  clicks: number,
+  now: number = Date.now()
+): LinkAvailability {
+  if (record.deletedAt) {
+    return 'deleted'
+  }
+  if (record.activatesAt && new Date(record.activatesAt).getTime() > now) {
+    return 'scheduled'
+  }
+  if (record.expiresAt && new Date(record.expiresAt).getTime() <= now) {
+    return 'expired'
+  }
+  if (record.maxClicks && clicks >= record.maxClicks) {
+    return 'exhausted'
+  }
+  return 'active'
+}
+
+/**
+ * Build the response for a link that isn't currently active
+ */
+function unavailableResponse(
+  record: URLRecord,
+  availability: LinkAvailability,
+  env: Env
+): Response {
+  // Deleted links always answer 410 Gone
+  const fallbackUrl =
+    availability !== 'deleted' && (record.fallbackUrl || env.FALLBACK_URL)
+  if (fallbackUrl) {
+    return redirectResponse(fallbackUrl, 302)
+  }
+
+  return new Response(renderGonePage(availability), {
+    status: 410,
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Cache-Control': 'no-store',
+    },
+  })
+}
+
+// ========== Redirects ==========
+
+export const REDIRECT_TYPES: RedirectType[] = [301, 302, 307, 308]
+
+/**
+ * Get the redirect status used for links without their own
+ */
+export function getDefaultRedirectType(env: Env): RedirectType {
+  const status = parseInt(env.DEFAULT_REDIRECT_TYPE || '')
+  return REDIRECT_TYPES.includes(status as RedirectType)
+    ? (status as RedirectType)
+    : REDIRECTS.DEFAULT_TYPE
+}
+
+export const QUERY_PASSTHROUGH: QueryPassthrough[] = ['incoming', 'destination', 'both']
+
+/**
+ * Work out where a visit should go, starting from the link's URL or the one
+ * its targeting picked: the rest of the path is appended for prefix links,
+ * then the link's UTM parameters are set, then the query string is merged in
+ * if the link passes it on
+ */
+export function buildDestination(
+  record: URLRecord,
+  target: string,
+  rest: string,
+  query: URLSearchParams
+): string {
+  if (!(rest && record.prefix) && !record.queryPassthrough && !record.utm) {
+    return target
+  }
+
+  const destination = new URL(target)
+  if (rest && record.prefix) {
+    destination.pathname = `${destination.pathname.replace(/\/$/, '')}/${rest}`
+  }
+
+  if (record.utm) applyUTM(destination, record.utm)
+
+  if (record.queryPassthrough) {
+    for (const key of new Set(query.keys())) {
+      const exists = destination.searchParams.has(key)
+      if (exists && record.queryPassthrough === 'destination') continue
+      if (exists && record.queryPassthrough === 'incoming') {
+        destination.searchParams.delete(key)
+      }
+      for (const value of query.getAll(key)) {
+        destination.searchParams.append(key, value)
+      }
+    }
+  }
+
+  return destination.toString()
+}
+
+/**
+ * Build a redirect. Browsers keep permanent redirects forever unless told
+ * otherwise, so they are only cached for a while; temporary ones aren't
+ * cached at all. Redirects that differ per visitor are kept out of shared
+ * caches.
+ */
+export function redirectResponse(
+  location: string,
+  status: RedirectType,
+  isShared: boolean = true
+): Response {
+  const isPermanent = status === 301 || status === 308
+  return new Response(null, {
+    status,
+    headers: {
+      Location: location,
+      'Cache-Control': isPermanent
+        ? `${isShared ? 'public' : 'private'}, max-age=${CACHE.PERMANENT_REDIRECT_MAX_AGE}`
+        : 'no-store',
+    },
+  })
+}
+
 // ========== Rate Limiting ==========
 
 /**
@@ -279,6 +926,24 @@ export async function checkRateLimit(
   return rateLimitInfo.count <= limit
 }
 
+/**
+ * Get how many times a rate limit key has been hit in its current window
+ */
+export async function getRateLimitCount(
+  env: Env,
+  key: string
+): Promise<number> {
+  const data = await env.URLS_KV.get(`rate:${key}`)
+  if (!data) return 0
+
+  try {
+    const rateLimitInfo = JSON.parse(data) as RateLimitInfo
+    return rateLimitInfo.resetTime < Date.now() ? 0 : rateLimitInfo.count
+  } catch {
+    return 0
+  }
+}
+
 // ========== Metadata Fetching ==========
 
 /**
@@ -428,6 +1093,83 @@ function generateOGHTML(record: URLRecord): string {
 </html>`
 }
 
+/**
+ * Generate the public page listing every link in a tag collection
+ */
+function renderTagPage(tag: string, urls: URLRecord[], domain: string): string {
+  return `<!DOCTYPE html>
+<html lang="en" data-theme="dark">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>#${escapeHTML(tag)} - ${escapeHTML(domain)}</title>
+    <link rel="stylesheet" href="https://unpkg.com/@picocss/pico@1.5.10/css/pico.min.css">
+    <style>
+        body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif; padding-top: 2rem; }
+        .container { max-width: 800px; }
+        .link { margin-bottom: 1.5rem; }
+        .link p { margin-bottom: 0.25rem; }
+        .link small { font-family: monospace; }
+    </style>
+</head>
+<body>
+    <main class="container">
+        <h1>#${escapeHTML(tag)}</h1>
+        ${
+          urls.length > 0
+            ? urls
+                .map((url) => {
+                  const shortUrl = `https://${domain}/${url.slug}`
+                  return `
+        <div class="link">
+            <p><a href="${escapeHTML(shortUrl)}"><strong>${escapeHTML(
+                    url.metadata?.title || url.url
+                  )}</strong></a></p>
+            ${
+              url.metadata?.description
+                ? `<p>${escapeHTML(url.metadata.description)}</p>`
+                : ''
+            }
+            <small>${escapeHTML(shortUrl)}</small>
+        </div>`
+                })
+                .join('')
+            : '<p>No links in this collection.</p>'
+        }
+    </main>
+</body>
+</html>`
+}
+
+/**
+ * Generate the 410 Gone page for expired or not-yet-active links
+ */
+function renderGonePage(availability: LinkAvailability): string {
+  const text =
+    availability === 'scheduled'
+      ? 'This link is not active yet. Please check back later.'
+      : availability === 'deleted'
+        ? 'This link has been removed.'
+        : 'This link has expired and is no longer available.'
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <meta name="robots" content="noindex">
+    <title>Link unavailable</title>
+    <style>
+        body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif; max-width: 480px; margin: 20vh auto; padding: 0 1rem; text-align: center; }
+    </style>
+</head>
+<body>
+    <h1>Link unavailable</h1>
+    <p>${escapeHTML(text)}</p>
+</body>
+</html>`
+}
+
 /**
  * Escape HTML special characters
  */
@@ -444,6 +1186,26 @@ export function escapeHTML(str: string): string {
   return str.replace(/[&<>"'/]/g, (char) => map[char] || char)
 }
 
+/**
+ * Render the hidden CSRF token field every admin form must carry
+ */
+export function csrfField(token: string): string {
+  return `<input type="hidden" name="csrf_token" value="${escapeHTML(token)}">`
+}
+
+/**
+ * Compare two strings in constant time to prevent timing attacks
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false
+
+  let result = 0
+  for (let i = 0; i < a.length; i++) {
+    result |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return result === 0
+}
+
 // ========== Main Router ==========
 
 export default {
@@ -460,9 +1222,14 @@ export default {
       return new Response('OK', { status: 200 })
     }
 
-    // Public JSON endpoint for all URLs
+    // Public JSON endpoint for all URLs, optionally filtered by tag.
+    // Password-protected links are left out so their destinations stay private.
     if (path === '/all.json') {
-      const urls = await listAllURLs(env)
+      const tag = url.searchParams.get('tag')?.toLowerCase()
+      const allURLs = (await listAllURLs(env)).filter((u) => !u.passwordHash)
+      const urls = tag
+        ? allURLs.filter((u) => u.tags?.includes(tag))
+        : allURLs
       return new Response(JSON.stringify(urls, null, 2), {
         headers: { 
           'Content-Type': 'application/json',
@@ -476,13 +1243,36 @@ export default {
       return handleAdminRequest(request, env)
     }
 
+    // Public tag collection pages
+    if (path.startsWith('/t/')) {
+      const tag = decodeURIComponent(path.substring('/t/'.length)).toLowerCase()
+      // Click limits aren't checked here to avoid a counter read per link
+      const urls = (await listAllURLs(env)).filter(
+        (u) =>
+          u.tags?.includes(tag) &&
+          !u.passwordHash &&
+          getLinkAvailability(u, 0) === 'active'
+      )
+
+      return new Response(renderTagPage(tag, urls, env.DOMAIN), {
+        status: urls.length > 0 ? 200 : 404,
+        headers: {
+          'Content-Type': 'text/html; charset=utf-8',
+          'Cache-Control': `public, max-age=${CACHE.ALL_URLS_MAX_AGE}`,
+        },
+      })
+    }
+
     // Root path - redirect to main site
     if (path === '/' || path === '') {
       return Response.redirect('https://danny.is', 302)
     }
 
-    // Extract slug from path
-    const slug = path.substring(1).toLowerCase()
+    // Extract slug from path. Anything after it is only allowed for prefix
+    // links, and keeps its case as destination paths may be case sensitive.
+    const [first, ...segments] = path.substring(1).split('/')
+    const slug = first.toLowerCase()
+    const rest = segments.join('/')
 
     // Validate slug format
     if (!slug || !isValidCustomSlug(slug)) {
@@ -498,13 +1288,69 @@ export default {
       return new Response('Rate limit exceeded', { status: 429 })
     }
 
-    // Get URL record
-    const record = await getURL(env, slug)
+    // Get URL record, following old slugs kept as aliases
+    const record = await resolveURL(env, slug)
 
-    if (!record) {
+    if (!record || (rest && !record.prefix)) {
       return new Response('Not found', { status: 404 })
     }
 
+    // Targeting rules come first; A/B links split whoever they don't match
+    const target = selectTarget(record, request)
+    const ab = target ? {} : await pickVariant(request, env, record)
+    const destination = buildDestination(
+      record,
+      target || ab.variant?.url || record.url,
+      rest,
+      url.searchParams
+    )
+
+    // Deleted, expired, scheduled and click-limited links don't redirect
+    if (
+      record.deletedAt ||
+      record.activatesAt ||
+      record.expiresAt ||
+      record.maxClicks
+    ) {
+      const clicks = record.maxClicks
+        ? (await getClickCounter(env, record.slug)).total
+        : 0
+      const availability = getLinkAvailability(record, clicks)
+      if (availability !== 'active') {
+        return unavailableResponse(record, availability, env)
+      }
+    }
+
+    // Protected links ask for the passphrase first, crawlers included, so
+    // link previews never show the destination
+    let unlockCookie: string | undefined
+    if (record.passwordHash && !(await isUnlocked(request, env, record))) {
+      const result = await unlockLink(request, env, record)
+      if (!result.unlocked) return result.response
+      unlockCookie = result.cookie
+    }
+
+    // Record the click in the background so the redirect isn't slowed down.
+    // Alias clicks count towards the canonical slug.
+    ctx.waitUntil(
+      createClickEvent(request, env).then((event) =>
+        recordClick(env, record.slug, {
+          ...event,
+          ...(slug !== record.slug ? { alias: slug } : {}),
+          ...(ab.variant ? { variant: ab.variant.name } : {}),
+        })
+      )
+    )
+
+    // Unlocked links always redirect temporarily, which isn't cached, so
+    // the passphrase is asked for again once the unlock cookie expires
+    if (record.passwordHash) {
+      const response = redirectResponse(destination, 302)
+      if (unlockCookie) response.headers.append('Set-Cookie', unlockCookie)
+      if (ab.cookie) response.headers.append('Set-Cookie', ab.cookie)
+      return response
+    }
+
     // Check if it's a social media crawler
     const userAgent = request.headers.get('User-Agent') || ''
     if (isSocialMediaCrawler(userAgent)) {
@@ -517,7 +1363,33 @@ export default {
       })
     }
 
-    // Regular users and search engines get HTTP 301 redirect
-    return Response.redirect(record.url, 301)
+    // Regular users and search engines get the link's redirect type
+    const response = redirectResponse(
+      destination,
+      record.redirectType || getDefaultRedirectType(env),
+      !record.targets && !record.variants
+    )
+    if (record.targets) {
+      response.headers.set('Vary', 'User-Agent, Accept-Language')
+    }
+    if (ab.cookie) response.headers.set('Set-Cookie', ab.cookie)
+    return response
+  },
+
+  async scheduled(
+    controller: ScheduledController,
+    env: Env,
+    ctx: ExecutionContext
+  ): Promise<void> {
+    // Daily: empty the trash of old records and start an index rebuild.
+    // Every few minutes: carry on with the rebuild, a page at a time, and
+    // with moving the click events of renamed links.
+    if (controller.cron === CRONS.DAILY) {
+      ctx.waitUntil(Promise.all([purgeExpiredTrash(env), rebuildIndex(env)]))
+    } else {
+      ctx.waitUntil(
+        Promise.all([continueIndexRebuild(env), continueClickMoves(env)])
+      )
+    }
   },
 }
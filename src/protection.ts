@@ -0,0 +1,205 @@
+import { Env, URLRecord } from './types'
+import { checkRateLimit, escapeHTML, timingSafeEqual } from './index'
+import { getCookie } from './admin'
+import { hashPassword, verifyPassword } from './users'
+import { PROTECTED } from './constants'
+
+// Protected links show an unlock page instead of redirecting. Once the
+// passphrase is entered the visitor gets a signed cookie for that link,
+// which stops working when it expires or the passphrase changes.
+
+// A record as the API and exports show it: the passphrase hash stays in KV
+export type URLInfo = Omit<URLRecord, 'passwordHash'> & { protected?: true }
+
+export type UnlockResult =
+  | { unlocked: true; cookie?: string }
+  | { unlocked: false; response: Response }
+
+// ========== Passphrases ==========
+
+/**
+ * Read the passphrase field of a create or update request. Undefined leaves
+ * the passphrase alone, null or empty removes it, anything else replaces it.
+ */
+export async function parsePasswordField(
+  password: string | null | undefined
+): Promise<{ passwordHash?: string | null; error?: string }> {
+  if (password === undefined) return {}
+  if (password === null || password === '') return { passwordHash: null }
+
+  if (
+    typeof password !== 'string' ||
+    password.length < PROTECTED.MIN_PASSWORD_LENGTH ||
+    password.length > PROTECTED.MAX_PASSWORD_LENGTH
+  ) {
+    return {
+      error: `Password must be ${PROTECTED.MIN_PASSWORD_LENGTH} to ${PROTECTED.MAX_PASSWORD_LENGTH} characters`,
+    }
+  }
+
+  return { passwordHash: await hashPassword(password) }
+}
+
+/**
+ * Replace a record's passphrase hash with a protected flag
+ */
+export function toURLInfo(record: URLRecord): URLInfo {
+  const { passwordHash, ...info } = record
+  return passwordHash ? { ...info, protected: true } : info
+}
+
+// ========== Unlock Cookie ==========
+
+/**
+ * Sign an unlock cookie. The passphrase hash is part of the signed data, so
+ * changing the passphrase locks everyone out again.
+ */
+async function signUnlock(
+  record: URLRecord,
+  expires: number,
+  secret: string
+): Promise<string> {
+  const encoder = new TextEncoder()
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const signature = await crypto.subtle.sign(
+    'HMAC',
+    key,
+    encoder.encode(`unlock:${record.slug}.${expires}.${record.passwordHash}`)
+  )
+  return Array.from(new Uint8Array(signature))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+/**
+ * Check whether the visitor has already unlocked a link
+ */
+export async function isUnlocked(
+  request: Request,
+  env: Env,
+  record: URLRecord
+): Promise<boolean> {
+  const cookie = getCookie(request, `unlock_${record.slug}`)
+  if (!cookie || !env.API_SECRET) return false
+
+  const [expires, signature] = cookie.split('.')
+  if (!signature || Number(expires) < Date.now()) return false
+
+  const expected = await signUnlock(record, Number(expires), env.API_SECRET)
+  return timingSafeEqual(signature, expected)
+}
+
+/**
+ * Create the cookie that keeps a link unlocked. Without API_SECRET there is
+ * nothing to sign with, so visitors are asked every time.
+ */
+async function createUnlockCookie(
+  request: Request,
+  env: Env,
+  record: URLRecord
+): Promise<string | undefined> {
+  if (!env.API_SECRET) return undefined
+
+  const expires = Date.now() + PROTECTED.UNLOCK_SECONDS * 1000
+  const signature = await signUnlock(record, expires, env.API_SECRET)
+  const isSecure = new URL(request.url).protocol === 'https:'
+
+  // Lax so the cookie is sent when the link is opened from another site
+  return `unlock_${record.slug}=${expires}.${signature}; HttpOnly${
+    isSecure ? '; Secure' : ''
+  }; SameSite=Lax; Max-Age=${PROTECTED.UNLOCK_SECONDS}; Path=/`
+}
+
+// ========== Unlocking ==========
+
+/**
+ * Handle a visit to a protected link the visitor hasn't unlocked: show the
+ * unlock page, or check the passphrase it posted
+ */
+export async function unlockLink(
+  request: Request,
+  env: Env,
+  record: URLRecord
+): Promise<UnlockResult> {
+  if (request.method !== 'POST') {
+    return { unlocked: false, response: unlockPageResponse() }
+  }
+
+  const clientIP = request.headers.get('CF-Connecting-IP') || 'unknown'
+  const isAllowed = await checkRateLimit(
+    env,
+    `unlock:${clientIP}`,
+    PROTECTED.MAX_ATTEMPTS,
+    PROTECTED.ATTEMPT_WINDOW_MS
+  )
+  if (!isAllowed) {
+    return {
+      unlocked: false,
+      response: unlockPageResponse(
+        'Too many attempts. Please wait a few minutes and try again.',
+        429
+      ),
+    }
+  }
+
+  const formData = await request.formData().catch(() => null)
+  const password = (formData?.get('password') as string) || ''
+  if (!password || !(await verifyPassword(password, record.passwordHash!))) {
+    return {
+      unlocked: false,
+      response: unlockPageResponse('Wrong passphrase', 401),
+    }
+  }
+
+  return { unlocked: true, cookie: await createUnlockCookie(request, env, record) }
+}
+
+/**
+ * Build the unlock page response. It never reveals the destination, so it
+ * is safe to show to crawlers too.
+ */
+function unlockPageResponse(error?: string, status: number = 200): Response {
+  return new Response(renderUnlockPage(error), {
+    status,
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Cache-Control': 'no-store',
+    },
+  })
+}
+
+/**
+ * Generate the unlock page for a protected link. The form posts back to the
+ * link itself.
+ */
+function renderUnlockPage(error?: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <meta name="robots" content="noindex">
+    <title>Protected link</title>
+    <style>
+        body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif; max-width: 480px; margin: 20vh auto; padding: 0 1rem; text-align: center; }
+        input, button { font-size: 1rem; padding: 0.5rem 0.75rem; margin: 0.25rem; }
+        .error { color: #c62828; }
+    </style>
+</head>
+<body>
+    <h1>Protected link</h1>
+    <p>Enter the passphrase to continue.</p>
+    ${error ? `<p class="error">${escapeHTML(error)}</p>` : ''}
+    <form method="post">
+        <input type="password" name="password" aria-label="Passphrase" autocomplete="off" required autofocus>
+        <button type="submit">Continue</button>
+    </form>
+</body>
+</html>`
+}
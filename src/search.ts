@@ -0,0 +1,223 @@
+import { Env, URLRecord, URLQuery, URLQueryResult } from './types'
+import { listAllURLs } from './index'
+import { getClickSummaries } from './analytics'
+import { PAGINATION } from './constants'
+
+// ========== Query Parsing ==========
+
+/**
+ * Encode a list offset as an opaque cursor
+ */
+export function encodeCursor(offset: number): string {
+  return btoa(JSON.stringify({ o: offset })).replace(/=+$/, '')
+}
+
+/**
+ * Decode a cursor back into a list offset, or null if it's invalid
+ */
+export function decodeCursor(cursor: string): number | null {
+  try {
+    const { o } = JSON.parse(atob(cursor)) as { o: unknown }
+    return typeof o === 'number' && Number.isInteger(o) && o >= 0 ? o : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Parse list query parameters. Returns an error message for invalid input.
+ */
+export function parseURLQuery(
+  params: URLSearchParams
+): { query: URLQuery; error?: string } {
+  const sort = params.get('sort') || 'created'
+  const group = params.get('group') || undefined
+  const order = params.get('order') || 'desc'
+  const limit = parseInt(params.get('limit') || `${PAGINATION.DEFAULT_LIMIT}`)
+  const cursor = params.get('cursor')
+  const offset = cursor ? decodeCursor(cursor) : 0
+
+  const query: URLQuery = {
+    q: params.get('q')?.trim() || undefined,
+    domain: params.get('domain')?.trim().toLowerCase() || undefined,
+    tag: params.get('tag')?.trim().toLowerCase() || undefined,
+    campaign: params.get('campaign')?.trim().toLowerCase() || undefined,
+    group: group as URLQuery['group'],
+    from: params.get('from') || undefined,
+    to: params.get('to') || undefined,
+    sort: sort as URLQuery['sort'],
+    order: order as URLQuery['order'],
+    limit: Math.min(
+      isNaN(limit) ? PAGINATION.DEFAULT_LIMIT : limit,
+      PAGINATION.MAX_LIMIT
+    ),
+    offset: offset ?? 0,
+  }
+
+  if (!['created', 'updated', 'clicks'].includes(sort)) {
+    return { query, error: 'Invalid sort' }
+  }
+  if (!['asc', 'desc'].includes(order)) {
+    return { query, error: 'Invalid order' }
+  }
+  if (group && group !== 'campaign') {
+    return { query, error: 'Invalid group' }
+  }
+  if (query.limit < 1) {
+    return { query, error: 'Invalid limit' }
+  }
+  if (offset === null) {
+    return { query, error: 'Invalid cursor' }
+  }
+  for (const date of [query.from, query.to]) {
+    if (date && isNaN(new Date(date).getTime())) {
+      return { query, error: 'Invalid date range' }
+    }
+  }
+
+  return { query }
+}
+
+/**
+ * Build the query string for a list query, e.g. for pagination links
+ */
+export function toSearchParams(
+  query: URLQuery,
+  cursor?: string | null
+): URLSearchParams {
+  const params = new URLSearchParams()
+  if (query.q) params.set('q', query.q)
+  if (query.domain) params.set('domain', query.domain)
+  if (query.tag) params.set('tag', query.tag)
+  if (query.campaign) params.set('campaign', query.campaign)
+  if (query.group) params.set('group', query.group)
+  if (query.from) params.set('from', query.from)
+  if (query.to) params.set('to', query.to)
+  if (query.sort !== 'created') params.set('sort', query.sort)
+  if (query.order !== 'desc') params.set('order', query.order)
+  if (query.limit !== PAGINATION.DEFAULT_LIMIT) {
+    params.set('limit', `${query.limit}`)
+  }
+  if (cursor) params.set('cursor', cursor)
+  return params
+}
+
+// ========== Filtering & Sorting ==========
+
+/**
+ * Check whether a URL record matches every search term and filter
+ */
+export function matchesQuery(record: URLRecord, query: URLQuery): boolean {
+  if (query.q) {
+    const haystack = [
+      record.slug,
+      record.url,
+      record.metadata?.title,
+      record.metadata?.description,
+      ...(record.aliases || []),
+      ...(record.tags || []),
+    ]
+      .filter(Boolean)
+      .join(' ')
+      .toLowerCase()
+
+    const terms = query.q.toLowerCase().split(/\s+/)
+    if (!terms.every((term) => haystack.includes(term))) return false
+  }
+
+  if (query.domain) {
+    let hostname: string
+    try {
+      hostname = new URL(record.url).hostname.toLowerCase()
+    } catch {
+      return false
+    }
+    const domain = query.domain.replace(/^www\./, '')
+    if (
+      hostname.replace(/^www\./, '') !== domain &&
+      !hostname.endsWith(`.${domain}`)
+    ) {
+      return false
+    }
+  }
+
+  if (query.tag && !record.tags?.includes(query.tag)) return false
+  if (
+    query.campaign &&
+    record.utm?.campaign?.toLowerCase() !== query.campaign
+  ) {
+    return false
+  }
+
+  const created = new Date(record.created).getTime()
+  if (query.from && created < new Date(query.from).getTime()) return false
+  if (query.to) {
+    // Plain dates include the whole day
+    const to = /^\d{4}-\d{2}-\d{2}$/.test(query.to)
+      ? new Date(query.to).getTime() + 864e5
+      : new Date(query.to).getTime() + 1
+    if (created >= to) return false
+  }
+
+  return true
+}
+
+/**
+ * Search, filter, sort and paginate URL records
+ */
+export async function queryURLs(
+  env: Env,
+  query: URLQuery,
+  urls?: URLRecord[]
+): Promise<URLQueryResult> {
+  const all = urls || (await listAllURLs(env))
+  const matches = all.filter((record) => matchesQuery(record, query))
+  const direction = query.order === 'asc' ? 1 : -1
+
+  // Click counts are only loaded for every match when sorting by them
+  let clicks =
+    query.sort === 'clicks'
+      ? await getClickSummaries(
+          env,
+          matches.map((r) => r.slug)
+        )
+      : {}
+
+  // Grouping by campaign keeps each campaign together across pages, with
+  // links that have none last
+  const campaignOrder = (a: URLRecord, b: URLRecord) => {
+    if (query.group !== 'campaign') return 0
+    const [x, y] = [a.utm?.campaign || '', b.utm?.campaign || '']
+    return x && y ? x.localeCompare(y) : Number(!x) - Number(!y)
+  }
+
+  matches.sort((a, b) => {
+    const grouped = campaignOrder(a, b)
+    if (grouped) return grouped
+
+    const diff =
+      query.sort === 'clicks'
+        ? clicks[a.slug].total - clicks[b.slug].total
+        : new Date(a[query.sort]).getTime() - new Date(b[query.sort]).getTime()
+    return (
+      direction * diff ||
+      new Date(b.created).getTime() - new Date(a.created).getTime()
+    )
+  })
+
+  const items = matches.slice(query.offset, query.offset + query.limit)
+  if (query.sort !== 'clicks') {
+    clicks = await getClickSummaries(
+      env,
+      items.map((r) => r.slug)
+    )
+  }
+
+  const nextOffset = query.offset + items.length
+  return {
+    items,
+    clicks: Object.fromEntries(items.map((r) => [r.slug, clicks[r.slug]])),
+    total: matches.length,
+    cursor: nextOffset < matches.length ? encodeCursor(nextOffset) : null,
+  }
+}
@@ -0,0 +1,232 @@
+import { Env, SessionRecord } from './types'
+import { escapeHTML, csrfField } from './index'
+import { classifyUserAgent } from './analytics'
+import { SESSION } from './constants'
+
+// ========== Storage ==========
+
+/**
+ * Store a session, restarting its inactivity timeout. The record is also
+ * kept as metadata for listing.
+ */
+async function storeSession(env: Env, session: SessionRecord): Promise<void> {
+  await env.URLS_KV.put(`session:${session.id}`, JSON.stringify(session), {
+    metadata: session,
+    expirationTtl: SESSION.DURATION_SECONDS,
+  })
+}
+
+/**
+ * Start a session for a user signing in
+ */
+export async function createSession(
+  env: Env,
+  userId: string,
+  request: Request
+): Promise<SessionRecord> {
+  const now = new Date().toISOString()
+  const session: SessionRecord = {
+    id: Array.from(crypto.getRandomValues(new Uint8Array(16)))
+      .map((b) => b.toString(16).padStart(2, '0'))
+      .join(''),
+    userId,
+    created: now,
+    lastSeen: now,
+    ip: request.headers.get('CF-Connecting-IP') || 'unknown',
+    userAgent: (request.headers.get('User-Agent') || '').slice(0, 200),
+  }
+
+  await storeSession(env, session)
+  return session
+}
+
+/**
+ * Get a live session. Sessions past their maximum lifetime are ended.
+ */
+export async function getSessionRecord(
+  env: Env,
+  id: string
+): Promise<SessionRecord | null> {
+  const data = await env.URLS_KV.get(`session:${id}`)
+  if (!data) return null
+
+  let session: SessionRecord
+  try {
+    session = JSON.parse(data) as SessionRecord
+  } catch {
+    return null
+  }
+
+  const age = Date.now() - new Date(session.created).getTime()
+  if (age > SESSION.MAX_LIFETIME_SECONDS * 1000) {
+    await env.URLS_KV.delete(`session:${id}`)
+    return null
+  }
+
+  return session
+}
+
+/**
+ * Record activity on a session, which slides its expiry forward
+ */
+export async function touchSession(
+  env: Env,
+  session: SessionRecord,
+  request: Request
+): Promise<void> {
+  const now = Date.now()
+  if (now - new Date(session.lastSeen).getTime() < SESSION.TOUCH_INTERVAL_MS) {
+    return
+  }
+
+  await storeSession(env, {
+    ...session,
+    lastSeen: new Date(now).toISOString(),
+    ip: request.headers.get('CF-Connecting-IP') || session.ip,
+  })
+}
+
+/**
+ * List live sessions, most recently active first. Pass a user id to list
+ * only that user's sessions.
+ */
+export async function listSessions(
+  env: Env,
+  userId?: string
+): Promise<SessionRecord[]> {
+  const sessions: SessionRecord[] = []
+  let cursor: string | undefined
+
+  do {
+    const list = await env.URLS_KV.list<SessionRecord>({
+      prefix: 'session:',
+      cursor,
+    })
+    for (const key of list.keys) {
+      if (key.metadata && (!userId || key.metadata.userId === userId)) {
+        sessions.push(key.metadata)
+      }
+    }
+    cursor = list.list_complete ? undefined : list.cursor
+  } while (cursor)
+
+  return sessions.sort((a, b) => b.lastSeen.localeCompare(a.lastSeen))
+}
+
+/**
+ * End a session. Returns the session, or null if it had already ended.
+ */
+export async function revokeSession(
+  env: Env,
+  id: string
+): Promise<SessionRecord | null> {
+  const data = await env.URLS_KV.get(`session:${id}`)
+  if (!data) return null
+
+  await env.URLS_KV.delete(`session:${id}`)
+  try {
+    return JSON.parse(data) as SessionRecord
+  } catch {
+    return null
+  }
+}
+
+/**
+ * End all of a user's sessions, optionally keeping one. Returns how many
+ * were ended.
+ */
+export async function revokeUserSessions(
+  env: Env,
+  userId: string,
+  exceptId?: string
+): Promise<number> {
+  const sessions = (await listSessions(env, userId)).filter(
+    (session) => session.id !== exceptId
+  )
+  await Promise.all(
+    sessions.map((session) => env.URLS_KV.delete(`session:${session.id}`))
+  )
+  return sessions.length
+}
+
+// ========== Sessions Page ==========
+
+/**
+ * Render the active sessions page. When names are given, sessions of other
+ * users are listed too, labelled with their user.
+ */
+export function renderSessionsPage(
+  sessions: SessionRecord[],
+  currentSessionId: string,
+  csrfToken: string,
+  names?: Record<string, string>,
+  message?: { type: 'success' | 'error'; text: string }
+): string {
+  const time = (iso: string) => escapeHTML(iso.replace('T', ' ').slice(0, 16))
+  const describe = (userAgent: string) => {
+    const { browser, os } = classifyUserAgent(userAgent)
+    return `${browser} on ${os}`
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en" data-theme="dark">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Sessions - URL Shortener Admin</title>
+    <link rel="stylesheet" href="https://unpkg.com/@picocss/pico@1.5.10/css/pico.min.css">
+    <style>
+        :root { --pico-font-size: 90%; }
+        body { position: relative; font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif; padding-top: 2rem; }
+        .container { max-width: 800px; }
+        .url-card { display: grid; grid-template-columns: 1fr auto; gap: 1rem; align-items: center; padding: 0.75rem 1rem; border-radius: var(--pico-border-radius); margin-bottom: 0.5rem; border: 1px solid var(--pico-form-element-border-color); }
+        .url-info small { display: block; font-size: 0.8rem; color: var(--pico-muted-color); }
+        .url-card form { margin: 0; }
+        .url-card button { --pico-font-size: 0.8rem; padding: 0.25rem 0.6rem; margin: 0; width: auto; }
+    </style>
+</head>
+<body>
+    <main class="container">
+        <h2>Sessions</h2>
+        ${
+          message
+            ? `<div class="message ${message.type}">${escapeHTML(message.text)}</div>`
+            : ''
+        }
+        <p><small>Sessions end after ${SESSION.DURATION_SECONDS / 86400} days without activity, or ${
+          SESSION.MAX_LIFETIME_SECONDS / 86400
+        } days after signing in.</small></p>
+
+        ${sessions
+          .map(
+            (session) => `
+        <div class="url-card">
+            <div class="url-info">
+                <strong title="${escapeHTML(session.userAgent)}">${escapeHTML(describe(session.userAgent))}</strong>${
+                  session.id === currentSessionId ? ' (this session)' : ''
+                }
+                <small>${names ? `${escapeHTML(names[session.userId] || session.userId)} &middot; ` : ''}${escapeHTML(session.ip)} &middot; signed in ${time(session.created)} &middot; last active ${time(session.lastSeen)}</small>
+            </div>
+            ${
+              session.id === currentSessionId
+                ? ''
+                : `<form method="post" action="/admin/sessions/${escapeHTML(session.id)}/revoke">
+                ${csrfField(csrfToken)}
+                <button type="submit" class="outline contrast">Revoke</button>
+            </form>`
+            }
+        </div>`
+          )
+          .join('')}
+
+        <div class="grid">
+            <form method="post" action="/admin/sessions/revoke-others">
+                ${csrfField(csrfToken)}
+                <button type="submit" class="secondary">Log out all other sessions</button>
+            </form>
+            <a href="/admin" role="button" class="outline">Back to admin</a>
+        </div>
+    </main>
+</body>
+</html>`
+}
@@ -0,0 +1,210 @@
+import { TargetingRule, URLRecord } from './types'
+import { isValidURL, isDangerousURL, normalizeURL } from './index'
+import { classifyUserAgent } from './analytics'
+import { TARGETING } from './constants'
+
+// Targeted links send visitors to different destinations by OS, browser,
+// country or language. Rules are checked in order and the first match wins;
+// the link's own URL is the fallback when none match.
+
+// The names classifyUserAgent gives, which are the ones rules can use
+export const TARGET_OS = ['iOS', 'Android', 'Windows', 'macOS', 'ChromeOS', 'Linux']
+export const TARGET_BROWSERS = ['Chrome', 'Safari', 'Firefox', 'Edge', 'Opera']
+
+const CONDITIONS = ['os', 'browser', 'country', 'language'] as const
+
+type Condition = (typeof CONDITIONS)[number]
+
+interface Visitor {
+  os: string
+  browser: string
+  country: string // Uppercase ISO code, or '' if unknown
+  language: string // Most preferred language, lowercase, or '' if none
+}
+
+// ========== Rules ==========
+
+/**
+ * Validate one condition's values, mapping them to their canonical case.
+ * Returns null if any value is invalid.
+ */
+function normalizeCondition(
+  condition: Condition,
+  input: unknown
+): string[] | null {
+  const values = Array.isArray(input)
+    ? input
+    : typeof input === 'string'
+      ? input.split(',')
+      : null
+  if (!values) return null
+
+  const normalized: string[] = []
+  for (const value of values) {
+    if (typeof value !== 'string') return null
+    const trimmed = value.trim()
+    if (!trimmed) continue
+
+    let match: string | undefined
+    if (condition === 'os' || condition === 'browser') {
+      const names = condition === 'os' ? TARGET_OS : TARGET_BROWSERS
+      match = names.find((name) => name.toLowerCase() === trimmed.toLowerCase())
+    } else if (condition === 'country') {
+      match = /^[a-z]{2}$/i.test(trimmed) ? trimmed.toUpperCase() : undefined
+    } else {
+      match = /^[a-z]{2,3}(-[a-z0-9]{2,8})?$/i.test(trimmed)
+        ? trimmed.toLowerCase()
+        : undefined
+    }
+
+    if (!match) return null
+    if (!normalized.includes(match)) normalized.push(match)
+  }
+  return normalized
+}
+
+/**
+ * Read a link's targeting rules. Undefined leaves them alone, null or an
+ * empty list removes them. Every destination is checked like the link's own.
+ */
+export function parseTargetingRules(input: unknown): {
+  targets?: TargetingRule[] | null
+  error?: string
+} {
+  if (input === undefined) return {}
+  if (input === null) return { targets: null }
+  if (!Array.isArray(input)) return { error: 'targets must be a list of rules' }
+  if (input.length > TARGETING.MAX_RULES) {
+    return { error: `A link can have at most ${TARGETING.MAX_RULES} targeting rules` }
+  }
+
+  const targets: TargetingRule[] = []
+  for (const [i, raw] of input.entries()) {
+    const label = `Targeting rule ${i + 1}`
+    if (!raw || typeof raw !== 'object' || typeof raw.url !== 'string') {
+      return { error: `${label} needs a destination URL` }
+    }
+
+    const url = normalizeURL(raw.url)
+    if (!isValidURL(url) || isDangerousURL(url)) {
+      return { error: `${label} has an invalid destination URL` }
+    }
+
+    const rule: TargetingRule = { url }
+    for (const condition of CONDITIONS) {
+      if (raw[condition] === undefined || raw[condition] === null) continue
+      const values = normalizeCondition(condition, raw[condition])
+      if (!values) {
+        return { error: `${label} has an invalid ${condition}` }
+      }
+      if (values.length) rule[condition] = values
+    }
+    if (!CONDITIONS.some((condition) => rule[condition])) {
+      return { error: `${label} needs at least one condition` }
+    }
+
+    targets.push(rule)
+  }
+
+  return { targets: targets.length ? targets : null }
+}
+
+/**
+ * Read rules written one per line, as in the admin form:
+ * "os:iOS,Android country:US https://example.com/app"
+ */
+export function parseTargetingText(text: string): unknown[] {
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const rule: Record<string, string> = {}
+      for (const part of line.split(/\s+/)) {
+        const [key, ...value] = part.split(':')
+        if ((CONDITIONS as readonly string[]).includes(key.toLowerCase())) {
+          rule[key.toLowerCase()] = value.join(':')
+        } else {
+          rule.url = part
+        }
+      }
+      return rule
+    })
+}
+
+/**
+ * Write rules one per line, the reverse of parseTargetingText
+ */
+export function formatTargetingRules(targets: TargetingRule[]): string {
+  return targets
+    .map((rule) =>
+      [
+        ...CONDITIONS.filter((condition) => rule[condition]).map(
+          (condition) => `${condition}:${rule[condition]!.join(',')}`
+        ),
+        rule.url,
+      ].join(' ')
+    )
+    .join('\n')
+}
+
+// ========== Matching ==========
+
+/**
+ * Get the visitor's most preferred language from Accept-Language
+ */
+export function getPreferredLanguage(header: string | null): string {
+  if (!header) return ''
+
+  let best = { language: '', q: 0 }
+  for (const part of header.split(',')) {
+    const [tag, ...params] = part.trim().split(';')
+    const qParam = params.find((p) => p.trim().startsWith('q='))
+    const q = qParam ? parseFloat(qParam.trim().slice(2)) : 1
+    if (tag && tag !== '*' && q > best.q) {
+      best = { language: tag.toLowerCase(), q }
+    }
+  }
+  return best.language
+}
+
+/**
+ * Check whether every condition of a rule matches the visitor. A language
+ * like "en" matches "en-GB" too, but "en-GB" only matches itself.
+ */
+function matchesRule(rule: TargetingRule, visitor: Visitor): boolean {
+  if (rule.os && !rule.os.includes(visitor.os)) return false
+  if (rule.browser && !rule.browser.includes(visitor.browser)) return false
+  if (rule.country && !rule.country.includes(visitor.country)) return false
+  if (
+    rule.language &&
+    !rule.language.some(
+      (language) =>
+        visitor.language === language ||
+        visitor.language.startsWith(`${language}-`)
+    )
+  ) {
+    return false
+  }
+  return true
+}
+
+/**
+ * Pick the destination of the first rule matching a visit, if any
+ */
+export function selectTarget(
+  record: URLRecord,
+  request: Request
+): string | undefined {
+  if (!record.targets?.length) return undefined
+
+  const agent = classifyUserAgent(request.headers.get('User-Agent') || '')
+  const visitor: Visitor = {
+    os: agent.os,
+    browser: agent.browser,
+    country: ((request.cf?.country as string | undefined) || '').toUpperCase(),
+    language: getPreferredLanguage(request.headers.get('Accept-Language')),
+  }
+
+  return record.targets.find((rule) => matchesRule(rule, visitor))?.url
+}
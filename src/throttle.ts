@@ -0,0 +1,197 @@
+import { Env, LoginLockout } from './types'
+import { checkRateLimit, getRateLimitCount, timingSafeEqual } from './index'
+import { LOGIN } from './constants'
+
+// Failed sign-ins are throttled per IP with escalating lockouts. Across all
+// IPs they only slow everyone down with a delay challenge: a global lockout
+// would let an attacker lock the real admins out.
+
+export interface LoginThrottle {
+  lockedUntil?: number
+  challengeMs: number // Wait required before a sign-in is accepted, 0 for none
+}
+
+// ========== Lockouts ==========
+
+/**
+ * Get an IP's lockout record, including expired ones that still count
+ * towards the next lockout's length
+ */
+async function getLockout(env: Env, ip: string): Promise<LoginLockout | null> {
+  const data = await env.URLS_KV.get(`lockout:${ip}`)
+  if (!data) return null
+
+  try {
+    return JSON.parse(data) as LoginLockout
+  } catch {
+    return null
+  }
+}
+
+/**
+ * List IPs that are locked out right now
+ */
+export async function listLockouts(env: Env): Promise<LoginLockout[]> {
+  const lockouts: LoginLockout[] = []
+  let cursor: string | undefined
+
+  do {
+    const list = await env.URLS_KV.list<LoginLockout>({
+      prefix: 'lockout:',
+      cursor,
+    })
+    for (const key of list.keys) {
+      if (key.metadata && key.metadata.until > Date.now()) {
+        lockouts.push(key.metadata)
+      }
+    }
+    cursor = list.list_complete ? undefined : list.cursor
+  } while (cursor)
+
+  return lockouts.sort((a, b) => b.until - a.until)
+}
+
+/**
+ * Work out whether an IP may try to sign in, and how long it must wait
+ */
+export async function getLoginThrottle(
+  env: Env,
+  ip: string
+): Promise<LoginThrottle> {
+  const [lockout, failures, globalFailures] = await Promise.all([
+    getLockout(env, ip),
+    getRateLimitCount(env, `login-fail:ip:${ip}`),
+    getRateLimitCount(env, 'login-fail:global'),
+  ])
+
+  if (lockout && lockout.until > Date.now()) {
+    return { lockedUntil: lockout.until, challengeMs: 0 }
+  }
+
+  let challengeMs = 0
+  if (failures >= LOGIN.CHALLENGE_AFTER) {
+    challengeMs = Math.min(
+      LOGIN.CHALLENGE_BASE_MS * 2 ** (failures - LOGIN.CHALLENGE_AFTER),
+      LOGIN.CHALLENGE_MAX_MS
+    )
+  }
+  if (globalFailures > LOGIN.GLOBAL_FAILURES) {
+    challengeMs = Math.max(challengeMs, LOGIN.CHALLENGE_BASE_MS * 2)
+  }
+
+  return { challengeMs }
+}
+
+/**
+ * Count a failed sign-in. Locks the IP out once it has failed too often,
+ * returning when the lockout ends.
+ */
+export async function recordLoginFailure(
+  env: Env,
+  ip: string
+): Promise<number | null> {
+  const [withinLimit] = await Promise.all([
+    checkRateLimit(
+      env,
+      `login-fail:ip:${ip}`,
+      LOGIN.MAX_FAILURES_PER_IP - 1,
+      LOGIN.WINDOW_MS
+    ),
+    checkRateLimit(
+      env,
+      'login-fail:global',
+      LOGIN.GLOBAL_FAILURES,
+      LOGIN.WINDOW_MS
+    ),
+  ])
+  if (withinLimit) return null
+
+  const previous = await getLockout(env, ip)
+  const level = (previous?.level || 0) + 1
+  const lockout: LoginLockout = {
+    ip,
+    level,
+    until:
+      Date.now() +
+      Math.min(LOGIN.LOCKOUT_BASE_MS * 2 ** (level - 1), LOGIN.LOCKOUT_MAX_MS),
+  }
+
+  await env.URLS_KV.put(`lockout:${ip}`, JSON.stringify(lockout), {
+    metadata: lockout,
+    expirationTtl: LOGIN.LOCKOUT_MEMORY_SECONDS,
+  })
+  // Start counting afresh once the lockout ends
+  await env.URLS_KV.delete(`rate:login-fail:ip:${ip}`)
+
+  return lockout.until
+}
+
+/**
+ * Forget an IP's recent failures after a successful sign-in. Past lockouts
+ * still count towards the next one.
+ */
+export async function clearLoginFailures(env: Env, ip: string): Promise<void> {
+  await env.URLS_KV.delete(`rate:login-fail:ip:${ip}`)
+}
+
+// ========== Delay Challenge ==========
+
+/**
+ * Sign a challenge with HMAC-SHA256
+ */
+async function signChallenge(data: string, secret: string): Promise<string> {
+  const encoder = new TextEncoder()
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const signature = await crypto.subtle.sign(
+    'HMAC',
+    key,
+    encoder.encode(`login-challenge:${data}`)
+  )
+  return Array.from(new Uint8Array(signature))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+/**
+ * Issue a challenge for the login form. It is only accepted once the delay
+ * has passed, from the same IP.
+ */
+export async function issueLoginChallenge(
+  secret: string,
+  ip: string,
+  delayMs: number,
+  issued: number = Date.now()
+): Promise<string> {
+  const data = `${issued}.${delayMs}`
+  return `${data}.${await signChallenge(`${data}.${ip}`, secret)}`
+}
+
+/**
+ * Check a challenge sent with the login form
+ */
+export async function checkLoginChallenge(
+  secret: string,
+  ip: string,
+  token: string,
+  requiredMs: number
+): Promise<'ok' | 'early' | 'invalid'> {
+  const [issued, delayMs, signature] = token.split('.')
+  if (!issued || !delayMs || !signature) return 'invalid'
+
+  const expected = await signChallenge(`${issued}.${delayMs}.${ip}`, secret)
+  if (!timingSafeEqual(signature, expected)) return 'invalid'
+
+  // A challenge issued before the delay grew doesn't cover the new delay
+  const age = Date.now() - Number(issued)
+  if (Number(delayMs) < requiredMs || age > LOGIN.CHALLENGE_TTL_MS) {
+    return 'invalid'
+  }
+
+  return age >= requiredMs ? 'ok' : 'early'
+}
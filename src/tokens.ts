@@ -0,0 +1,310 @@
+import { Env, APIToken, TokenScope } from './types'
+import { escapeHTML, csrfField, timingSafeEqual } from './index'
+import { TOKENS } from './constants'
+
+export const TOKEN_SCOPES: TokenScope[] = [
+  'read',
+  'create',
+  'update',
+  'delete',
+  'admin',
+]
+
+// Issued tokens look like usk_<id>_<secret>. The id finds the stored record,
+// the secret is checked against its hash.
+const TOKEN_PATTERN = /^usk_([a-f0-9]{12})_([a-f0-9]{64})$/
+
+type TokenInfo = Omit<APIToken, 'hash'>
+
+// ========== Storage ==========
+
+/**
+ * Hex-encode random bytes
+ */
+function randomHex(bytes: number): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(bytes)))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+/**
+ * Hash a token secret with SHA-256
+ */
+async function hashSecret(secret: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(secret)
+  )
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+/**
+ * Store a token. Everything but the hash is kept as metadata for listing.
+ */
+async function storeToken(env: Env, token: APIToken): Promise<void> {
+  const { hash, ...info } = token
+  await env.URLS_KV.put(`apitoken:${token.id}`, JSON.stringify(token), {
+    metadata: info,
+  })
+}
+
+/**
+ * Issue a new token. The returned value is the only copy of the token.
+ */
+export async function issueToken(
+  env: Env,
+  options: { name: string; scopes: TokenScope[]; expiresAt?: string }
+): Promise<{ token: TokenInfo; value: string }> {
+  const id = randomHex(6)
+  const secret = randomHex(32)
+
+  const token: APIToken = {
+    id,
+    name: options.name,
+    scopes: options.scopes,
+    hash: await hashSecret(secret),
+    created: new Date().toISOString(),
+    ...(options.expiresAt ? { expiresAt: options.expiresAt } : {}),
+  }
+  await storeToken(env, token)
+
+  const { hash, ...info } = token
+  return { token: info, value: `usk_${id}_${secret}` }
+}
+
+/**
+ * List all tokens, newest first
+ */
+export async function listTokens(env: Env): Promise<TokenInfo[]> {
+  const tokens: TokenInfo[] = []
+  let cursor: string | undefined
+
+  do {
+    const list = await env.URLS_KV.list<TokenInfo>({
+      prefix: 'apitoken:',
+      cursor,
+    })
+    for (const key of list.keys) {
+      if (key.metadata) tokens.push(key.metadata)
+    }
+    cursor = list.list_complete ? undefined : list.cursor
+  } while (cursor)
+
+  return tokens.sort((a, b) => b.created.localeCompare(a.created))
+}
+
+/**
+ * Revoke a token. Returns the revoked token, or null if it did not exist.
+ */
+export async function revokeToken(
+  env: Env,
+  id: string
+): Promise<TokenInfo | null> {
+  const data = await env.URLS_KV.get(`apitoken:${id}`)
+  if (!data) return null
+
+  await env.URLS_KV.delete(`apitoken:${id}`)
+  try {
+    const { hash, ...info } = JSON.parse(data) as APIToken
+    return info
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Look up the token behind a Bearer value. Returns null if it is unknown,
+ * revoked or expired, and records when it was last used.
+ */
+export async function verifyToken(
+  env: Env,
+  value: string
+): Promise<TokenInfo | null> {
+  const match = value.match(TOKEN_PATTERN)
+  if (!match) return null
+
+  const data = await env.URLS_KV.get(`apitoken:${match[1]}`)
+  if (!data) return null
+
+  let token: APIToken
+  try {
+    token = JSON.parse(data) as APIToken
+  } catch {
+    return null
+  }
+
+  const hash = await hashSecret(match[2])
+
+  if (!timingSafeEqual(hash, token.hash)) return null
+
+  const now = Date.now()
+  if (token.expiresAt && new Date(token.expiresAt).getTime() <= now) {
+    return null
+  }
+
+  if (
+    !token.lastUsed ||
+    now - new Date(token.lastUsed).getTime() > TOKENS.LAST_USED_INTERVAL_MS
+  ) {
+    token.lastUsed = new Date(now).toISOString()
+    await storeToken(env, token)
+  }
+
+  const { hash: _, ...info } = token
+  return info
+}
+
+/**
+ * Check whether a set of scopes allows an operation. Admin allows everything.
+ */
+export function hasScope(scopes: TokenScope[], needed: TokenScope): boolean {
+  return scopes.includes('admin') || scopes.includes(needed)
+}
+
+/**
+ * Read the issue-token form. Expiry dates are inclusive.
+ */
+export function parseTokenForm(formData: FormData): {
+  name: string
+  scopes: TokenScope[]
+  expiresAt?: string
+  error?: string
+} {
+  const name = ((formData.get('name') as string) || '').trim()
+  const scopes = formData
+    .getAll('scopes')
+    .filter((scope): scope is TokenScope =>
+      TOKEN_SCOPES.includes(scope as TokenScope)
+    )
+  const expires = ((formData.get('expires') as string) || '').trim()
+
+  if (!name) {
+    return { name, scopes, error: 'Token name is required' }
+  }
+  if (name.length > TOKENS.MAX_NAME_LENGTH) {
+    return {
+      name,
+      scopes,
+      error: `Token name must be at most ${TOKENS.MAX_NAME_LENGTH} characters`,
+    }
+  }
+  if (scopes.length === 0) {
+    return { name, scopes, error: 'Choose at least one scope' }
+  }
+
+  if (!expires) return { name, scopes }
+
+  const expiresAt = new Date(`${expires}T23:59:59.999Z`)
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(expires) || isNaN(expiresAt.getTime())) {
+    return { name, scopes, error: 'Invalid expiry date' }
+  }
+  if (expiresAt.getTime() <= Date.now()) {
+    return { name, scopes, error: 'Expiry date must be in the future' }
+  }
+
+  return { name, scopes, expiresAt: expiresAt.toISOString() }
+}
+
+// ========== Tokens Page ==========
+
+/**
+ * Render the API tokens page. A newly issued token is shown once.
+ */
+export function renderTokensPage(
+  tokens: TokenInfo[],
+  csrfToken: string,
+  message?: { type: 'success' | 'error'; text: string },
+  issued?: { token: TokenInfo; value: string }
+): string {
+  const date = (iso?: string) => (iso ? escapeHTML(iso.split('T')[0]) : '')
+  const isExpired = (token: TokenInfo) =>
+    !!token.expiresAt && new Date(token.expiresAt).getTime() <= Date.now()
+
+  return `<!DOCTYPE html>
+<html lang="en" data-theme="dark">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>API Tokens - URL Shortener Admin</title>
+    <link rel="stylesheet" href="https://unpkg.com/@picocss/pico@1.5.10/css/pico.min.css">
+    <style>
+        :root { --pico-font-size: 90%; }
+        body { position: relative; font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif; padding-top: 2rem; }
+        .container { max-width: 800px; }
+        .issued code { display: block; word-break: break-all; padding: 0.75rem; margin: 0.5rem 0; }
+        .scopes { display: flex; flex-wrap: wrap; gap: 1rem; }
+        .scopes label { margin: 0; }
+        .url-card { display: grid; grid-template-columns: 1fr auto; gap: 1rem; align-items: center; padding: 0.75rem 1rem; border-radius: var(--pico-border-radius); margin-bottom: 0.5rem; border: 1px solid var(--pico-form-element-border-color); }
+        .url-info small { display: block; font-size: 0.8rem; color: var(--pico-muted-color); }
+        .url-card form { margin: 0; }
+        .url-card button { --pico-font-size: 0.8rem; padding: 0.25rem 0.6rem; margin: 0; width: auto; }
+        .expired { color: var(--pico-del-color); }
+    </style>
+</head>
+<body>
+    <main class="container">
+        <h2>API Tokens</h2>
+        ${
+          message
+            ? `<div class="message ${message.type}">${escapeHTML(message.text)}</div>`
+            : ''
+        }
+        ${
+          issued
+            ? `<article class="issued">
+            <strong>Token "${escapeHTML(issued.token.name)}" created</strong>
+            <code>${escapeHTML(issued.value)}</code>
+            <small>Copy it now. It is stored hashed and will not be shown again.</small>
+        </article>`
+            : ''
+        }
+
+        <form method="post" action="/admin/tokens">
+            ${csrfField(csrfToken)}
+            <div class="grid">
+                <input type="text" name="name" placeholder="Name (e.g. Chrome extension)" maxlength="${TOKENS.MAX_NAME_LENGTH}" required aria-label="Name">
+                <input type="date" name="expires" aria-label="Expires (optional)" title="Expires (optional)">
+            </div>
+            <fieldset class="scopes">
+                ${TOKEN_SCOPES.map(
+                  (scope) =>
+                    `<label><input type="checkbox" name="scopes" value="${scope}"${scope === 'read' ? ' checked' : ''}> ${scope}</label>`
+                ).join('\n                ')}
+            </fieldset>
+            <button type="submit">Create token</button>
+        </form>
+
+        ${
+          tokens.length > 0
+            ? tokens
+                .map(
+                  (token) => `
+        <div class="url-card">
+            <div class="url-info">
+                <strong>${escapeHTML(token.name)}</strong>
+                <small>${escapeHTML(token.scopes.join(', '))}</small>
+                <small>Created ${date(token.created)} &middot; ${
+                  token.lastUsed ? `last used ${date(token.lastUsed)}` : 'never used'
+                }${
+                  token.expiresAt
+                    ? ` &middot; <span${isExpired(token) ? ' class="expired"' : ''}>${isExpired(token) ? 'expired' : 'expires'} ${date(token.expiresAt)}</span>`
+                    : ''
+                }</small>
+            </div>
+            <form method="post" action="/admin/tokens/${escapeHTML(token.id)}/revoke" onsubmit="return confirm('Revoke this token? Anything using it will stop working.');">
+                ${csrfField(csrfToken)}
+                <button type="submit" class="outline contrast">Revoke</button>
+            </form>
+        </div>`
+                )
+                .join('')
+            : '<p>No API tokens yet. The API_SECRET still works as a master token, unless two-factor authentication is on for it.</p>'
+        }
+
+        <a href="/admin" role="button" class="outline">Back to admin</a>
+    </main>
+</body>
+</html>`
+}
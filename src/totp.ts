@@ -0,0 +1,431 @@
+import qrcode from 'qrcode-generator'
+import { Env, TwoFactorConfig } from './types'
+import { escapeHTML, csrfField, timingSafeEqual } from './index'
+import { TOTP } from './constants'
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+
+// ========== Codes ==========
+
+/**
+ * Hex-encode bytes
+ */
+function toHex(bytes: ArrayBuffer | Uint8Array): string {
+  return Array.from(new Uint8Array(bytes))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+/**
+ * Encode bytes as unpadded base32 (RFC 4648)
+ */
+function base32Encode(bytes: Uint8Array): string {
+  let bits = 0
+  let value = 0
+  let output = ''
+
+  for (const byte of bytes) {
+    value = (value << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  }
+
+  return output
+}
+
+/**
+ * Decode base32, ignoring case, spaces and padding
+ */
+function base32Decode(input: string): Uint8Array {
+  const clean = input.toUpperCase().replace(/[\s=]/g, '')
+  const bytes: number[] = []
+  let bits = 0
+  let value = 0
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char)
+    if (index === -1) throw new Error('Invalid base32 secret')
+    value = (value << 5) | index
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255)
+      bits -= 8
+    }
+  }
+
+  return new Uint8Array(bytes)
+}
+
+/**
+ * Compute the HOTP code for a counter (RFC 4226)
+ */
+async function hotp(secret: Uint8Array, counter: number): Promise<string> {
+  const message = new DataView(new ArrayBuffer(8))
+  message.setUint32(0, Math.floor(counter / 2 ** 32))
+  message.setUint32(4, counter >>> 0)
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    secret,
+    { name: 'HMAC', hash: 'SHA-1' },
+    false,
+    ['sign']
+  )
+  const mac = new Uint8Array(await crypto.subtle.sign('HMAC', key, message))
+
+  // Dynamic truncation
+  const offset = mac[mac.length - 1] & 0xf
+  const binary =
+    ((mac[offset] & 0x7f) << 24) |
+    (mac[offset + 1] << 16) |
+    (mac[offset + 2] << 8) |
+    mac[offset + 3]
+
+  return String(binary % 10 ** TOTP.DIGITS).padStart(TOTP.DIGITS, '0')
+}
+
+/**
+ * Compute the TOTP code for a base32 secret at a point in time (RFC 6238)
+ */
+export async function generateTOTP(
+  secret: string,
+  now: number = Date.now()
+): Promise<string> {
+  return hotp(
+    base32Decode(secret),
+    Math.floor(now / 1000 / TOTP.PERIOD_SECONDS)
+  )
+}
+
+/**
+ * Check a TOTP code, allowing for clock drift. Returns the matching time
+ * step, or null. Steps at or before lastStep are refused so a code can only
+ * be used once.
+ */
+export async function verifyTOTP(
+  secret: string,
+  code: string,
+  lastStep: number = -1,
+  now: number = Date.now()
+): Promise<number | null> {
+  if (!new RegExp(`^\\d{${TOTP.DIGITS}}$`).test(code)) return null
+
+  const key = base32Decode(secret)
+  const current = Math.floor(now / 1000 / TOTP.PERIOD_SECONDS)
+  for (let step = current - TOTP.WINDOW; step <= current + TOTP.WINDOW; step++) {
+    if (step <= lastStep) continue
+    if (timingSafeEqual(await hotp(key, step), code)) return step
+  }
+
+  return null
+}
+
+/**
+ * Build the otpauth:// URI that authenticator apps read from the QR code
+ */
+export function getOtpauthURI(
+  secret: string,
+  account: string,
+  issuer: string
+): string {
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(account)}`
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP.DIGITS),
+    period: String(TOTP.PERIOD_SECONDS),
+  })
+  return `otpauth://totp/${label}?${params.toString()}`
+}
+
+/**
+ * Render text as a QR code SVG
+ */
+export function renderQRCode(text: string): string {
+  const qr = qrcode(0, 'M')
+  qr.addData(text)
+  qr.make()
+  return qr.createSvgTag({ cellSize: 4, margin: 4, scalable: true })
+}
+
+// ========== Recovery Codes ==========
+
+/**
+ * Normalise a recovery code as typed and hash it for storage
+ */
+async function hashRecoveryCode(code: string): Promise<string> {
+  const normalised = code.toLowerCase().replace(/[^a-f0-9]/g, '')
+  return toHex(
+    await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalised))
+  )
+}
+
+/**
+ * Create a fresh set of recovery codes. Returns the codes and their hashes.
+ */
+async function generateRecoveryCodes(): Promise<{
+  codes: string[]
+  hashes: string[]
+}> {
+  const codes = Array.from({ length: TOTP.RECOVERY_CODES }, () => {
+    const hex = toHex(crypto.getRandomValues(new Uint8Array(5)))
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`
+  })
+  return { codes, hashes: await Promise.all(codes.map(hashRecoveryCode)) }
+}
+
+// ========== Storage ==========
+
+/**
+ * Get a user's two-factor settings
+ */
+export async function getTwoFactor(
+  env: Env,
+  userId: string
+): Promise<TwoFactorConfig | null> {
+  const data = await env.URLS_KV.get(`totp:${userId}`)
+  if (!data) return null
+
+  try {
+    return JSON.parse(data) as TwoFactorConfig
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Check whether a user has to enter a code when signing in
+ */
+export async function isTwoFactorEnabled(
+  env: Env,
+  userId: string
+): Promise<boolean> {
+  return (await getTwoFactor(env, userId))?.enabled === true
+}
+
+/**
+ * Start enrolment with a new secret, or continue one already started. The
+ * pending secret expires unless enrolment is finished in time.
+ */
+export async function startEnrolment(
+  env: Env,
+  userId: string
+): Promise<TwoFactorConfig> {
+  const existing = await getTwoFactor(env, userId)
+  if (existing) return existing
+
+  const config: TwoFactorConfig = {
+    secret: base32Encode(crypto.getRandomValues(new Uint8Array(20))),
+    enabled: false,
+    recoveryCodes: [],
+    created: new Date().toISOString(),
+  }
+  await env.URLS_KV.put(`totp:${userId}`, JSON.stringify(config), {
+    expirationTtl: TOTP.ENROLMENT_SECONDS,
+  })
+  return config
+}
+
+/**
+ * Finish enrolment once the first code from the app checks out.
+ * Returns the recovery codes, which are only ever shown this once.
+ */
+export async function enableTwoFactor(
+  env: Env,
+  userId: string,
+  code: string
+): Promise<string[]> {
+  const config = await getTwoFactor(env, userId)
+  if (!config || config.enabled) {
+    throw new Error('Two-factor authentication is not being set up')
+  }
+
+  const step = await verifyTOTP(config.secret, code.replace(/\s/g, ''))
+  if (step === null) {
+    throw new Error('Invalid code. Check the time on your device and try again.')
+  }
+
+  const { codes, hashes } = await generateRecoveryCodes()
+  await env.URLS_KV.put(
+    `totp:${userId}`,
+    JSON.stringify({
+      ...config,
+      enabled: true,
+      recoveryCodes: hashes,
+      lastStep: step,
+    })
+  )
+  return codes
+}
+
+/**
+ * Check a code typed at login: an app code or an unused recovery code.
+ * Accepted codes can't be used again.
+ */
+export async function checkTwoFactorCode(
+  env: Env,
+  userId: string,
+  code: string
+): Promise<'totp' | 'recovery' | null> {
+  const config = await getTwoFactor(env, userId)
+  if (!config?.enabled) return null
+
+  const trimmed = code.replace(/\s/g, '')
+  const step = await verifyTOTP(config.secret, trimmed, config.lastStep)
+  if (step !== null) {
+    await env.URLS_KV.put(
+      `totp:${userId}`,
+      JSON.stringify({ ...config, lastStep: step })
+    )
+    return 'totp'
+  }
+
+  const hash = await hashRecoveryCode(trimmed)
+  const index = config.recoveryCodes.findIndex((stored) =>
+    timingSafeEqual(stored, hash)
+  )
+  if (index === -1) return null
+
+  config.recoveryCodes.splice(index, 1)
+  await env.URLS_KV.put(`totp:${userId}`, JSON.stringify(config))
+  return 'recovery'
+}
+
+/**
+ * Replace a user's recovery codes, returning the new ones
+ */
+export async function regenerateRecoveryCodes(
+  env: Env,
+  userId: string
+): Promise<string[]> {
+  const config = await getTwoFactor(env, userId)
+  if (!config?.enabled) {
+    throw new Error('Two-factor authentication is not enabled')
+  }
+
+  const { codes, hashes } = await generateRecoveryCodes()
+  await env.URLS_KV.put(
+    `totp:${userId}`,
+    JSON.stringify({ ...config, recoveryCodes: hashes })
+  )
+  return codes
+}
+
+/**
+ * Turn two-factor authentication off (or abandon enrolment)
+ */
+export async function disableTwoFactor(
+  env: Env,
+  userId: string
+): Promise<void> {
+  await env.URLS_KV.delete(`totp:${userId}`)
+}
+
+// ========== Two-Factor Page ==========
+
+/**
+ * Render the two-factor settings page: a button to start enrolment, the QR
+ * code while it is under way, or the current status. New recovery codes are
+ * shown once.
+ */
+export function renderTwoFactorPage(options: {
+  config: TwoFactorConfig | null
+  uri?: string
+  recoveryCodes?: string[]
+  isMaster?: boolean // Signed in with API_SECRET, which two-factor stops working as a Bearer token
+  csrfToken: string
+  message?: { type: 'success' | 'error'; text: string }
+}): string {
+  const { config, uri, recoveryCodes, isMaster, csrfToken, message } = options
+
+  const masterKeyNote = isMaster
+    ? `<p><small>While two-factor authentication is on, API_SECRET no longer works as a Bearer token. Use <a href="/admin/tokens">API tokens</a> for scripts and integrations.</small></p>`
+    : ''
+
+  const codeInput = `<input type="text" name="code" inputmode="numeric" autocomplete="one-time-code" placeholder="Code from your app" required aria-label="Code">`
+
+  return `<!DOCTYPE html>
+<html lang="en" data-theme="dark">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Two-Factor Authentication - URL Shortener Admin</title>
+    <link rel="stylesheet" href="https://unpkg.com/@picocss/pico@1.5.10/css/pico.min.css">
+    <style>
+        :root { --pico-font-size: 90%; }
+        body { position: relative; font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif; padding-top: 2rem; }
+        .container { max-width: 600px; }
+        .qr { background: #fff; padding: 0.5rem; width: 220px; border-radius: var(--pico-border-radius); }
+        .qr svg { display: block; width: 100%; height: auto; }
+        .secret { word-break: break-all; }
+        .recovery-codes { columns: 2; font-family: monospace; list-style: none; padding: 0; }
+    </style>
+</head>
+<body>
+    <main class="container">
+        <h2>Two-Factor Authentication</h2>
+        ${
+          message
+            ? `<div class="message ${message.type}">${escapeHTML(message.text)}</div>`
+            : ''
+        }
+        ${
+          recoveryCodes
+            ? `<article>
+            <strong>Recovery codes</strong>
+            <p><small>Each code signs you in once if you lose your device. Store them somewhere safe: they will not be shown again.</small></p>
+            <ul class="recovery-codes">
+                ${recoveryCodes.map((code) => `<li>${escapeHTML(code)}</li>`).join('\n                ')}
+            </ul>
+        </article>`
+            : ''
+        }
+        ${
+          !config || !uri
+            ? `<p>Two-factor authentication is <strong>off</strong>. Set it up to require a code from an authenticator app after your password.</p>
+        ${masterKeyNote}
+
+        <form method="post" action="/admin/2fa/start">
+            ${csrfField(csrfToken)}
+            <button type="submit">Set up two-factor authentication</button>
+        </form>`
+            : config.enabled
+              ? `<p>Two-factor authentication is <strong>on</strong>. ${config.recoveryCodes.length} recovery codes left.</p>
+        ${masterKeyNote}
+
+        <form method="post" action="/admin/2fa/recovery-codes">
+            ${csrfField(csrfToken)}
+            <label>New recovery codes ${codeInput}</label>
+            <button type="submit" class="secondary">Replace recovery codes</button>
+        </form>
+
+        <form method="post" action="/admin/2fa/disable" onsubmit="return confirm('Turn off two-factor authentication?');">
+            ${csrfField(csrfToken)}
+            <label>Turn off ${codeInput}</label>
+            <button type="submit" class="outline contrast">Turn off two-factor authentication</button>
+        </form>`
+              : `<p>Scan this QR code with an authenticator app, then enter the code it shows to turn on two-factor authentication.</p>
+        <div class="qr">${renderQRCode(uri)}</div>
+        <p><small>Can't scan it? Enter this key instead:</small><br>
+            <code class="secret">${escapeHTML(config.secret)}</code></p>
+        <p><small><a href="${escapeHTML(uri)}">${escapeHTML(uri)}</a></small></p>
+
+        <form method="post" action="/admin/2fa/enable">
+            ${csrfField(csrfToken)}
+            ${codeInput}
+            <button type="submit">Turn on</button>
+        </form>`
+        }
+
+        <a href="/admin" role="button" class="outline">Back to admin</a>
+    </main>
+</body>
+</html>`
+}
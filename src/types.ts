@@ -2,6 +2,47 @@ export interface Env {
   URLS_KV: KVNamespace;
   API_SECRET: string;
   DOMAIN: string;
+  FALLBACK_URL?: string;
+  TRASH_RETENTION_DAYS?: string;
+  DEFAULT_REDIRECT_TYPE?: string;
+}
+
+export type RedirectType = 301 | 302 | 307 | 308;
+
+// How incoming query parameters are merged into the destination when a key
+// is in both: the visitor's value wins, the destination's wins, or both stay
+export type QueryPassthrough = 'incoming' | 'destination' | 'both';
+
+// Values for the utm_* parameters, without the prefix
+export interface UTMParams {
+  source?: string;
+  medium?: string;
+  campaign?: string;
+  content?: string;
+  term?: string;
+}
+
+export interface UTMTemplate {
+  name: string;
+  params: UTMParams;
+  created: string;
+}
+
+// Sends matching visitors to another destination. Each condition lists the
+// values it accepts; a rule matches when all of its conditions do.
+export interface TargetingRule {
+  url: string;
+  os?: string[]; // As classified for stats, e.g. iOS, Android
+  browser?: string[];
+  country?: string[]; // ISO codes, e.g. US
+  language?: string[]; // Compared with the visitor's preferred language
+}
+
+// One destination of an A/B link. Visitors are split by weight.
+export interface Variant {
+  name: string;
+  weight: number;
+  url: string;
 }
 
 export interface URLRecord {
@@ -14,9 +55,297 @@ export interface URLRecord {
     description?: string;
     image?: string;
   };
+  activatesAt?: string;
+  expiresAt?: string;
+  maxClicks?: number; // Approximate under bursts (see incrementClickCounter); bots don't count
+  fallbackUrl?: string;
+  aliases?: string[];
+  tags?: string[];
+  deletedAt?: string;
+  createdBy?: string;
+  passwordHash?: string; // Visitors must enter the passphrase to be redirected
+  redirectType?: RedirectType; // The site default when unset
+  queryPassthrough?: QueryPassthrough; // Query strings are dropped when unset
+  prefix?: boolean; // /{slug}/rest/of/path appends the rest to the destination
+  utm?: UTMParams; // Added to the destination at redirect time
+  targets?: TargetingRule[]; // Checked in order; url is the fallback
+  variants?: Variant[]; // Split when no target matches; crawlers get url
+}
+
+export interface AliasRecord {
+  alias: string;
+  slug: string;
+  created: string;
+}
+
+export interface IndexMeta {
+  version: number;
+  shards: number;
+  count: number;
+  rebuiltAt: string;
+}
+
+export interface IndexRebuild {
+  cursor?: string; // KV list cursor for the next page
+  after: string; // Last slug covered so far, '' before the first page
+  count: number;
+  startedAt: string;
 }
 
 export interface RateLimitInfo {
   count: number;
   resetTime: number;
-}
\ No newline at end of file
+}
+
+export interface UserAgentClass {
+  device: 'desktop' | 'mobile' | 'tablet' | 'bot';
+  browser: string;
+  os: string;
+}
+
+export interface ClickEvent {
+  timestamp: string;
+  ipHash: string;
+  referrer: string;
+  country: string;
+  agent: UserAgentClass;
+  alias?: string;
+  variant?: string;
+}
+
+export interface ClickCounter {
+  total: number;
+  daily: Record<string, number>;
+}
+
+export interface ClickMove {
+  to: string; // Slug the events were renamed to; later renames are followed through its alias
+  queuedAt: string;
+}
+
+export interface ClickSummary {
+  total: number;
+  recent: number;
+}
+
+
+export interface StatsBucket {
+  name: string;
+  count: number;
+}
+
+export interface LinkStats {
+  slug: string;
+  total: number;
+  recent: number;
+  daily: StatsBucket[];
+  referrers: StatsBucket[];
+  countries: StatsBucket[];
+  devices: StatsBucket[];
+  browsers: StatsBucket[];
+  audience: StatsBucket[];
+  aliases: StatsBucket[];
+  variants: StatsBucket[];
+  partial: boolean; // Breakdowns cover only the first CLICKS.STATS_MAX_PAGES pages of events
+}
+
+
+export interface URLQuery {
+  q?: string;
+  domain?: string;
+  tag?: string;
+  campaign?: string;
+  group?: 'campaign';
+  from?: string;
+  to?: string;
+  sort: 'created' | 'updated' | 'clicks';
+  order: 'asc' | 'desc';
+  limit: number;
+  offset: number;
+}
+
+export interface URLQueryResult {
+  items: URLRecord[];
+  clicks: Record<string, ClickSummary>;
+  total: number;
+  cursor: string | null;
+}
+
+export type ImportFormat = 'json' | 'csv' | 'bitly' | 'shlink';
+
+export type ConflictPolicy = 'skip' | 'overwrite' | 'suffix';
+
+export interface ImportEntry {
+  url: string;
+  slug?: string;
+  created?: string;
+  updated?: string;
+  title?: string;
+  metadata?: URLRecord['metadata'];
+  tags?: string[] | string;
+  aliases?: string[];
+  activatesAt?: string;
+  expiresAt?: string;
+  maxClicks?: number | string;
+  fallbackUrl?: string;
+  createdBy?: string;
+  passwordHash?: string;
+  protected?: boolean;
+  redirectType?: number | string;
+  queryPassthrough?: string;
+  prefix?: boolean | string;
+  utm?: UTMParams;
+  targets?: TargetingRule[];
+  variants?: Variant[];
+}
+
+export interface ImportRow {
+  row: number;
+  url: string;
+  slug: string | null;
+  requestedSlug?: string;
+  action: 'created' | 'overwritten' | 'skipped' | 'failed';
+  reason?: string;
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  format: ImportFormat;
+  conflict: ConflictPolicy;
+  summary: {
+    created: number;
+    overwritten: number;
+    skipped: number;
+    failed: number;
+  };
+  rows: ImportRow[];
+}
+
+export type ExportFormat = 'json' | 'ndjson' | 'csv' | 'html';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  metadata: boolean;
+  clicks: boolean;
+  secrets: boolean; // Keep passphrase hashes, for full JSON backups
+}
+
+export interface Actor {
+  type: 'session' | 'api-key' | 'anonymous';
+  name: string;
+}
+
+export type UserRole = 'admin' | 'editor' | 'viewer';
+
+export interface User {
+  id: string;
+  username: string;
+  role: UserRole;
+  passwordHash: string; // pbkdf2$<iterations>$<salt>$<hash>, all hex
+  created: string;
+  lastLogin?: string;
+}
+
+export interface LoginLockout {
+  ip: string;
+  level: number; // Lockouts so far; each one lasts twice as long as the last
+  until: number;
+}
+
+export interface SessionRecord {
+  id: string;
+  userId: string;
+  created: string;
+  lastSeen: string;
+  ip: string;
+  userAgent: string;
+}
+
+export interface TwoFactorConfig {
+  secret: string; // Base32, as shown to authenticator apps
+  enabled: boolean; // False until the first code is confirmed
+  recoveryCodes: string[]; // SHA-256 hashes of the unused codes
+  lastStep?: number; // Last accepted time step, so codes can't be replayed
+  created: string;
+}
+
+export type TokenScope = 'read' | 'create' | 'update' | 'delete' | 'admin';
+
+export interface APIToken {
+  id: string;
+  name: string;
+  scopes: TokenScope[];
+  hash: string; // SHA-256 of the secret part; the token itself is never stored
+  created: string;
+  expiresAt?: string;
+  lastUsed?: string;
+}
+
+export type RevisionAction =
+  | 'create'
+  | 'update'
+  | 'rename'
+  | 'alias'
+  | 'delete'
+  | 'restore'
+  | 'revert'
+  | 'import';
+
+export interface FieldChange {
+  before?: unknown;
+  after?: unknown;
+  changed?: true; // Set instead of before/after for secrets like the passphrase
+}
+
+export interface Revision {
+  id: number;
+  timestamp: string;
+  actor: Actor;
+  action: RevisionAction;
+  changes: Record<string, FieldChange>;
+  revertedTo?: number;
+}
+
+export type AuditAction =
+  | 'login'
+  | 'logout'
+  | 'create'
+  | 'update'
+  | 'rename'
+  | 'alias'
+  | 'revert'
+  | 'delete'
+  | 'restore'
+  | 'purge'
+  | 'import'
+  | 'issue-token'
+  | 'revoke-token'
+  | 'create-user'
+  | 'update-user'
+  | 'delete-user'
+  | 'two-factor'
+  | 'revoke-session'
+  | 'save-utm-template'
+  | 'delete-utm-template'
+  | 'rate-limit';
+
+export type AuditOutcome = 'success' | 'failure' | 'denied';
+
+export interface AuditEntry {
+  timestamp: string;
+  action: AuditAction;
+  outcome: AuditOutcome;
+  actor: Actor;
+  ip: string;
+  userAgent: string;
+  target?: string;
+  detail?: string;
+}
+
+export interface AuditFilter {
+  action?: AuditAction;
+  outcome?: AuditOutcome;
+  actor?: Actor['type'];
+  from?: string;
+  to?: string;
+}
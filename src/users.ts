@@ -0,0 +1,343 @@
+import { Env, User, UserRole, TokenScope } from './types'
+import { escapeHTML, csrfField, timingSafeEqual } from './index'
+import { USERS } from './constants'
+
+export const USER_ROLES: UserRole[] = ['admin', 'editor', 'viewer']
+
+// What each role may do, in terms of API token scopes
+export const ROLE_SCOPES: Record<UserRole, TokenScope[]> = {
+  admin: ['admin'],
+  editor: ['read', 'create', 'update', 'delete'],
+  viewer: ['read'],
+}
+
+type UserInfo = Omit<User, 'passwordHash'>
+
+// ========== Passwords ==========
+
+/**
+ * Hex-encode bytes
+ */
+function toHex(bytes: ArrayBuffer | Uint8Array): string {
+  return Array.from(new Uint8Array(bytes))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+/**
+ * Derive a PBKDF2-SHA-256 hash of a password
+ */
+async function derive(
+  password: string,
+  salt: Uint8Array,
+  iterations: number
+): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  )
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    key,
+    256
+  )
+  return toHex(bits)
+}
+
+/**
+ * Hash a password for storage. The iteration count and salt are kept with
+ * the hash so the cost can be raised later without breaking old hashes.
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16))
+  const iterations = USERS.PBKDF2_ITERATIONS
+  return `pbkdf2$${iterations}$${toHex(salt)}$${await derive(password, salt, iterations)}`
+}
+
+/**
+ * Check a password against a stored hash
+ */
+export async function verifyPassword(
+  password: string,
+  passwordHash: string
+): Promise<boolean> {
+  const [scheme, iterations, salt, hash] = passwordHash.split('$')
+  if (scheme !== 'pbkdf2' || !salt || !hash) return false
+
+  const saltBytes = new Uint8Array(
+    (salt.match(/../g) || []).map((byte) => parseInt(byte, 16))
+  )
+  const derived = await derive(password, saltBytes, parseInt(iterations))
+  return timingSafeEqual(derived, hash)
+}
+
+// ========== Storage ==========
+
+/**
+ * Store a user, with everything but the password hash as metadata for
+ * listing, and a lookup from the username to the id
+ */
+async function storeUser(env: Env, user: User): Promise<void> {
+  const { passwordHash, ...info } = user
+  await env.URLS_KV.put(`user:${user.id}`, JSON.stringify(user), {
+    metadata: info,
+  })
+  await env.URLS_KV.put(`username:${user.username.toLowerCase()}`, user.id)
+}
+
+/**
+ * Get a user by id
+ */
+export async function getUser(env: Env, id: string): Promise<User | null> {
+  const data = await env.URLS_KV.get(`user:${id}`)
+  if (!data) return null
+
+  try {
+    return JSON.parse(data) as User
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Get a user by username (case-insensitive)
+ */
+export async function findUser(
+  env: Env,
+  username: string
+): Promise<User | null> {
+  const id = await env.URLS_KV.get(`username:${username.toLowerCase()}`)
+  return id ? getUser(env, id) : null
+}
+
+/**
+ * List all users by username
+ */
+export async function listUsers(env: Env): Promise<UserInfo[]> {
+  const users: UserInfo[] = []
+  let cursor: string | undefined
+
+  do {
+    const list = await env.URLS_KV.list<UserInfo>({ prefix: 'user:', cursor })
+    for (const key of list.keys) {
+      if (key.metadata) users.push(key.metadata)
+    }
+    cursor = list.list_complete ? undefined : list.cursor
+  } while (cursor)
+
+  return users.sort((a, b) => a.username.localeCompare(b.username))
+}
+
+/**
+ * Check a new password against the minimum length
+ */
+function validatePassword(password: string): void {
+  if (password.length < USERS.MIN_PASSWORD_LENGTH) {
+    throw new Error(
+      `Password must be at least ${USERS.MIN_PASSWORD_LENGTH} characters`
+    )
+  }
+}
+
+/**
+ * Create a user account
+ */
+export async function createUser(
+  env: Env,
+  options: { username: string; password: string; role: UserRole }
+): Promise<UserInfo> {
+  const username = options.username.trim()
+  if (
+    !/^[a-z0-9][a-z0-9._-]*$/i.test(username) ||
+    username.length > USERS.MAX_USERNAME_LENGTH
+  ) {
+    throw new Error(
+      `Username must be up to ${USERS.MAX_USERNAME_LENGTH} letters, numbers, dots, dashes or underscores`
+    )
+  }
+  if (!USER_ROLES.includes(options.role)) {
+    throw new Error('Invalid role')
+  }
+  validatePassword(options.password)
+
+  if (await findUser(env, username)) {
+    throw new Error('Username is already taken')
+  }
+
+  const user: User = {
+    id: toHex(crypto.getRandomValues(new Uint8Array(6))),
+    username,
+    role: options.role,
+    passwordHash: await hashPassword(options.password),
+    created: new Date().toISOString(),
+  }
+  await storeUser(env, user)
+
+  const { passwordHash, ...info } = user
+  return info
+}
+
+/**
+ * Change a user's role or password
+ */
+export async function updateUser(
+  env: Env,
+  id: string,
+  updates: { role?: UserRole; password?: string }
+): Promise<UserInfo> {
+  const user = await getUser(env, id)
+  if (!user) {
+    throw new Error('User not found')
+  }
+
+  if (updates.role) {
+    if (!USER_ROLES.includes(updates.role)) {
+      throw new Error('Invalid role')
+    }
+    user.role = updates.role
+  }
+  if (updates.password) {
+    validatePassword(updates.password)
+    user.passwordHash = await hashPassword(updates.password)
+  }
+  await storeUser(env, user)
+
+  const { passwordHash, ...info } = user
+  return info
+}
+
+/**
+ * Delete a user account. Links they created keep their createdBy.
+ */
+export async function deleteUser(
+  env: Env,
+  id: string
+): Promise<UserInfo | null> {
+  const user = await getUser(env, id)
+  if (!user) return null
+
+  await env.URLS_KV.delete(`user:${id}`)
+  await env.URLS_KV.delete(`username:${user.username.toLowerCase()}`)
+
+  const { passwordHash, ...info } = user
+  return info
+}
+
+/**
+ * Check a username and password, recording the login time on success
+ */
+export async function authenticateUser(
+  env: Env,
+  username: string,
+  password: string
+): Promise<User | null> {
+  const user = await findUser(env, username)
+  if (!user) {
+    // Hash anyway so unknown usernames take as long as wrong passwords
+    await hashPassword(password)
+    return null
+  }
+
+  if (!(await verifyPassword(password, user.passwordHash))) return null
+
+  user.lastLogin = new Date().toISOString()
+  await storeUser(env, user)
+  return user
+}
+
+// ========== Users Page ==========
+
+/**
+ * Render the user management page
+ */
+export function renderUsersPage(
+  users: UserInfo[],
+  currentUserId: string,
+  csrfToken: string,
+  message?: { type: 'success' | 'error'; text: string }
+): string {
+  const roleOptions = (selected?: UserRole) =>
+    USER_ROLES.map(
+      (role) =>
+        `<option value="${role}"${role === selected ? ' selected' : ''}>${role}</option>`
+    ).join('')
+
+  return `<!DOCTYPE html>
+<html lang="en" data-theme="dark">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Users - URL Shortener Admin</title>
+    <link rel="stylesheet" href="https://unpkg.com/@picocss/pico@1.5.10/css/pico.min.css">
+    <style>
+        :root { --pico-font-size: 90%; }
+        body { position: relative; font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif; padding-top: 2rem; }
+        .container { max-width: 800px; }
+        .url-card { display: grid; grid-template-columns: 1fr auto; gap: 1rem; align-items: center; padding: 0.75rem 1rem; border-radius: var(--pico-border-radius); margin-bottom: 0.5rem; border: 1px solid var(--pico-form-element-border-color); }
+        .url-info small { display: block; font-size: 0.8rem; color: var(--pico-muted-color); }
+        .url-actions { display: flex; gap: 0.5rem; align-items: center; }
+        .url-actions form { display: flex; gap: 0.5rem; margin: 0; }
+        .url-actions select, .url-actions input { --pico-font-size: 0.8rem; padding: 0.25rem 0.6rem; margin: 0; height: auto; }
+        .url-actions button { --pico-font-size: 0.8rem; padding: 0.25rem 0.6rem; margin: 0; width: auto; }
+    </style>
+</head>
+<body>
+    <main class="container">
+        <h2>Users</h2>
+        ${
+          message
+            ? `<div class="message ${message.type}">${escapeHTML(message.text)}</div>`
+            : ''
+        }
+        <p><small>Admins manage users, tokens and the audit log. Editors manage links. Viewers can only look. Signing in with the API_SECRET alone still gives admin access.</small></p>
+
+        <form method="post" action="/admin/users">
+            ${csrfField(csrfToken)}
+            <div class="grid">
+                <input type="text" name="username" placeholder="Username" maxlength="${USERS.MAX_USERNAME_LENGTH}" required aria-label="Username">
+                <input type="password" name="password" placeholder="Password" minlength="${USERS.MIN_PASSWORD_LENGTH}" required aria-label="Password" autocomplete="new-password">
+                <select name="role" aria-label="Role">${roleOptions('editor')}</select>
+            </div>
+            <button type="submit">Add user</button>
+        </form>
+
+        ${
+          users.length > 0
+            ? users
+                .map(
+                  (user) => `
+        <div class="url-card">
+            <div class="url-info">
+                <strong>${escapeHTML(user.username)}</strong>${user.id === currentUserId ? ' (you)' : ''}
+                <small>${user.role} &middot; created ${escapeHTML(user.created.split('T')[0])} &middot; ${
+                  user.lastLogin
+                    ? `last signed in ${escapeHTML(user.lastLogin.split('T')[0])}`
+                    : 'never signed in'
+                }</small>
+            </div>
+            <div class="url-actions">
+                <form method="post" action="/admin/users/${escapeHTML(user.id)}/update">
+                    ${csrfField(csrfToken)}
+                    <select name="role" aria-label="Role">${roleOptions(user.role)}</select>
+                    <input type="password" name="password" placeholder="New password" aria-label="New password" autocomplete="new-password">
+                    <button type="submit" class="secondary">Save</button>
+                </form>
+                <form method="post" action="/admin/users/${escapeHTML(user.id)}/delete" onsubmit="return confirm('Delete this user?');">
+                    ${csrfField(csrfToken)}
+                    <button type="submit" class="outline contrast">Delete</button>
+                </form>
+            </div>
+        </div>`
+                )
+                .join('')
+            : '<p>No user accounts yet.</p>'
+        }
+
+        <a href="/admin" role="button" class="outline">Back to admin</a>
+    </main>
+</body>
+</html>`
+}
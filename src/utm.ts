@@ -0,0 +1,294 @@
+import { Env, UTMParams, UTMTemplate } from './types'
+import { escapeHTML, csrfField } from './index'
+import { UTM } from './constants'
+
+// A link's UTM parameters are stored apart from its destination and added at
+// redirect time, so a campaign can be retagged without editing the URL.
+// Templates are named sets of parameters copied onto new links.
+
+export const UTM_FIELDS: (keyof UTMParams)[] = [
+  'source',
+  'medium',
+  'campaign',
+  'content',
+  'term',
+]
+
+// ========== Parameters ==========
+
+/**
+ * Read a set of UTM parameters, keyed with or without the utm_ prefix.
+ * Undefined leaves a link's parameters alone, null or an empty set removes
+ * them.
+ */
+export function parseUTMParams(input: unknown): {
+  utm?: UTMParams | null
+  error?: string
+} {
+  if (input === undefined) return {}
+  if (input === null) return { utm: null }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { error: 'utm must be an object' }
+  }
+
+  const utm: UTMParams = {}
+  for (const [key, value] of Object.entries(input)) {
+    const field = key.replace(/^utm_/, '') as keyof UTMParams
+    if (!UTM_FIELDS.includes(field)) {
+      return { error: `Unknown UTM parameter: ${key}` }
+    }
+    if (value === null || value === undefined) continue
+    if (typeof value !== 'string' || value.trim().length > UTM.MAX_VALUE_LENGTH) {
+      return {
+        error: `utm_${field} must be text of at most ${UTM.MAX_VALUE_LENGTH} characters`,
+      }
+    }
+    if (value.trim()) utm[field] = value.trim()
+  }
+
+  return { utm: Object.keys(utm).length ? utm : null }
+}
+
+/**
+ * Read the utm_* inputs of a form. Blank inputs are dropped when parsed.
+ */
+export function readUTMForm(formData: FormData): UTMParams {
+  return Object.fromEntries(
+    UTM_FIELDS.map((field) => [field, (formData.get(`utm_${field}`) as string) || ''])
+  )
+}
+
+/**
+ * Work out a new link's UTM parameters: the template's, overridden by any
+ * given with the link itself
+ */
+export async function buildLinkUTM(
+  env: Env,
+  templateName: string | undefined,
+  input: unknown
+): Promise<{ utm?: UTMParams; error?: string }> {
+  const parsed = parseUTMParams(input)
+  if (parsed.error) return { error: parsed.error }
+
+  let template: UTMTemplate | null = null
+  if (templateName) {
+    template = await getUTMTemplate(env, templateName)
+    if (!template) return { error: 'UTM template not found' }
+  }
+
+  const utm = { ...template?.params, ...parsed.utm }
+  return { utm: Object.keys(utm).length ? utm : undefined }
+}
+
+/**
+ * Set a link's UTM parameters on its destination, replacing any the
+ * destination already has
+ */
+export function applyUTM(destination: URL, utm: UTMParams): void {
+  for (const field of UTM_FIELDS) {
+    const value = utm[field]
+    if (value) destination.searchParams.set(`utm_${field}`, value)
+  }
+}
+
+/**
+ * Describe a set of UTM parameters as a query string, for display
+ */
+export function formatUTM(utm: UTMParams): string {
+  return UTM_FIELDS.filter((field) => utm[field])
+    .map((field) => `utm_${field}=${utm[field]}`)
+    .join('&')
+}
+
+// ========== Templates ==========
+
+/**
+ * Get a template by name
+ */
+export async function getUTMTemplate(
+  env: Env,
+  name: string
+): Promise<UTMTemplate | null> {
+  const data = await env.URLS_KV.get(`utm-template:${name}`)
+  if (!data) return null
+
+  try {
+    return JSON.parse(data) as UTMTemplate
+  } catch {
+    return null
+  }
+}
+
+/**
+ * List all templates by name. Templates are small enough to list from their
+ * metadata alone.
+ */
+export async function listUTMTemplates(env: Env): Promise<UTMTemplate[]> {
+  const templates: UTMTemplate[] = []
+  let cursor: string | undefined
+
+  do {
+    const list = await env.URLS_KV.list<UTMTemplate>({
+      prefix: 'utm-template:',
+      cursor,
+    })
+    for (const key of list.keys) {
+      if (key.metadata) templates.push(key.metadata)
+    }
+    cursor = list.list_complete ? undefined : list.cursor
+  } while (cursor)
+
+  return templates.sort((a, b) => a.name.localeCompare(b.name))
+}
+
+/**
+ * Create a template, or replace the parameters of an existing one. Links
+ * already created from it keep their own copy.
+ */
+export async function saveUTMTemplate(
+  env: Env,
+  name: string,
+  params: UTMParams
+): Promise<UTMTemplate> {
+  const existing = await getUTMTemplate(env, name)
+  const template: UTMTemplate = {
+    name,
+    params,
+    created: existing?.created || new Date().toISOString(),
+  }
+
+  await env.URLS_KV.put(`utm-template:${name}`, JSON.stringify(template), {
+    metadata: template,
+  })
+  return template
+}
+
+/**
+ * Delete a template. Returns the deleted template, or null if it did not
+ * exist.
+ */
+export async function deleteUTMTemplate(
+  env: Env,
+  name: string
+): Promise<UTMTemplate | null> {
+  const template = await getUTMTemplate(env, name)
+  if (!template) return null
+
+  await env.URLS_KV.delete(`utm-template:${name}`)
+  return template
+}
+
+/**
+ * Read the save-template form
+ */
+export function parseUTMTemplateForm(formData: FormData): {
+  name: string
+  params: UTMParams
+  error?: string
+} {
+  const name = ((formData.get('name') as string) || '').trim().toLowerCase()
+  const parsed = parseUTMParams(readUTMForm(formData))
+  const params = parsed.utm || {}
+
+  if (!name) {
+    return { name, params, error: 'Template name is required' }
+  }
+  if (
+    name.length > UTM.MAX_TEMPLATE_NAME_LENGTH ||
+    !/^[a-z0-9-]+$/.test(name)
+  ) {
+    return {
+      name,
+      params,
+      error: `Template names use a-z, 0-9 and hyphens, up to ${UTM.MAX_TEMPLATE_NAME_LENGTH} characters`,
+    }
+  }
+  if (parsed.error) return { name, params, error: parsed.error }
+  if (!parsed.utm) {
+    return { name, params, error: 'Fill in at least one parameter' }
+  }
+
+  return { name, params }
+}
+
+// ========== Templates Page ==========
+
+/**
+ * Render the UTM templates page
+ */
+export function renderUTMTemplatesPage(
+  templates: UTMTemplate[],
+  csrfToken: string,
+  message?: { type: 'success' | 'error'; text: string }
+): string {
+  return `<!DOCTYPE html>
+<html lang="en" data-theme="dark">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>UTM Templates - URL Shortener Admin</title>
+    <link rel="stylesheet" href="https://unpkg.com/@picocss/pico@1.5.10/css/pico.min.css">
+    <style>
+        :root { --pico-font-size: 90%; }
+        body { position: relative; font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif; padding-top: 2rem; }
+        .container { max-width: 800px; }
+        .url-card { display: grid; grid-template-columns: 1fr auto; gap: 1rem; align-items: center; padding: 0.75rem 1rem; border-radius: var(--pico-border-radius); margin-bottom: 0.5rem; border: 1px solid var(--pico-form-element-border-color); }
+        .url-info small { display: block; font-size: 0.8rem; color: var(--pico-muted-color); word-break: break-all; }
+        .url-card form { margin: 0; }
+        .url-card button { --pico-font-size: 0.8rem; padding: 0.25rem 0.6rem; margin: 0; width: auto; }
+    </style>
+</head>
+<body>
+    <main class="container">
+        <h2>UTM Templates</h2>
+        ${
+          message
+            ? `<div class="message ${message.type}">${escapeHTML(message.text)}</div>`
+            : ''
+        }
+
+        <form method="post" action="/admin/utm">
+            ${csrfField(csrfToken)}
+            <input type="text" name="name" placeholder="Name (e.g. newsletter)" maxlength="${UTM.MAX_TEMPLATE_NAME_LENGTH}" pattern="[a-z0-9-]+" required aria-label="Name">
+            ${renderUTMInputs()}
+            <small>Saving under an existing name replaces that template. Links already created from it keep their parameters.</small>
+            <button type="submit">Save template</button>
+        </form>
+
+        ${
+          templates.length > 0
+            ? templates
+                .map(
+                  (template) => `
+        <div class="url-card">
+            <div class="url-info">
+                <strong>${escapeHTML(template.name)}</strong>
+                <small>${escapeHTML(formatUTM(template.params))}</small>
+            </div>
+            <form method="post" action="/admin/utm/${escapeHTML(template.name)}/delete" onsubmit="return confirm('Delete this template?');">
+                ${csrfField(csrfToken)}
+                <button type="submit" class="outline contrast">Delete</button>
+            </form>
+        </div>`
+                )
+                .join('')
+            : '<p>No UTM templates yet.</p>'
+        }
+
+        <a href="/admin" role="button" class="outline">Back to admin</a>
+    </main>
+</body>
+</html>`
+}
+
+/**
+ * Render the utm_* inputs shared by the templates page and the link forms
+ */
+export function renderUTMInputs(utm: UTMParams = {}): string {
+  return `<div class="grid">
+                ${UTM_FIELDS.map(
+                  (field) =>
+                    `<input type="text" name="utm_${field}" value="${escapeHTML(utm[field] || '')}" placeholder="utm_${field}" maxlength="${UTM.MAX_VALUE_LENGTH}" aria-label="utm_${field}">`
+                ).join('\n                ')}
+            </div>`
+}
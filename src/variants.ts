@@ -0,0 +1,131 @@
+import { Env, URLRecord, Variant } from './types'
+import { isValidURL, isDangerousURL, normalizeURL } from './index'
+import { getCookie } from './admin'
+import { classifyUserAgent, hashIP } from './analytics'
+import { VARIANTS } from './constants'
+
+// A/B links split visitors between weighted destinations. Each visitor keeps
+// their variant through a cookie, and without one is placed by a hash of
+// their IP, so they see the same page on every visit. Crawlers always get the
+// link's own URL.
+
+// ========== Variants ==========
+
+/**
+ * Read a link's variants. Undefined leaves them alone, null or an empty list
+ * removes them. Every destination is checked like the link's own.
+ */
+export function parseVariants(input: unknown): {
+  variants?: Variant[] | null
+  error?: string
+} {
+  if (input === undefined) return {}
+  if (input === null) return { variants: null }
+  if (!Array.isArray(input)) return { error: 'variants must be a list' }
+  if (input.length === 0) return { variants: null }
+  if (input.length < 2 || input.length > VARIANTS.MAX) {
+    return { error: `An A/B link needs 2 to ${VARIANTS.MAX} variants` }
+  }
+
+  const variants: Variant[] = []
+  for (const [i, raw] of input.entries()) {
+    const label = `Variant ${i + 1}`
+    if (!raw || typeof raw !== 'object' || typeof raw.url !== 'string') {
+      return { error: `${label} needs a destination URL` }
+    }
+
+    const name = typeof raw.name === 'string' ? raw.name.trim().toLowerCase() : ''
+    if (!/^[a-z0-9-]{1,20}$/.test(name)) {
+      return { error: `${label} needs a name of up to 20 letters, digits or hyphens` }
+    }
+    if (variants.some((variant) => variant.name === name)) {
+      return { error: 'Variant names must be unique' }
+    }
+
+    const weight = Number(raw.weight ?? 1)
+    if (!Number.isInteger(weight) || weight < 1 || weight > VARIANTS.MAX_WEIGHT) {
+      return { error: `${label} needs a weight from 1 to ${VARIANTS.MAX_WEIGHT}` }
+    }
+
+    const url = normalizeURL(raw.url)
+    if (!isValidURL(url) || isDangerousURL(url)) {
+      return { error: `${label} has an invalid destination URL` }
+    }
+
+    variants.push({ name, weight, url })
+  }
+
+  return { variants }
+}
+
+/**
+ * Read variants written one per line, as in the admin form:
+ * "name weight url", e.g. "b 30 https://example.com/new"
+ */
+export function parseVariantsText(text: string): unknown[] {
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const [name, weight, url] = line.split(/\s+/)
+      return { name, weight, url }
+    })
+}
+
+/**
+ * Write variants one per line, the reverse of parseVariantsText
+ */
+export function formatVariants(variants: Variant[]): string {
+  return variants
+    .map((variant) => `${variant.name} ${variant.weight} ${variant.url}`)
+    .join('\n')
+}
+
+// ========== Assignment ==========
+
+/**
+ * Place a visitor in a variant. Returns the variant and, for visitors who
+ * didn't have one yet, the cookie that keeps them there. Crawlers, and
+ * links without variants, get none.
+ */
+export async function pickVariant(
+  request: Request,
+  env: Env,
+  record: URLRecord
+): Promise<{ variant?: Variant; cookie?: string }> {
+  if (!record.variants?.length) return {}
+
+  const userAgent = request.headers.get('User-Agent') || ''
+  if (classifyUserAgent(userAgent).device === 'bot') return {}
+
+  const cookieName = `ab_${record.slug}`
+  const existing = record.variants.find(
+    (variant) => variant.name === getCookie(request, cookieName)
+  )
+  if (existing) return { variant: existing }
+
+  // The hash is stable per IP and link, so visitors without cookies still
+  // land in the same variant each time
+  const clientIP = request.headers.get('CF-Connecting-IP') || 'unknown'
+  const hash = await hashIP(`${record.slug}:${clientIP}`, env.API_SECRET || '')
+  const total = record.variants.reduce((sum, variant) => sum + variant.weight, 0)
+  let point = parseInt(hash.slice(0, 8), 16) % total
+
+  let variant = record.variants[record.variants.length - 1]
+  for (const candidate of record.variants) {
+    if (point < candidate.weight) {
+      variant = candidate
+      break
+    }
+    point -= candidate.weight
+  }
+
+  const isSecure = new URL(request.url).protocol === 'https:'
+  return {
+    variant,
+    cookie: `${cookieName}=${variant.name}; HttpOnly${
+      isSecure ? '; Secure' : ''
+    }; SameSite=Lax; Max-Age=${VARIANTS.COOKIE_SECONDS}; Path=/`,
+  }
+}
@@ -1,9 +1,48 @@
 import { describe, it, expect } from 'vitest'
 import worker from '../src/index'
 import { testEnv, createTestURL, getTestUrl } from './test-setup'
+import { createUser } from '../src/users'
+import { generateTOTP } from '../src/totp'
+import { issueLoginChallenge } from '../src/throttle'
+import { issueToken } from '../src/tokens'
 
 type ExecutionContext = import('@cloudflare/workers-types').ExecutionContext
 
+// Build a request as a browser would send it with a session cookie: posts
+// carry our Origin and, for forms, the CSRF token from the admin page
+async function browserRequest(
+  cookie: string,
+  url: string,
+  options: RequestInit = {}
+) {
+  const method = options.method || 'GET'
+  if (method === 'GET') {
+    return new Request(url, {
+      ...options,
+      headers: { Cookie: cookie, ...options.headers },
+    })
+  }
+
+  if (options.body instanceof FormData && !options.body.has('csrf_token')) {
+    const page = await worker.fetch(
+      new Request(getTestUrl('/admin'), { headers: { Cookie: cookie } }),
+      testEnv,
+      {} as ExecutionContext
+    )
+    const token = (await page.text()).match(/name="csrf_token" value="([^"]+)"/)
+    if (token) options.body.append('csrf_token', token[1])
+  }
+
+  return new Request(url, {
+    ...options,
+    headers: {
+      Cookie: cookie,
+      Origin: new URL(getTestUrl()).origin,
+      ...options.headers,
+    },
+  })
+}
+
 // Helper to create session cookie for UI tests
 async function createSessionRequest(url: string, options: RequestInit = {}) {
   // First login to get session cookie
@@ -26,13 +65,8 @@ async function createSessionRequest(url: string, options: RequestInit = {}) {
     throw new Error('Failed to get session cookie')
   }
 
-  return new Request(url, {
-    ...options,
-    headers: {
-      Cookie: setCookieHeader.split(';')[0], // Get just the cookie value
-      ...options.headers,
-    },
-  })
+  // Get just the cookie value
+  return browserRequest(setCookieHeader.split(';')[0], url, options)
 }
 
 describe('Admin UI', () => {
@@ -111,6 +145,77 @@ describe('Admin UI', () => {
       expect(html).toContain('Create Short URL')
     })
 
+    it('should show click counts on URL cards', async () => {
+      await testEnv.URLS_KV.put(
+        'urls:test-slug',
+        JSON.stringify(createTestURL('test-slug'))
+      )
+      await testEnv.URLS_KV.put(
+        'counter:test-slug',
+        JSON.stringify({
+          total: 42,
+          daily: { [new Date().toISOString().slice(0, 10)]: 5 },
+        })
+      )
+
+      const request = await createSessionRequest(getTestUrl('/admin'))
+      const response = await worker.fetch(
+        request,
+        testEnv,
+        {} as ExecutionContext
+      )
+      const html = await response.text()
+
+      expect(html).toContain('42 clicks total')
+      expect(html).toContain('5 in the last 7 days')
+    })
+
+    it('should filter the URL list by tag', async () => {
+      await testEnv.URLS_KV.put(
+        'urls:tagged',
+        JSON.stringify({ ...createTestURL('tagged'), tags: ['talks'] })
+      )
+      await testEnv.URLS_KV.put(
+        'urls:untagged',
+        JSON.stringify(createTestURL('untagged'))
+      )
+
+      const request = await createSessionRequest(getTestUrl('/admin?tag=talks'))
+      const response = await worker.fetch(
+        request,
+        testEnv,
+        {} as ExecutionContext
+      )
+      const html = await response.text()
+
+      expect(html).toContain('#talks (1)')
+      expect(html).toContain('/tagged')
+      expect(html).not.toContain('/untagged')
+    })
+
+    it('should search the URL list on the server', async () => {
+      await testEnv.URLS_KV.put(
+        'urls:first-link',
+        JSON.stringify(createTestURL('first-link', 'https://example.com/apples'))
+      )
+      await testEnv.URLS_KV.put(
+        'urls:second-link',
+        JSON.stringify(createTestURL('second-link', 'https://example.com/pears'))
+      )
+
+      const request = await createSessionRequest(getTestUrl('/admin?q=pears'))
+      const response = await worker.fetch(
+        request,
+        testEnv,
+        {} as ExecutionContext
+      )
+      const html = await response.text()
+
+      expect(html).toContain('1 matching URL')
+      expect(html).toContain('/second-link')
+      expect(html).not.toContain('/first-link')
+    })
+
     it('should display success message from query params', async () => {
       const request = await createSessionRequest(
         getTestUrl('/admin?success=Test%20success%20message')
@@ -168,6 +273,46 @@ describe('Admin UI', () => {
       expect(location).toContain('test-slug')
     })
 
+    it('should protect a URL with a passphrase from the forms', async () => {
+      const formData = new FormData()
+      formData.append('url', 'https://example.com/test')
+      formData.append('slug', 'test-slug')
+      formData.append('password', 'open sesame')
+      await worker.fetch(
+        await createSessionRequest(getTestUrl('/admin/create'), {
+          method: 'POST',
+          body: formData,
+        }),
+        testEnv,
+        {} as ExecutionContext
+      )
+
+      const record = JSON.parse((await testEnv.URLS_KV.get('urls:test-slug'))!)
+      expect(record.passwordHash).toMatch(/^pbkdf2\$/)
+
+      const edit = await worker.fetch(
+        await createSessionRequest(getTestUrl('/admin/edit/test-slug')),
+        testEnv,
+        {} as ExecutionContext
+      )
+      expect(await edit.text()).toContain('Remove passphrase')
+
+      const update = new FormData()
+      update.append('url', 'https://example.com/test')
+      update.append('removePassword', '1')
+      await worker.fetch(
+        await createSessionRequest(getTestUrl('/admin/update/test-slug'), {
+          method: 'POST',
+          body: update,
+        }),
+        testEnv,
+        {} as ExecutionContext
+      )
+
+      const updated = JSON.parse((await testEnv.URLS_KV.get('urls:test-slug'))!)
+      expect(updated.passwordHash).toBeUndefined()
+    })
+
     it('should update URL and redirect back to admin', async () => {
       // Create test URL first
       const testURL = createTestURL('test-slug', 'https://old-url.com')
@@ -195,6 +340,33 @@ describe('Admin UI', () => {
       expect(location).toContain('/admin?success=')
     })
 
+    it('should rename URL and redirect back to admin', async () => {
+      const testURL = createTestURL('test-slug')
+      await testEnv.URLS_KV.put('urls:test-slug', JSON.stringify(testURL))
+
+      const formData = new FormData()
+      formData.append('slug', 'better-slug')
+
+      const request = await createSessionRequest(
+        getTestUrl('/admin/rename/test-slug'),
+        {
+          method: 'POST',
+          body: formData,
+        }
+      )
+
+      const response = await worker.fetch(
+        request,
+        testEnv,
+        {} as ExecutionContext
+      )
+
+      expect(response.status).toBe(302)
+      const location = response.headers.get('Location')
+      expect(location).toContain('/admin?success=')
+      expect(await testEnv.URLS_KV.get('urls:better-slug')).not.toBeNull()
+    })
+
     it('should delete URL and redirect back to admin', async () => {
       // Create test URL first
       const testURL = createTestURL('test-slug')
@@ -222,35 +394,977 @@ describe('Admin UI', () => {
     })
   })
 
-  describe('Edit Form', () => {
-    it('should display edit form for existing URL', async () => {
-      const testURL = createTestURL(
-        'test-slug',
-        'https://example.com/edit-test'
-      )
+  describe('History', () => {
+    it('should attribute form edits to the session and show them on the edit page', async () => {
+      const testURL = createTestURL('test-slug', 'https://example.com/before')
       await testEnv.URLS_KV.put('urls:test-slug', JSON.stringify(testURL))
 
-      const request = await createSessionRequest(
-        getTestUrl('/admin/edit/test-slug')
+      const formData = new FormData()
+      formData.append('url', 'https://example.com/after')
+      await worker.fetch(
+        await createSessionRequest(getTestUrl('/admin/update/test-slug'), {
+          method: 'POST',
+          body: formData,
+        }),
+        testEnv,
+        {} as ExecutionContext
       )
+
       const response = await worker.fetch(
-        request,
+        await createSessionRequest(getTestUrl('/admin/edit/test-slug')),
+        testEnv,
+        {} as ExecutionContext
+      )
+      const html = await response.text()
+
+      expect(html).toContain('#1 update')
+      expect(html).toContain('Admin session')
+      expect(html).toContain('<del>https:&#x2F;&#x2F;example.com&#x2F;before</del>')
+    })
+  })
+
+  describe('Audit Log', () => {
+    it('should log failed and successful logins', async () => {
+      const formData = new FormData()
+      formData.append('password', 'wrong-password')
+      await worker.fetch(
+        new Request(getTestUrl('/admin/login'), {
+          method: 'POST',
+          body: formData,
+        }),
+        testEnv,
+        {} as ExecutionContext
+      )
+
+      const response = await worker.fetch(
+        await createSessionRequest(getTestUrl('/admin/audit?action=login')),
         testEnv,
         {} as ExecutionContext
       )
       const html = await response.text()
 
       expect(response.status).toBe(200)
-      expect(html).toContain('Edit Short URL')
-      expect(html).toContain('test-slug')
-      expect(html).toContain('https:&#x2F;&#x2F;example.com&#x2F;edit-test')
-      expect(html).toContain('Update URL')
-      expect(html).toContain('Cancel')
+      expect(html).toContain('Audit Log')
+      expect(html).toContain('Invalid password')
+      expect(html).toContain('Admin session')
+      expect(html).toContain('outcome-success')
     })
+  })
 
-    it('should return 404 for non-existent URL', async () => {
-      const request = await createSessionRequest(
-        getTestUrl('/admin/edit/non-existent')
+  describe('API Tokens', () => {
+    it('should show a new token once and store only its hash', async () => {
+      const formData = new FormData()
+      formData.append('name', 'Chrome extension')
+      formData.append('scopes', 'read')
+      formData.append('scopes', 'create')
+
+      const response = await worker.fetch(
+        await createSessionRequest(getTestUrl('/admin/tokens'), {
+          method: 'POST',
+          body: formData,
+        }),
+        testEnv,
+        {} as ExecutionContext
+      )
+      const html = await response.text()
+      const token = html.match(/usk_[a-f0-9]+_[a-f0-9]+/)?.[0]
+
+      expect(response.status).toBe(200)
+      expect(token).toBeDefined()
+
+      const list = await testEnv.URLS_KV.list({ prefix: 'apitoken:' })
+      expect(list.keys).toHaveLength(1)
+      const stored = await testEnv.URLS_KV.get(list.keys[0].name)
+      expect(stored).not.toContain(token!.split('_')[2])
+
+      const page = await worker.fetch(
+        await createSessionRequest(getTestUrl('/admin/tokens')),
+        testEnv,
+        {} as ExecutionContext
+      )
+      const pageHtml = await page.text()
+      expect(pageHtml).toContain('Chrome extension')
+      expect(pageHtml).toContain('read, create')
+      expect(pageHtml).not.toContain(token)
+    })
+
+    it('should revoke a token', async () => {
+      const formData = new FormData()
+      formData.append('name', 'CI')
+      formData.append('scopes', 'admin')
+      await worker.fetch(
+        await createSessionRequest(getTestUrl('/admin/tokens'), {
+          method: 'POST',
+          body: formData,
+        }),
+        testEnv,
+        {} as ExecutionContext
+      )
+      const list = await testEnv.URLS_KV.list({ prefix: 'apitoken:' })
+      const id = list.keys[0].name.split(':')[1]
+
+      const response = await worker.fetch(
+        await createSessionRequest(getTestUrl(`/admin/tokens/${id}/revoke`), {
+          method: 'POST',
+          body: new FormData(),
+        }),
+        testEnv,
+        {} as ExecutionContext
+      )
+
+      expect(response.status).toBe(302)
+      expect(response.headers.get('Location')).toContain('success=')
+      expect(await testEnv.URLS_KV.get(`apitoken:${id}`)).toBeNull()
+    })
+
+    it('should require at least one scope', async () => {
+      const formData = new FormData()
+      formData.append('name', 'Nothing')
+
+      const response = await worker.fetch(
+        await createSessionRequest(getTestUrl('/admin/tokens'), {
+          method: 'POST',
+          body: formData,
+        }),
+        testEnv,
+        {} as ExecutionContext
+      )
+
+      expect(response.status).toBe(400)
+      expect(await response.text()).toContain('Choose at least one scope')
+    })
+  })
+
+  describe('UTM Templates', () => {
+    it('should save a template and apply it to new links', async () => {
+      const templateForm = new FormData()
+      templateForm.append('name', 'newsletter')
+      templateForm.append('utm_source', 'newsletter')
+      templateForm.append('utm_medium', 'email')
+      templateForm.append('utm_campaign', 'spring')
+
+      const saved = await worker.fetch(
+        await createSessionRequest(getTestUrl('/admin/utm'), {
+          method: 'POST',
+          body: templateForm,
+        }),
+        testEnv,
+        {} as ExecutionContext
+      )
+      expect(saved.headers.get('Location')).toContain('success=')
+
+      const page = await worker.fetch(
+        await createSessionRequest(getTestUrl('/admin/utm')),
+        testEnv,
+        {} as ExecutionContext
+      )
+      expect(await page.text()).toContain(
+        'utm_source=newsletter&amp;utm_medium=email&amp;utm_campaign=spring'
+      )
+
+      const createForm = new FormData()
+      createForm.append('url', 'https://example.com')
+      createForm.append('slug', 'spring-news')
+      createForm.append('utmTemplate', 'newsletter')
+      createForm.append('utm_campaign', 'spring-sale')
+      await worker.fetch(
+        await createSessionRequest(getTestUrl('/admin/create'), {
+          method: 'POST',
+          body: createForm,
+        }),
+        testEnv,
+        {} as ExecutionContext
+      )
+
+      const stored = JSON.parse((await testEnv.URLS_KV.get('urls:spring-news'))!)
+      expect(stored.url).toBe('https://example.com/')
+      expect(stored.utm).toEqual({
+        source: 'newsletter',
+        medium: 'email',
+        campaign: 'spring-sale',
+      })
+    })
+
+    it('should reject a template without parameters', async () => {
+      const formData = new FormData()
+      formData.append('name', 'empty')
+
+      const response = await worker.fetch(
+        await createSessionRequest(getTestUrl('/admin/utm'), {
+          method: 'POST',
+          body: formData,
+        }),
+        testEnv,
+        {} as ExecutionContext
+      )
+
+      expect(response.headers.get('Location')).toContain('error=')
+      expect(await testEnv.URLS_KV.get('utm-template:empty')).toBeNull()
+    })
+
+    it('should group the URL list by campaign', async () => {
+      for (const [slug, campaign] of [
+        ['first', 'winter'],
+        ['second', undefined],
+        ['third', 'autumn'],
+      ] as const) {
+        await testEnv.URLS_KV.put(
+          `urls:${slug}`,
+          JSON.stringify({
+            ...createTestURL(slug),
+            ...(campaign ? { utm: { campaign } } : {}),
+          })
+        )
+      }
+
+      const response = await worker.fetch(
+        await createSessionRequest(getTestUrl('/admin?group=campaign')),
+        testEnv,
+        {} as ExecutionContext
+      )
+      const html = await response.text()
+      const order = ['>autumn</a></h3>', '/third', '>winter</a></h3>', '/first', 'No campaign</h3>', '/second'].map(
+        (text) => html.indexOf(text)
+      )
+
+      expect(order.every((index) => index > 0)).toBe(true)
+      expect([...order].sort((a, b) => a - b)).toEqual(order)
+    })
+  })
+
+  describe('Users', () => {
+    // Log in as a user account and return the session cookie
+    async function loginAs(username: string, password: string) {
+      const formData = new FormData()
+      formData.append('username', username)
+      formData.append('password', password)
+
+      const response = await worker.fetch(
+        new Request(getTestUrl('/admin/login'), {
+          method: 'POST',
+          body: formData,
+        }),
+        testEnv,
+        {} as ExecutionContext
+      )
+      return response.headers.get('Set-Cookie')?.split(';')[0] || null
+    }
+
+    it('should let an admin add a user who can then sign in', async () => {
+      const formData = new FormData()
+      formData.append('username', 'alice')
+      formData.append('password', 'correct horse battery')
+      formData.append('role', 'editor')
+
+      const response = await worker.fetch(
+        await createSessionRequest(getTestUrl('/admin/users'), {
+          method: 'POST',
+          body: formData,
+        }),
+        testEnv,
+        {} as ExecutionContext
+      )
+      expect(response.headers.get('Location')).toContain('success=')
+
+      const stored = await testEnv.URLS_KV.get(
+        `user:${await testEnv.URLS_KV.get('username:alice')}`
+      )
+      expect(stored).toContain('"passwordHash":"pbkdf2$100000$')
+      expect(stored).not.toContain('correct horse battery')
+
+      expect(await loginAs('alice', 'wrong password!')).toBeNull()
+      const cookie = await loginAs('Alice', 'correct horse battery')
+      expect(cookie).toMatch(/^url_shortener_session=[a-f0-9]{12}\./)
+    })
+
+    it('should record which user created a link', async () => {
+      await createUser(testEnv, {
+        username: 'alice',
+        password: 'correct horse battery',
+        role: 'editor',
+      })
+      const cookie = await loginAs('alice', 'correct horse battery')
+
+      const formData = new FormData()
+      formData.append('url', 'https://example.com')
+      formData.append('slug', 'test-slug')
+      await worker.fetch(
+        await browserRequest(cookie!, getTestUrl('/admin/create'), {
+          method: 'POST',
+          body: formData,
+        }),
+        testEnv,
+        {} as ExecutionContext
+      )
+
+      const record = JSON.parse((await testEnv.URLS_KV.get('urls:test-slug'))!)
+      expect(record.createdBy).toBe('alice')
+
+      const page = await worker.fetch(
+        new Request(getTestUrl('/admin'), { headers: { Cookie: cookie! } }),
+        testEnv,
+        {} as ExecutionContext
+      )
+      expect(await page.text()).toContain('added by alice')
+    })
+
+    it('should limit what each role can do', async () => {
+      await createUser(testEnv, {
+        username: 'vera',
+        password: 'correct horse battery',
+        role: 'viewer',
+      })
+      const cookie = await loginAs('vera', 'correct horse battery')
+      const asViewer = async (path: string, init: RequestInit = {}) =>
+        worker.fetch(
+          await browserRequest(cookie!, getTestUrl(path), init),
+          testEnv,
+          {} as ExecutionContext
+        )
+
+      const formData = new FormData()
+      formData.append('url', 'https://example.com')
+
+      expect((await asViewer('/admin')).status).toBe(200)
+      expect((await asViewer('/admin/urls')).status).toBe(200)
+      expect((await asViewer('/admin/users')).status).toBe(403)
+      expect(
+        (await asViewer('/admin/create', { method: 'POST', body: formData })).status
+      ).toBe(403)
+      expect(
+        (await asViewer('/admin/urls', { method: 'POST', body: '{}' })).status
+      ).toBe(403)
+    })
+
+    it('should sign out deleted users', async () => {
+      const user = await createUser(testEnv, {
+        username: 'alice',
+        password: 'correct horse battery',
+        role: 'editor',
+      })
+      const cookie = await loginAs('alice', 'correct horse battery')
+
+      await worker.fetch(
+        await createSessionRequest(getTestUrl(`/admin/users/${user.id}/delete`), {
+          method: 'POST',
+          body: new FormData(),
+        }),
+        testEnv,
+        {} as ExecutionContext
+      )
+
+      const response = await worker.fetch(
+        new Request(getTestUrl('/admin'), { headers: { Cookie: cookie! } }),
+        testEnv,
+        {} as ExecutionContext
+      )
+      expect(response.status).toBe(302)
+      expect(response.headers.get('Location')).toBe(getTestUrl('/admin/login'))
+    })
+  })
+
+  describe('Two-Factor Authentication', () => {
+    const loginForm = () => {
+      const formData = new FormData()
+      formData.append('password', 'test-secret-key')
+      return new Request(getTestUrl('/admin/login'), {
+        method: 'POST',
+        body: formData,
+      })
+    }
+    const codeRequest = (pendingCookie: string, code: string) => {
+      const formData = new FormData()
+      formData.append('code', code)
+      return new Request(getTestUrl('/admin/login/2fa'), {
+        method: 'POST',
+        body: formData,
+        headers: { Cookie: pendingCookie },
+      })
+    }
+
+    // Enrol the admin login and return its secret and recovery codes
+    async function enrol() {
+      await worker.fetch(
+        await createSessionRequest(getTestUrl('/admin/2fa/start'), {
+          method: 'POST',
+          body: new FormData(),
+        }),
+        testEnv,
+        {} as ExecutionContext
+      )
+      const page = await worker.fetch(
+        await createSessionRequest(getTestUrl('/admin/2fa')),
+        testEnv,
+        {} as ExecutionContext
+      )
+      const html = await page.text()
+      const secret = JSON.parse((await testEnv.URLS_KV.get('totp:master'))!).secret
+
+      const formData = new FormData()
+      formData.append('code', await generateTOTP(secret))
+      const response = await worker.fetch(
+        await createSessionRequest(getTestUrl('/admin/2fa/enable'), {
+          method: 'POST',
+          body: formData,
+        }),
+        testEnv,
+        {} as ExecutionContext
+      )
+      const enabled = await response.text()
+      const recoveryCodes = enabled.match(/[a-f0-9]{5}-[a-f0-9]{5}/g) || []
+
+      return { html, enabled, secret, recoveryCodes }
+    }
+
+    it('should only create a secret once setup is started', async () => {
+      const page = await worker.fetch(
+        await createSessionRequest(getTestUrl('/admin/2fa')),
+        testEnv,
+        {} as ExecutionContext
+      )
+
+      expect(await page.text()).toContain('action="/admin/2fa/start"')
+      expect(await testEnv.URLS_KV.get('totp:master')).toBeNull()
+
+      const start = async () =>
+        worker.fetch(
+          await createSessionRequest(getTestUrl('/admin/2fa/start'), {
+            method: 'POST',
+            body: new FormData(),
+          }),
+          testEnv,
+          {} as ExecutionContext
+        )
+      const response = await start()
+      expect(response.status).toBe(302)
+      expect(response.headers.get('Location')).toBe(getTestUrl('/admin/2fa'))
+
+      const secret = JSON.parse((await testEnv.URLS_KV.get('totp:master'))!).secret
+      await start()
+      expect(JSON.parse((await testEnv.URLS_KV.get('totp:master'))!).secret).toBe(secret)
+    })
+
+    it('should show an otpauth URI and QR code and issue recovery codes', async () => {
+      const { html, enabled, secret, recoveryCodes } = await enrol()
+
+      expect(html).toContain('otpauth:&#x2F;&#x2F;totp&#x2F;')
+      expect(html).toContain(`secret=${secret}`)
+      expect(html).toContain('<svg')
+      expect(enabled).toContain('Two-factor authentication is on')
+      expect(recoveryCodes).toHaveLength(10)
+    })
+
+    it('should ask for a code after the password', async () => {
+      const { secret } = await enrol()
+
+      const passwordStep = await worker.fetch(
+        loginForm(),
+        testEnv,
+        {} as ExecutionContext
+      )
+      const pending = passwordStep.headers.get('Set-Cookie')!.split(';')[0]
+
+      expect(passwordStep.status).toBe(200)
+      expect(pending).toMatch(/^url_shortener_2fa=/)
+      expect(await passwordStep.text()).toContain('Authentication code')
+
+      // The pending cookie is not a session
+      const admin = await worker.fetch(
+        new Request(getTestUrl('/admin'), {
+          headers: { Cookie: pending.replace('url_shortener_2fa', 'url_shortener_session') },
+        }),
+        testEnv,
+        {} as ExecutionContext
+      )
+      expect(admin.status).toBe(302)
+
+      const wrong = await worker.fetch(
+        codeRequest(pending, '000000'),
+        testEnv,
+        {} as ExecutionContext
+      )
+      expect(await wrong.text()).toContain('Invalid authentication code')
+
+      // The code used to enrol can't be replayed, so use the next one
+      const code = await generateTOTP(secret, Date.now() + 30000)
+      const response = await worker.fetch(
+        codeRequest(pending, code),
+        testEnv,
+        {} as ExecutionContext
+      )
+      expect(response.status).toBe(302)
+      expect(response.headers.get('Location')).toBe(getTestUrl('/admin'))
+      expect(response.headers.get('Set-Cookie')).toContain('url_shortener_session=')
+    })
+
+    it('should accept each recovery code once', async () => {
+      const { recoveryCodes } = await enrol()
+      const passwordStep = await worker.fetch(
+        loginForm(),
+        testEnv,
+        {} as ExecutionContext
+      )
+      const pending = passwordStep.headers.get('Set-Cookie')!.split(';')[0]
+
+      const first = await worker.fetch(
+        codeRequest(pending, recoveryCodes[0]),
+        testEnv,
+        {} as ExecutionContext
+      )
+      const second = await worker.fetch(
+        codeRequest(pending, recoveryCodes[0]),
+        testEnv,
+        {} as ExecutionContext
+      )
+
+      expect(first.status).toBe(302)
+      expect(second.status).toBe(200)
+      expect(await second.text()).toContain('Invalid authentication code')
+    })
+
+    it('should stop API_SECRET working as a Bearer token', async () => {
+      const { enabled } = await enrol()
+      const { value } = await issueToken(testEnv, {
+        name: 'deploy script',
+        scopes: ['read'],
+      })
+      const bearer = (token: string) =>
+        worker.fetch(
+          new Request(getTestUrl('/admin/urls'), {
+            headers: { Authorization: `Bearer ${token}` },
+          }),
+          testEnv,
+          {} as ExecutionContext
+        )
+
+      expect(enabled).toContain('API_SECRET no longer works as a Bearer token')
+      expect((await bearer('test-secret-key')).status).toBe(401)
+      expect((await bearer(value)).status).toBe(200)
+    })
+  })
+
+  describe('Sessions', () => {
+    // Log in with the admin password and return the session cookie
+    async function login(userAgent: string) {
+      const formData = new FormData()
+      formData.append('password', 'test-secret-key')
+      const response = await worker.fetch(
+        new Request(getTestUrl('/admin/login'), {
+          method: 'POST',
+          body: formData,
+          headers: { 'User-Agent': userAgent, 'CF-Connecting-IP': '203.0.113.7' },
+        }),
+        testEnv,
+        {} as ExecutionContext
+      )
+      return response.headers.get('Set-Cookie')!.split(';')[0]
+    }
+    const withCookie = async (cookie: string, path: string, init: RequestInit = {}) =>
+      worker.fetch(
+        await browserRequest(cookie, getTestUrl(path), init),
+        testEnv,
+        {} as ExecutionContext
+      )
+
+    it('should list active sessions with their client', async () => {
+      const cookie = await login(
+        'Mozilla/5.0 (Macintosh; Intel Mac OS X 14_0) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Safari/605.1.15'
+      )
+
+      const response = await withCookie(cookie, '/admin/sessions')
+      const html = await response.text()
+
+      expect(response.status).toBe(200)
+      expect(html).toContain('Safari on macOS')
+      expect(html).toContain('203.0.113.7')
+      expect(html).toContain('(this session)')
+    })
+
+    it('should end the session on the server at logout', async () => {
+      const cookie = await login('Laptop')
+
+      await withCookie(cookie, '/admin/logout', {
+        method: 'POST',
+        body: new FormData(),
+      })
+
+      const response = await withCookie(cookie, '/admin')
+      expect(response.status).toBe(302)
+      expect(response.headers.get('Location')).toBe(getTestUrl('/admin/login'))
+    })
+
+    it('should log out all other sessions', async () => {
+      const laptop = await login('Laptop')
+      const phone = await login('Phone')
+
+      const response = await withCookie(laptop, '/admin/sessions/revoke-others', {
+        method: 'POST',
+        body: new FormData(),
+      })
+      expect(response.headers.get('Location')).toContain('Logged+out+1+other')
+
+      expect((await withCookie(laptop, '/admin')).status).toBe(200)
+      expect((await withCookie(phone, '/admin')).status).toBe(302)
+    })
+
+    it('should revoke a single session', async () => {
+      const laptop = await login('Laptop')
+      const phone = await login('Phone')
+      const [, phoneId] = phone.split('=')[1].split('.')
+
+      await withCookie(laptop, `/admin/sessions/${phoneId}/revoke`, {
+        method: 'POST',
+        body: new FormData(),
+      })
+
+      expect((await withCookie(phone, '/admin')).status).toBe(302)
+      expect((await withCookie(laptop, '/admin')).status).toBe(200)
+    })
+
+    it('should end sessions past their maximum lifetime', async () => {
+      const cookie = await login('Laptop')
+      const [, id] = cookie.split('=')[1].split('.')
+      const record = JSON.parse((await testEnv.URLS_KV.get(`session:${id}`))!)
+      record.created = new Date(Date.now() - 31 * 864e5).toISOString()
+      await testEnv.URLS_KV.put(`session:${id}`, JSON.stringify(record))
+
+      expect((await withCookie(cookie, '/admin')).status).toBe(302)
+    })
+  })
+
+  describe('Login Throttling', () => {
+    const ip = '198.51.100.9'
+
+    // Sign in from the test IP, optionally with a challenge that has
+    // already waited out the longest delay
+    async function attempt(password: string, withChallenge = false) {
+      const formData = new FormData()
+      formData.append('password', password)
+      if (withChallenge) {
+        formData.append(
+          'challenge',
+          await issueLoginChallenge('test-secret-key', ip, 30000, Date.now() - 31000)
+        )
+      }
+      return worker.fetch(
+        new Request(getTestUrl('/admin/login'), {
+          method: 'POST',
+          body: formData,
+          headers: { 'CF-Connecting-IP': ip },
+        }),
+        testEnv,
+        {} as ExecutionContext
+      )
+    }
+
+    it('should require waiting after repeated failures', async () => {
+      await attempt('wrong-password')
+      await attempt('wrong-password')
+      const html = await (await attempt('wrong-password')).text()
+      expect(html).toContain('name="challenge"')
+      expect(html).toContain('You can sign in again in')
+
+      const response = await attempt('test-secret-key')
+      expect(response.headers.get('Set-Cookie')).toBeNull()
+      expect(await response.text()).toContain('Please wait before trying again')
+    })
+
+    it('should reject a challenge submitted too early', async () => {
+      for (let i = 0; i < 3; i++) await attempt('wrong-password')
+
+      const formData = new FormData()
+      formData.append('password', 'test-secret-key')
+      formData.append(
+        'challenge',
+        await issueLoginChallenge('test-secret-key', ip, 2000)
+      )
+      const response = await worker.fetch(
+        new Request(getTestUrl('/admin/login'), {
+          method: 'POST',
+          body: formData,
+          headers: { 'CF-Connecting-IP': ip },
+        }),
+        testEnv,
+        {} as ExecutionContext
+      )
+
+      expect(response.headers.get('Set-Cookie')).toBeNull()
+    })
+
+    it('should sign in once the challenge has been waited out', async () => {
+      for (let i = 0; i < 3; i++) await attempt('wrong-password')
+
+      const response = await attempt('test-secret-key', true)
+      expect(response.status).toBe(302)
+      expect(response.headers.get('Set-Cookie')).toContain('url_shortener_session=')
+
+      // The failures are forgotten after signing in
+      const html = await (await attempt('wrong-password')).text()
+      expect(html).not.toContain('name="challenge"')
+    })
+
+    it('should lock out an IP after too many failures', async () => {
+      let response = await attempt('wrong-password', true)
+      for (let i = 1; i < 10; i++) {
+        response = await attempt('wrong-password', true)
+      }
+      expect(response.status).toBe(429)
+      expect(await response.text()).toContain(
+        'Too many failed sign-ins. Try again in 5 minutes.'
+      )
+
+      // Even the right password is refused while locked out
+      response = await attempt('test-secret-key', true)
+      expect(response.status).toBe(429)
+      expect(response.headers.get('Set-Cookie')).toBeNull()
+
+      // Other IPs can still sign in, and admins can see the lockout
+      const audit = await worker.fetch(
+        await createSessionRequest(getTestUrl('/admin/audit')),
+        testEnv,
+        {} as ExecutionContext
+      )
+      const html = await audit.text()
+      expect(html).toContain('Locked out of signing in')
+      expect(html).toContain(ip)
+    })
+  })
+
+  describe('CSRF Protection', () => {
+    async function login() {
+      const formData = new FormData()
+      formData.append('password', 'test-secret-key')
+      const response = await worker.fetch(
+        new Request(getTestUrl('/admin/login'), { method: 'POST', body: formData }),
+        testEnv,
+        {} as ExecutionContext
+      )
+      return response.headers.get('Set-Cookie')!.split(';')[0]
+    }
+    async function getToken(cookie: string) {
+      const page = await worker.fetch(
+        new Request(getTestUrl('/admin'), { headers: { Cookie: cookie } }),
+        testEnv,
+        {} as ExecutionContext
+      )
+      return (await page.text()).match(/name="csrf_token" value="([^"]+)"/)![1]
+    }
+    const createForm = (token?: string) => {
+      const formData = new FormData()
+      formData.append('url', 'https://example.com')
+      formData.append('slug', 'test-slug')
+      if (token) formData.append('csrf_token', token)
+      return formData
+    }
+    const post = (path: string, init: RequestInit) =>
+      worker.fetch(
+        new Request(getTestUrl(path), { method: 'POST', ...init }),
+        testEnv,
+        {} as ExecutionContext
+      )
+    const origin = new URL(getTestUrl()).origin
+
+    it('should put the token in every form on the admin page', async () => {
+      const cookie = await login()
+      await testEnv.URLS_KV.put(
+        'urls:test-slug',
+        JSON.stringify(createTestURL('test-slug'))
+      )
+
+      const html = await (
+        await worker.fetch(
+          new Request(getTestUrl('/admin'), { headers: { Cookie: cookie } }),
+          testEnv,
+          {} as ExecutionContext
+        )
+      ).text()
+
+      const forms = html.match(/<form method="post"/g)!.length
+      expect(forms).toBeGreaterThanOrEqual(3) // Logout, create and delete
+      expect(html.match(/name="csrf_token"/g)!.length).toBe(forms)
+    })
+
+    it('should reject form posts without a valid token', async () => {
+      const cookie = await login()
+
+      const missing = await post('/admin/create', {
+        body: createForm(),
+        headers: { Cookie: cookie, Origin: origin },
+      })
+      const wrong = await post('/admin/create', {
+        body: createForm('0'.repeat(64)),
+        headers: { Cookie: cookie, Origin: origin },
+      })
+
+      expect(missing.status).toBe(403)
+      expect(wrong.status).toBe(403)
+      expect(await testEnv.URLS_KV.get('urls:test-slug')).toBeNull()
+    })
+
+    it('should tie the token to the session', async () => {
+      const token = await getToken(await login())
+      const response = await post('/admin/create', {
+        body: createForm(token),
+        headers: { Cookie: await login(), Origin: origin },
+      })
+
+      expect(response.status).toBe(403)
+    })
+
+    it('should reject posts from another origin', async () => {
+      const cookie = await login()
+      const token = await getToken(cookie)
+
+      const crossSite = await post('/admin/create', {
+        body: createForm(token),
+        headers: { Cookie: cookie, Origin: 'https://evil.example' },
+      })
+      const noOrigin = await post('/admin/create', {
+        body: createForm(token),
+        headers: { Cookie: cookie },
+      })
+      const api = await post('/admin/urls', {
+        body: JSON.stringify({ url: 'https://example.com' }),
+        headers: { Cookie: cookie, 'Content-Type': 'application/json' },
+      })
+
+      expect(crossSite.status).toBe(403)
+      expect(noOrigin.status).toBe(403)
+      expect(api.status).toBe(403)
+    })
+
+    it('should accept a same-origin Referer when there is no Origin', async () => {
+      const cookie = await login()
+      const response = await post('/admin/create', {
+        body: createForm(await getToken(cookie)),
+        headers: { Cookie: cookie, Referer: getTestUrl('/admin') },
+      })
+
+      expect(response.status).toBe(302)
+      expect(await testEnv.URLS_KV.get('urls:test-slug')).not.toBeNull()
+    })
+
+    it('should not log out on a forged request', async () => {
+      const cookie = await login()
+      const response = await post('/admin/logout', {
+        body: new FormData(),
+        headers: { Cookie: cookie, Origin: origin },
+      })
+
+      expect(response.status).toBe(403)
+      const admin = await worker.fetch(
+        new Request(getTestUrl('/admin'), { headers: { Cookie: cookie } }),
+        testEnv,
+        {} as ExecutionContext
+      )
+      expect(admin.status).toBe(200)
+    })
+  })
+
+  describe('Trash', () => {
+    it('should list deleted URLs with restore and purge forms', async () => {
+      const testURL = { ...createTestURL('test-slug'), deletedAt: '2024-02-01T00:00:00.000Z' }
+      await testEnv.URLS_KV.put('urls:test-slug', JSON.stringify(testURL))
+
+      const response = await worker.fetch(
+        await createSessionRequest(getTestUrl('/admin/trash')),
+        testEnv,
+        {} as ExecutionContext
+      )
+      const html = await response.text()
+
+      expect(response.status).toBe(200)
+      expect(html).toContain('/test-slug')
+      expect(html).toContain('action="/admin/restore/test-slug"')
+      expect(html).toContain('action="/admin/purge/test-slug"')
+    })
+
+    it('should restore a URL and redirect back to the trash', async () => {
+      const testURL = { ...createTestURL('test-slug'), deletedAt: '2024-02-01T00:00:00.000Z' }
+      await testEnv.URLS_KV.put('urls:test-slug', JSON.stringify(testURL))
+
+      const response = await worker.fetch(
+        await createSessionRequest(getTestUrl('/admin/restore/test-slug'), {
+          method: 'POST',
+          body: new FormData(),
+        }),
+        testEnv,
+        {} as ExecutionContext
+      )
+
+      expect(response.status).toBe(302)
+      expect(response.headers.get('Location')).toContain('/admin/trash?success=')
+      const restored = JSON.parse((await testEnv.URLS_KV.get('urls:test-slug'))!)
+      expect(restored.deletedAt).toBeUndefined()
+    })
+  })
+
+  describe('Edit Form', () => {
+    it('should display edit form for existing URL', async () => {
+      const testURL = createTestURL(
+        'test-slug',
+        'https://example.com/edit-test'
+      )
+      await testEnv.URLS_KV.put('urls:test-slug', JSON.stringify(testURL))
+
+      const request = await createSessionRequest(
+        getTestUrl('/admin/edit/test-slug')
+      )
+      const response = await worker.fetch(
+        request,
+        testEnv,
+        {} as ExecutionContext
+      )
+      const html = await response.text()
+
+      expect(response.status).toBe(200)
+      expect(html).toContain('Edit Short URL')
+      expect(html).toContain('test-slug')
+      expect(html).toContain('https:&#x2F;&#x2F;example.com&#x2F;edit-test')
+      expect(html).toContain('Update URL')
+      expect(html).toContain('Cancel')
+    })
+
+    it('should return 404 for non-existent URL', async () => {
+      const request = await createSessionRequest(
+        getTestUrl('/admin/edit/non-existent')
+      )
+      const response = await worker.fetch(
+        request,
+        testEnv,
+        {} as ExecutionContext
+      )
+
+      expect(response.status).toBe(404)
+    })
+  })
+
+  describe('Stats Page', () => {
+    it('should render charts for an existing URL', async () => {
+      await testEnv.URLS_KV.put(
+        'urls:test-slug',
+        JSON.stringify(createTestURL('test-slug'))
+      )
+
+      const request = await createSessionRequest(
+        getTestUrl('/admin/stats/test-slug')
+      )
+      const response = await worker.fetch(
+        request,
+        testEnv,
+        {} as ExecutionContext
+      )
+      const html = await response.text()
+
+      expect(response.status).toBe(200)
+      expect(html).toContain('Stats for /test-slug')
+      expect(html).toContain('<svg class="chart"')
+      expect(html).not.toContain('<script')
+    })
+
+    it('should return 404 for non-existent URL', async () => {
+      const request = await createSessionRequest(
+        getTestUrl('/admin/stats/non-existent')
       )
       const response = await worker.fetch(
         request,
@@ -268,6 +1382,7 @@ describe('Admin UI', () => {
         getTestUrl('/admin/logout'),
         {
           method: 'POST',
+          body: new FormData(),
         }
       )
 
@@ -1,4 +1,4 @@
-import { describe, it, expect } from 'vitest'
+import { describe, it, expect, beforeEach } from 'vitest'
 import worker from '../src/index'
 import {
   testEnv,
@@ -6,7 +6,15 @@ import {
   createTestURL,
   getTestUrl,
   getTestBaseUrl,
+  createTestContext,
 } from './test-setup'
+import { issueToken, listTokens, revokeToken } from '../src/tokens'
+import {
+  getClickCounter,
+  listClickEvents,
+  continueClickMoves,
+} from '../src/analytics'
+import { hashPassword } from '../src/users'
 
 type ExecutionContext = import('@cloudflare/workers-types').ExecutionContext
 
@@ -100,6 +108,103 @@ describe('API Endpoints', () => {
       expect(result.error).toBe('URL contains dangerous content')
     })
 
+    it('should create URL with expiry and click limit', async () => {
+      const request = createAuthenticatedRequest(
+        getTestUrl('/admin/urls'),
+        {
+          method: 'POST',
+          body: JSON.stringify({
+            url: 'https://example.com/event',
+            slug: 'event',
+            activatesAt: '2030-01-01T09:00',
+            expiresAt: '2030-02-01T00:00:00Z',
+            maxClicks: 100,
+          }),
+        }
+      )
+
+      const response = await worker.fetch(
+        request,
+        testEnv,
+        {} as ExecutionContext
+      )
+      const result = await response.json()
+
+      expect(response.status).toBe(201)
+      expect(result.data.activatesAt).toBe('2030-01-01T09:00:00.000Z')
+      expect(result.data.expiresAt).toBe('2030-02-01T00:00:00.000Z')
+      expect(result.data.maxClicks).toBe(100)
+    })
+
+    it('should create URL with tags', async () => {
+      const request = createAuthenticatedRequest(
+        getTestUrl('/admin/urls'),
+        {
+          method: 'POST',
+          body: JSON.stringify({
+            url: 'https://example.com/talk',
+            tags: ['Talks', 'django'],
+          }),
+        }
+      )
+
+      const response = await worker.fetch(
+        request,
+        testEnv,
+        {} as ExecutionContext
+      )
+      const result = await response.json()
+
+      expect(response.status).toBe(201)
+      expect(result.data.tags).toEqual(['talks', 'django'])
+    })
+
+    it('should reject invalid schedule fields', async () => {
+      const request = createAuthenticatedRequest(
+        getTestUrl('/admin/urls'),
+        {
+          method: 'POST',
+          body: JSON.stringify({
+            url: 'https://example.com/event',
+            expiresAt: 'next tuesday',
+          }),
+        }
+      )
+
+      const response = await worker.fetch(
+        request,
+        testEnv,
+        {} as ExecutionContext
+      )
+      const result = await response.json()
+
+      expect(response.status).toBe(400)
+      expect(result.error).toBe('Invalid expiresAt date')
+    })
+
+    it('should reject an unknown UTM template', async () => {
+      const request = createAuthenticatedRequest(
+        getTestUrl('/admin/urls'),
+        {
+          method: 'POST',
+          body: JSON.stringify({
+            url: 'https://example.com/event',
+            utmTemplate: 'missing',
+          }),
+        }
+      )
+
+      const response = await worker.fetch(
+        request,
+        testEnv,
+        {} as ExecutionContext
+      )
+      const result = await response.json()
+
+      expect(response.status).toBe(400)
+      expect(result.error).toBe('UTM template not found')
+    })
+
     it('should reject duplicate slug', async () => {
       // Create first URL
       await testEnv.URLS_KV.put(
@@ -148,123 +253,1468 @@ describe('API Endpoints', () => {
     })
   })
 
-  describe('PUT /admin/urls/{slug}', () => {
-    it('should update existing URL', async () => {
-      // Create test URL
-      const testURL = createTestURL('test-slug', 'https://old-url.com')
-      await testEnv.URLS_KV.put('urls:test-slug', JSON.stringify(testURL))
-
-      const request = createAuthenticatedRequest(
-        getTestUrl('/admin/urls/test-slug'),
+  describe('GET /admin/urls', () => {
+    async function seedURLs() {
+      const records = [
         {
-          method: 'PUT',
-          body: JSON.stringify({ url: 'https://new-url.com' }),
-        }
+          ...createTestURL('django-talk', 'https://www.djangoproject.com/talk'),
+          created: '2024-01-01T00:00:00Z',
+          metadata: { title: 'Django origins talk' },
+          tags: ['talks'],
+        },
+        {
+          ...createTestURL('gh-repo', 'https://github.com/dannysmith/dny.li'),
+          created: '2024-02-01T00:00:00Z',
+          metadata: { title: 'Source code' },
+        },
+        {
+          ...createTestURL('gh-issue', 'https://github.com/dannysmith/dny.li/issues/1'),
+          created: '2024-03-01T00:00:00Z',
+          metadata: { title: 'An issue', description: 'About Django' },
+        },
+      ]
+      for (const record of records) {
+        await testEnv.URLS_KV.put(`urls:${record.slug}`, JSON.stringify(record))
+      }
+      await testEnv.URLS_KV.put(
+        'counter:gh-repo',
+        JSON.stringify({ total: 9, daily: {} })
       )
+    }
 
+    async function list(query: string) {
       const response = await worker.fetch(
-        request,
+        createAuthenticatedRequest(getTestUrl(`/admin/urls${query}`)),
+        testEnv,
+        {} as ExecutionContext
+      )
+      return { response, result: (await response.json()) as any }
+    }
+
+    it('should search slug, URL and metadata', async () => {
+      await seedURLs()
+      const { result } = await list('?q=django')
+
+      expect(result.total).toBe(2)
+      expect(result.data.map((u: any) => u.slug)).toEqual(['gh-issue', 'django-talk'])
+    })
+
+    it('should filter by domain, tag and date range', async () => {
+      await seedURLs()
+
+      expect((await list('?domain=github.com')).result.total).toBe(2)
+      expect((await list('?tag=talks')).result.data[0].slug).toBe('django-talk')
+      expect(
+        (await list('?from=2024-02-01&to=2024-02-01')).result.data.map(
+          (u: any) => u.slug
+        )
+      ).toEqual(['gh-repo'])
+    })
+
+    it('should sort by clicks and include click counts', async () => {
+      await seedURLs()
+      const { result } = await list('?sort=clicks')
+
+      expect(result.data[0].slug).toBe('gh-repo')
+      expect(result.data[0].clicks.total).toBe(9)
+    })
+
+    it('should paginate with a cursor', async () => {
+      await seedURLs()
+      const first = await list('?limit=2')
+
+      expect(first.result.data).toHaveLength(2)
+      expect(first.result.cursor).toBeTruthy()
+
+      const second = await list(`?limit=2&cursor=${first.result.cursor}`)
+      expect(second.result.data.map((u: any) => u.slug)).toEqual(['django-talk'])
+      expect(second.result.cursor).toBeNull()
+    })
+
+    it('should reject an invalid cursor', async () => {
+      const { response, result } = await list('?cursor=not-a-cursor')
+
+      expect(response.status).toBe(400)
+      expect(result.error).toBe('Invalid cursor')
+    })
+  })
+
+  describe('POST /admin/import', () => {
+    const importRequest = (query: string, body: string) =>
+      createAuthenticatedRequest(getTestUrl(`/admin/import${query}`), {
+        method: 'POST',
+        body,
+      })
+
+    it('should import our own JSON backup format', async () => {
+      const backup = [
+        { ...createTestURL('first', 'https://example.com/1'), tags: ['talks'], aliases: ['one'] },
+        createTestURL('second', 'https://example.com/2'),
+      ]
+
+      const response = await worker.fetch(
+        importRequest('', JSON.stringify(backup)),
         testEnv,
         {} as ExecutionContext
       )
       const result = await response.json()
 
       expect(response.status).toBe(200)
-      expect(result.success).toBe(true)
-      expect(result.data.url).toBe('https://new-url.com/')
-      expect(result.data.slug).toBe('test-slug')
+      expect(result.data.summary).toEqual({ created: 2, overwritten: 0, skipped: 0, failed: 0 })
+
+      const stored = JSON.parse((await testEnv.URLS_KV.get('urls:first'))!)
+      expect(stored.created).toBe('2024-01-01T00:00:00.000Z')
+      expect(stored.tags).toEqual(['talks'])
+      expect(stored.metadata.title).toBe('Test Page Title')
+      expect(await testEnv.URLS_KV.get('alias:one')).not.toBeNull()
     })
 
-    it('should return 404 for non-existent slug', async () => {
-      const request = createAuthenticatedRequest(
-        getTestUrl('/admin/urls/non-existent'),
-        {
-          method: 'PUT',
-          body: JSON.stringify({ url: 'https://example.com' }),
-        }
-      )
+    it('should import CSV and report without writing on a dry run', async () => {
+      const csv = [
+        'url,slug,created,title',
+        'https://example.com/a,csv-one,2024-02-01,First',
+        'https://example.com/b,,,',
+        'javascript:alert(1),bad-one,,',
+      ].join('\n')
 
       const response = await worker.fetch(
-        request,
+        importRequest('?format=csv&dryRun=true', csv),
         testEnv,
         {} as ExecutionContext
       )
       const result = await response.json()
 
-      expect(response.status).toBe(404)
-      expect(result.error).toBe('URL not found')
+      expect(response.status).toBe(200)
+      expect(result.data.dryRun).toBe(true)
+      expect(result.data.summary).toEqual({ created: 2, overwritten: 0, skipped: 0, failed: 1 })
+      expect(result.data.rows[2].reason).toBe('Invalid URL format')
+      expect(await testEnv.URLS_KV.get('urls:csv-one')).toBeNull()
     })
 
-    it('should reject invalid URL', async () => {
-      const testURL = createTestURL('test-slug')
-      await testEnv.URLS_KV.put('urls:test-slug', JSON.stringify(testURL))
+    it('should apply the conflict policy to existing slugs', async () => {
+      await testEnv.URLS_KV.put('urls:taken', JSON.stringify(createTestURL('taken')))
+      const csv = 'url,slug\nhttps://example.com/new,taken\n'
 
-      const request = createAuthenticatedRequest(
-        getTestUrl('/admin/urls/test-slug'),
-        {
-          method: 'PUT',
-          body: JSON.stringify({ url: 'not a url either' }),
-        }
+      const skip = await worker.fetch(
+        importRequest('?format=csv', csv),
+        testEnv,
+        {} as ExecutionContext
+      )
+      expect((await skip.json()).data.rows[0].action).toBe('skipped')
+
+      const suffix = await worker.fetch(
+        importRequest('?format=csv&conflict=suffix', csv),
+        testEnv,
+        {} as ExecutionContext
+      )
+      expect((await suffix.json()).data.rows[0]).toMatchObject({
+        action: 'created',
+        slug: 'taken-2',
+        requestedSlug: 'taken',
+      })
+
+      const overwrite = await worker.fetch(
+        importRequest('?format=csv&conflict=overwrite', csv),
+        testEnv,
+        {} as ExecutionContext
       )
+      expect((await overwrite.json()).data.rows[0].action).toBe('overwritten')
+      const stored = JSON.parse((await testEnv.URLS_KV.get('urls:taken'))!)
+      expect(stored.url).toBe('https://example.com/new')
+    })
+
+    it('should import Shlink API exports', async () => {
+      const body = JSON.stringify({
+        shortUrls: {
+          data: [
+            {
+              shortCode: 'shl-1',
+              longUrl: 'https://example.com/shlink',
+              dateCreated: '2023-01-01T00:00:00+00:00',
+              tags: ['docs'],
+              meta: { validUntil: '2030-01-01T00:00:00+00:00', maxVisits: 5 },
+            },
+          ],
+        },
+      })
 
       const response = await worker.fetch(
-        request,
+        importRequest('?format=shlink', body),
+        testEnv,
+        {} as ExecutionContext
+      )
+      expect(response.status).toBe(200)
+
+      const stored = JSON.parse((await testEnv.URLS_KV.get('urls:shl-1'))!)
+      expect(stored.expiresAt).toBe('2030-01-01T00:00:00.000Z')
+      expect(stored.maxClicks).toBe(5)
+      expect(stored.tags).toEqual(['docs'])
+    })
+
+    it('should not import protected links without their hash', async () => {
+      const backup = [{ ...createTestURL('locked'), protected: true }]
+
+      const response = await worker.fetch(
+        importRequest('', JSON.stringify(backup)),
         testEnv,
         {} as ExecutionContext
       )
       const result = await response.json()
 
-      expect(response.status).toBe(400)
-      expect(result.error).toBe('Invalid URL format')
+      expect(result.data.rows[0]).toMatchObject({
+        action: 'failed',
+        reason: 'Protected links need their passphrase hash',
+      })
+      expect(await testEnv.URLS_KV.get('urls:locked')).toBeNull()
+    })
+
+    it('should only import passphrase hashes with the usual iteration count', async () => {
+      const hash = await hashPassword('open sesame')
+      const backup = [
+        { ...createTestURL('weak'), passwordHash: hash.replace('$100000$', '$1$') },
+        { ...createTestURL('strong'), passwordHash: hash },
+      ]
+
+      const response = await worker.fetch(
+        importRequest('', JSON.stringify(backup)),
+        testEnv,
+        {} as ExecutionContext
+      )
+      const result = await response.json()
+
+      expect(result.data.rows[0]).toMatchObject({
+        action: 'failed',
+        reason: 'Invalid password hash',
+      })
+      expect(result.data.rows[1].action).toBe('created')
+      expect(await testEnv.URLS_KV.get('urls:weak')).toBeNull()
+    })
+
+    it('should reject invalid options and unreadable data', async () => {
+      const badPolicy = await worker.fetch(
+        importRequest('?conflict=replace', '[]'),
+        testEnv,
+        {} as ExecutionContext
+      )
+      expect(badPolicy.status).toBe(400)
+
+      const badJSON = await worker.fetch(
+        importRequest('', '{not json'),
+        testEnv,
+        {} as ExecutionContext
+      )
+      expect(badJSON.status).toBe(400)
     })
   })
 
-  describe('DELETE /admin/urls/{slug}', () => {
-    it('should delete existing URL', async () => {
-      // Create test URL
-      const testURL = createTestURL('test-slug')
-      await testEnv.URLS_KV.put('urls:test-slug', JSON.stringify(testURL))
+  describe('GET /admin/export', () => {
+    const exportRequest = (query: string) =>
+      createAuthenticatedRequest(getTestUrl(`/admin/export${query}`), {
+        method: 'GET',
+      })
 
-      const request = createAuthenticatedRequest(
-        getTestUrl('/admin/urls/test-slug'),
-        {
-          method: 'DELETE',
-        }
+    beforeEach(async () => {
+      await testEnv.URLS_KV.put(
+        'urls:talk',
+        JSON.stringify({ ...createTestURL('talk', 'https://example.com/talk'), tags: ['talks'] })
+      )
+      await testEnv.URLS_KV.put(
+        'urls:other',
+        JSON.stringify({ ...createTestURL('other', 'https://example.com/other'), created: '2024-06-01T00:00:00Z' })
       )
+    })
 
+    it('should export JSON filtered by tag', async () => {
       const response = await worker.fetch(
-        request,
+        exportRequest('?tag=talks'),
         testEnv,
         {} as ExecutionContext
       )
       const result = await response.json()
 
       expect(response.status).toBe(200)
-      expect(result.success).toBe(true)
-      expect(result.message).toBe('URL deleted successfully')
+      expect(response.headers.get('Content-Disposition')).toMatch(/attachment; filename=".*\.json"/)
+      expect(result).toHaveLength(1)
+      expect(result[0].slug).toBe('talk')
+      expect(result[0].metadata.title).toBe('Test Page Title')
+    })
 
-      // Verify it's actually deleted
-      const deleted = await testEnv.URLS_KV.get('urls:test-slug')
-      expect(deleted).toBeNull()
+    it('should export NDJSON filtered by date without metadata', async () => {
+      const response = await worker.fetch(
+        exportRequest('?format=ndjson&from=2024-05-01&metadata=0'),
+        testEnv,
+        {} as ExecutionContext
+      )
+      const lines = (await response.text()).trim().split('\n')
+
+      expect(response.headers.get('Content-Type')).toBe('application/x-ndjson')
+      expect(lines).toHaveLength(1)
+      expect(JSON.parse(lines[0]).slug).toBe('other')
+      expect(JSON.parse(lines[0]).metadata).toBeUndefined()
     })
 
-    it('should return 404 for non-existent slug', async () => {
-      const request = createAuthenticatedRequest(
-        getTestUrl('/admin/urls/non-existent'),
-        {
-          method: 'DELETE',
-        }
+    it('should export CSV with click counts', async () => {
+      await testEnv.URLS_KV.put(
+        'counter:talk',
+        JSON.stringify({ total: 12, daily: {} })
       )
 
       const response = await worker.fetch(
-        request,
+        exportRequest('?format=csv&clicks=1&tag=talks'),
         testEnv,
         {} as ExecutionContext
       )
-      const result = await response.json()
+      const [header, row] = (await response.text()).trim().split('\r\n')
 
-      expect(response.status).toBe(404)
-      expect(result.error).toBe('URL not found')
+      expect(header).toBe(
+        'url,slug,created,updated,tags,aliases,activatesAt,expiresAt,maxClicks,title,description,image,clicks,clicksLast7Days'
+      )
+      expect(row).toContain('https://example.com/talk,talk,')
+      expect(row).toMatch(/,12,0$/)
+    })
+
+    it('should export a Netscape bookmarks file', async () => {
+      const response = await worker.fetch(
+        exportRequest('?format=html'),
+        testEnv,
+        {} as ExecutionContext
+      )
+      const html = await response.text()
+
+      expect(html).toContain('<!DOCTYPE NETSCAPE-Bookmark-file-1>')
+      expect(html).toContain('<A HREF="https:&#x2F;&#x2F;example.com&#x2F;talk"')
+      expect(html).toContain('TAGS="talks"')
+    })
+
+    it('should flag protected links without exporting their hash', async () => {
+      await testEnv.URLS_KV.put(
+        'urls:talk',
+        JSON.stringify({ ...createTestURL('talk'), tags: ['talks'], passwordHash: 'pbkdf2$1$ab$cd' })
+      )
+
+      const response = await worker.fetch(
+        exportRequest('?tag=talks'),
+        testEnv,
+        {} as ExecutionContext
+      )
+      const text = await response.text()
+
+      expect(JSON.parse(text)[0].protected).toBe(true)
+      expect(text).not.toContain('pbkdf2')
+    })
+
+    it('should restore protected links from a full backup', async () => {
+      await testEnv.URLS_KV.put(
+        'urls:locked',
+        JSON.stringify({
+          ...createTestURL('locked', 'https://example.com/secret'),
+          passwordHash: await hashPassword('open sesame'),
+        })
+      )
+
+      const csv = await worker.fetch(
+        exportRequest('?format=csv&secrets=1'),
+        testEnv,
+        {} as ExecutionContext
+      )
+      expect(csv.status).toBe(400)
+
+      const backup = await worker.fetch(
+        exportRequest('?secrets=1'),
+        testEnv,
+        {} as ExecutionContext
+      )
+      const body = await backup.text()
+      expect(body).toContain('pbkdf2')
+
+      await testEnv.URLS_KV.delete('urls:locked')
+      const restored = await worker.fetch(
+        createAuthenticatedRequest(getTestUrl('/admin/import'), {
+          method: 'POST',
+          body,
+        }),
+        testEnv,
+        {} as ExecutionContext
+      )
+      expect((await restored.json()).data.summary.failed).toBe(0)
+
+      const formData = new FormData()
+      formData.append('password', 'open sesame')
+      const unlock = await worker.fetch(
+        new Request(getTestUrl('/locked'), { method: 'POST', body: formData }),
+        testEnv,
+        createTestContext()
+      )
+      expect(unlock.status).toBe(302)
+      expect(unlock.headers.get('Location')).toBe('https://example.com/secret')
+    })
+
+    it('should reject an invalid format', async () => {
+      const response = await worker.fetch(
+        exportRequest('?format=xml'),
+        testEnv,
+        {} as ExecutionContext
+      )
+
+      expect(response.status).toBe(400)
+    })
+  })
+
+  describe('POST /admin/index/rebuild', () => {
+    it('should rebuild the index from primary records', async () => {
+      await testEnv.URLS_KV.put('urls:one', JSON.stringify(createTestURL('one')))
+      await testEnv.URLS_KV.put('urls:two', JSON.stringify(createTestURL('two')))
+
+      const response = await worker.fetch(
+        createAuthenticatedRequest(getTestUrl('/admin/index/rebuild'), {
+          method: 'POST',
+        }),
+        testEnv,
+        {} as ExecutionContext
+      )
+      const result = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(result.data.count).toBe(2)
+    })
+
+    it('should require authentication', async () => {
+      const response = await worker.fetch(
+        new Request(getTestUrl('/admin/index/rebuild'), { method: 'POST' }),
+        testEnv,
+        {} as ExecutionContext
+      )
+
+      expect(response.status).toBe(401)
+    })
+  })
+
+  describe('PUT /admin/urls/{slug}', () => {
+    it('should update existing URL', async () => {
+      // Create test URL
+      const testURL = createTestURL('test-slug', 'https://old-url.com')
+      await testEnv.URLS_KV.put('urls:test-slug', JSON.stringify(testURL))
+
+      const request = createAuthenticatedRequest(
+        getTestUrl('/admin/urls/test-slug'),
+        {
+          method: 'PUT',
+          body: JSON.stringify({ url: 'https://new-url.com' }),
+        }
+      )
+
+      const response = await worker.fetch(
+        request,
+        testEnv,
+        {} as ExecutionContext
+      )
+      const result = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(result.success).toBe(true)
+      expect(result.data.url).toBe('https://new-url.com/')
+      expect(result.data.slug).toBe('test-slug')
+    })
+
+    it('should set and clear the redirect type', async () => {
+      await testEnv.URLS_KV.put(
+        'urls:test-slug',
+        JSON.stringify(createTestURL('test-slug'))
+      )
+      const update = (redirectType: unknown) =>
+        worker.fetch(
+          createAuthenticatedRequest(getTestUrl('/admin/urls/test-slug'), {
+            method: 'PUT',
+            body: JSON.stringify({ url: 'https://example.com', redirectType }),
+          }),
+          testEnv,
+          {} as ExecutionContext
+        )
+
+      expect((await update(303)).status).toBe(400)
+
+      const set = await update(302)
+      expect((await set.json()).data.redirectType).toBe(302)
+
+      const cleared = await update(null)
+      expect((await cleared.json()).data.redirectType).toBeUndefined()
+    })
+
+    it('should set, keep and clear the forwarding options', async () => {
+      await testEnv.URLS_KV.put(
+        'urls:test-slug',
+        JSON.stringify(createTestURL('test-slug'))
+      )
+      const update = (body: object) =>
+        worker.fetch(
+          createAuthenticatedRequest(getTestUrl('/admin/urls/test-slug'), {
+            method: 'PUT',
+            body: JSON.stringify({ url: 'https://example.com', ...body }),
+          }),
+          testEnv,
+          {} as ExecutionContext
+        )
+
+      expect((await update({ queryPassthrough: 'always' })).status).toBe(400)
+      expect((await update({ prefix: 'yes' })).status).toBe(400)
+
+      await update({ queryPassthrough: 'incoming', prefix: true })
+      const kept = await update({})
+      const { data } = await kept.json()
+      expect(data.queryPassthrough).toBe('incoming')
+      expect(data.prefix).toBe(true)
+
+      const cleared = await update({ queryPassthrough: null, prefix: false })
+      const { data: after } = await cleared.json()
+      expect(after.queryPassthrough).toBeUndefined()
+      expect(after.prefix).toBeUndefined()
+    })
+
+    it('should set and clear UTM parameters', async () => {
+      await testEnv.URLS_KV.put(
+        'urls:test-slug',
+        JSON.stringify(createTestURL('test-slug'))
+      )
+      const update = (utm: unknown) =>
+        worker.fetch(
+          createAuthenticatedRequest(getTestUrl('/admin/urls/test-slug'), {
+            method: 'PUT',
+            body: JSON.stringify({ url: 'https://example.com', utm }),
+          }),
+          testEnv,
+          {} as ExecutionContext
+        )
+
+      expect((await update({ utm_ref: 'x' })).status).toBe(400)
+
+      const set = await update({ utm_source: 'twitter', medium: ' social ' })
+      expect((await set.json()).data.utm).toEqual({
+        source: 'twitter',
+        medium: 'social',
+      })
+
+      const cleared = await update(null)
+      expect((await cleared.json()).data.utm).toBeUndefined()
+    })
+
+    it('should validate, set and clear targeting rules', async () => {
+      await testEnv.URLS_KV.put(
+        'urls:test-slug',
+        JSON.stringify(createTestURL('test-slug'))
+      )
+      const update = async (targets: unknown) => {
+        const response = await worker.fetch(
+          createAuthenticatedRequest(getTestUrl('/admin/urls/test-slug'), {
+            method: 'PUT',
+            body: JSON.stringify({ url: 'https://example.com', targets }),
+          }),
+          testEnv,
+          {} as ExecutionContext
+        )
+        return { status: response.status, result: await response.json() }
+      }
+
+      const dangerous = await update([{ os: ['iOS'], url: 'http://localhost/app' }])
+      expect(dangerous.status).toBe(400)
+      expect(dangerous.result.error).toBe(
+        'Targeting rule 1 has an invalid destination URL'
+      )
+      expect((await update([{ url: 'https://example.org' }])).status).toBe(400)
+      expect(
+        (await update([{ os: ['BeOS'], url: 'https://example.org' }])).status
+      ).toBe(400)
+
+      const set = await update([
+        { os: 'ios, android', country: ['us'], url: 'example.org/app' },
+      ])
+      expect(set.result.data.targets).toEqual([
+        { os: ['iOS', 'Android'], country: ['US'], url: 'https://example.org/app' },
+      ])
+
+      const cleared = await update([])
+      expect(cleared.result.data.targets).toBeUndefined()
+    })
+
+    it('should validate, set and clear A/B variants', async () => {
+      await testEnv.URLS_KV.put(
+        'urls:test-slug',
+        JSON.stringify(createTestURL('test-slug'))
+      )
+      const update = async (variants: unknown) => {
+        const response = await worker.fetch(
+          createAuthenticatedRequest(getTestUrl('/admin/urls/test-slug'), {
+            method: 'PUT',
+            body: JSON.stringify({ url: 'https://example.com', variants }),
+          }),
+          testEnv,
+          {} as ExecutionContext
+        )
+        return { status: response.status, result: await response.json() }
+      }
+
+      expect((await update([{ name: 'a', url: 'https://example.org' }])).status).toBe(400)
+      expect(
+        (
+          await update([
+            { name: 'a', weight: 1, url: 'https://example.org' },
+            { name: 'b', weight: 1, url: 'javascript:alert(1)' },
+          ])
+        ).status
+      ).toBe(400)
+
+      const set = await update([
+        { name: 'A', weight: '70', url: 'example.org/a' },
+        { name: 'b', weight: 30, url: 'https://example.org/b' },
+      ])
+      expect(set.result.data.variants).toEqual([
+        { name: 'a', weight: 70, url: 'https://example.org/a' },
+        { name: 'b', weight: 30, url: 'https://example.org/b' },
+      ])
+
+      const cleared = await update(null)
+      expect(cleared.result.data.variants).toBeUndefined()
+    })
+
+    it('should set, keep and remove a passphrase', async () => {
+      await testEnv.URLS_KV.put(
+        'urls:test-slug',
+        JSON.stringify(createTestURL('test-slug'))
+      )
+      const update = (body: object) =>
+        worker.fetch(
+          createAuthenticatedRequest(getTestUrl('/admin/urls/test-slug'), {
+            method: 'PUT',
+            body: JSON.stringify({ url: 'https://example.com', ...body }),
+          }),
+          testEnv,
+          {} as ExecutionContext
+        )
+      const stored = async () =>
+        JSON.parse((await testEnv.URLS_KV.get('urls:test-slug'))!)
+
+      expect((await update({ password: 'abc' })).status).toBe(400)
+
+      const set = await (await update({ password: 'open sesame' })).json()
+      expect(set.data.protected).toBe(true)
+      expect(set.data.passwordHash).toBeUndefined()
+      const hash = (await stored()).passwordHash
+      expect(hash).toMatch(/^pbkdf2\$/)
+      expect(JSON.stringify(await stored())).not.toContain('open sesame')
+
+      await update({})
+      expect((await stored()).passwordHash).toBe(hash)
+
+      await update({ password: null })
+      expect((await stored()).passwordHash).toBeUndefined()
+
+      const history = await worker.fetch(
+        createAuthenticatedRequest(getTestUrl('/admin/urls/test-slug/history')),
+        testEnv,
+        {} as ExecutionContext
+      )
+      const text = await history.text()
+      expect(text).toContain('"password":{"changed":true}')
+      expect(text).not.toContain('pbkdf2')
+    })
+
+    it('should clear schedule fields set to null', async () => {
+      const testURL = {
+        ...createTestURL('test-slug'),
+        expiresAt: '2020-01-01T00:00:00.000Z',
+      }
+      await testEnv.URLS_KV.put('urls:test-slug', JSON.stringify(testURL))
+
+      const request = createAuthenticatedRequest(
+        getTestUrl('/admin/urls/test-slug'),
+        {
+          method: 'PUT',
+          body: JSON.stringify({ url: 'https://example.com', expiresAt: null }),
+        }
+      )
+
+      const response = await worker.fetch(
+        request,
+        testEnv,
+        {} as ExecutionContext
+      )
+      const result = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(result.data.expiresAt).toBeUndefined()
+    })
+
+    it('should return 404 for non-existent slug', async () => {
+      const request = createAuthenticatedRequest(
+        getTestUrl('/admin/urls/non-existent'),
+        {
+          method: 'PUT',
+          body: JSON.stringify({ url: 'https://example.com' }),
+        }
+      )
+
+      const response = await worker.fetch(
+        request,
+        testEnv,
+        {} as ExecutionContext
+      )
+      const result = await response.json()
+
+      expect(response.status).toBe(404)
+      expect(result.error).toBe('URL not found')
+    })
+
+    it('should reject invalid URL', async () => {
+      const testURL = createTestURL('test-slug')
+      await testEnv.URLS_KV.put('urls:test-slug', JSON.stringify(testURL))
+
+      const request = createAuthenticatedRequest(
+        getTestUrl('/admin/urls/test-slug'),
+        {
+          method: 'PUT',
+          body: JSON.stringify({ url: 'not a url either' }),
+        }
+      )
+
+      const response = await worker.fetch(
+        request,
+        testEnv,
+        {} as ExecutionContext
+      )
+      const result = await response.json()
+
+      expect(response.status).toBe(400)
+      expect(result.error).toBe('Invalid URL format')
+    })
+  })
+
+  describe('DELETE /admin/urls/{slug}', () => {
+    it('should delete existing URL', async () => {
+      // Create test URL
+      const testURL = createTestURL('test-slug')
+      await testEnv.URLS_KV.put('urls:test-slug', JSON.stringify(testURL))
+
+      const request = createAuthenticatedRequest(
+        getTestUrl('/admin/urls/test-slug'),
+        {
+          method: 'DELETE',
+        }
+      )
+
+      const response = await worker.fetch(
+        request,
+        testEnv,
+        {} as ExecutionContext
+      )
+      const result = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(result.success).toBe(true)
+      expect(result.message).toBe('URL moved to trash')
+
+      // Verify it's in the trash rather than gone
+      const deleted = JSON.parse((await testEnv.URLS_KV.get('urls:test-slug'))!)
+      expect(deleted.deletedAt).toBeDefined()
+    })
+
+    it('should return 404 for non-existent slug', async () => {
+      const request = createAuthenticatedRequest(
+        getTestUrl('/admin/urls/non-existent'),
+        {
+          method: 'DELETE',
+        }
+      )
+
+      const response = await worker.fetch(
+        request,
+        testEnv,
+        {} as ExecutionContext
+      )
+      const result = await response.json()
+
+      expect(response.status).toBe(404)
+      expect(result.error).toBe('URL not found')
+    })
+  })
+
+  describe('URL history', () => {
+    const apiRequest = (path: string, method: string, body?: unknown) =>
+      createAuthenticatedRequest(getTestUrl(path), {
+        method,
+        body: body === undefined ? undefined : JSON.stringify(body),
+      })
+
+    beforeEach(async () => {
+      await worker.fetch(
+        apiRequest('/admin/urls', 'POST', { url: 'https://example.com/v1', slug: 'test-slug' }),
+        testEnv,
+        {} as ExecutionContext
+      )
+      await worker.fetch(
+        apiRequest('/admin/urls/test-slug', 'PUT', { url: 'https://example.com/v2', tags: 'docs' }),
+        testEnv,
+        {} as ExecutionContext
+      )
+    })
+
+    it('should record each change with its actor, newest first', async () => {
+      const response = await worker.fetch(
+        apiRequest('/admin/urls/test-slug/history', 'GET'),
+        testEnv,
+        {} as ExecutionContext
+      )
+      const result = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(result.data).toHaveLength(2)
+      expect(result.data[0]).toMatchObject({
+        id: 2,
+        action: 'update',
+        actor: { type: 'api-key' },
+      })
+      expect(result.data[0].changes.url).toEqual({
+        before: 'https://example.com/v1',
+        after: 'https://example.com/v2',
+      })
+      expect(result.data[0].changes.tags).toEqual({ after: ['docs'] })
+      expect(result.data[1].action).toBe('create')
+    })
+
+    it('should revert to an earlier revision', async () => {
+      const response = await worker.fetch(
+        apiRequest('/admin/urls/test-slug/revert', 'POST', { revision: 1 }),
+        testEnv,
+        {} as ExecutionContext
+      )
+      const result = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(result.data.url).toBe('https://example.com/v1')
+      expect(result.data.tags).toBeUndefined()
+
+      const history = await worker.fetch(
+        apiRequest('/admin/urls/test-slug/history', 'GET'),
+        testEnv,
+        {} as ExecutionContext
+      )
+      const latest = (await history.json()).data[0]
+      expect(latest).toMatchObject({ id: 3, action: 'revert', revertedTo: 1 })
+    })
+
+    it('should keep history when a slug is renamed', async () => {
+      await worker.fetch(
+        apiRequest('/admin/urls/test-slug/rename', 'POST', { slug: 'new-slug' }),
+        testEnv,
+        {} as ExecutionContext
+      )
+
+      const response = await worker.fetch(
+        apiRequest('/admin/urls/new-slug/history', 'GET'),
+        testEnv,
+        {} as ExecutionContext
+      )
+      const result = await response.json()
+
+      expect(result.data).toHaveLength(3)
+      expect(result.data[0].changes.slug).toEqual({ before: 'test-slug', after: 'new-slug' })
+    })
+
+    it('should reject unknown revisions', async () => {
+      const response = await worker.fetch(
+        apiRequest('/admin/urls/test-slug/revert', 'POST', { revision: 9 }),
+        testEnv,
+        {} as ExecutionContext
+      )
+
+      expect(response.status).toBe(404)
+    })
+  })
+
+  describe('Trash', () => {
+    const trashRequest = (path: string, method: string = 'POST') =>
+      createAuthenticatedRequest(getTestUrl(path), { method })
+
+    beforeEach(async () => {
+      await testEnv.URLS_KV.put(
+        'urls:test-slug',
+        JSON.stringify({ ...createTestURL('test-slug'), aliases: ['old-slug'] })
+      )
+      await testEnv.URLS_KV.put(
+        'alias:old-slug',
+        JSON.stringify({ alias: 'old-slug', slug: 'test-slug', created: '2024-01-01T00:00:00Z' })
+      )
+      await worker.fetch(
+        trashRequest('/admin/urls/test-slug', 'DELETE'),
+        testEnv,
+        {} as ExecutionContext
+      )
+    })
+
+    it('should keep deleted slugs reserved', async () => {
+      const response = await worker.fetch(
+        createAuthenticatedRequest(getTestUrl('/admin/urls'), {
+          method: 'POST',
+          body: JSON.stringify({ url: 'https://example.com/new', slug: 'test-slug' }),
+        }),
+        testEnv,
+        {} as ExecutionContext
+      )
+
+      expect(response.status).toBe(409)
+    })
+
+    it('should hide deleted URLs from lists and edits', async () => {
+      const list = await worker.fetch(
+        trashRequest('/admin/urls', 'GET'),
+        testEnv,
+        {} as ExecutionContext
+      )
+      expect((await list.json()).total).toBe(0)
+
+      const update = await worker.fetch(
+        createAuthenticatedRequest(getTestUrl('/admin/urls/test-slug'), {
+          method: 'PUT',
+          body: JSON.stringify({ url: 'https://example.com/changed' }),
+        }),
+        testEnv,
+        {} as ExecutionContext
+      )
+      expect(update.status).toBe(404)
+    })
+
+    it('should restore a deleted URL', async () => {
+      const response = await worker.fetch(
+        trashRequest('/admin/urls/test-slug/restore'),
+        testEnv,
+        {} as ExecutionContext
+      )
+      const result = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(result.data.deletedAt).toBeUndefined()
+
+      const redirect = await worker.fetch(
+        new Request(getTestUrl('/old-slug')),
+        testEnv,
+        createTestContext()
+      )
+      expect(redirect.status).toBe(301)
+    })
+
+    it('should purge a deleted URL and its aliases', async () => {
+      const response = await worker.fetch(
+        trashRequest('/admin/urls/test-slug/purge'),
+        testEnv,
+        {} as ExecutionContext
+      )
+
+      expect(response.status).toBe(200)
+      expect(await testEnv.URLS_KV.get('urls:test-slug')).toBeNull()
+      expect(await testEnv.URLS_KV.get('alias:old-slug')).toBeNull()
+    })
+
+    it('should start a recreated slug with no clicks', async () => {
+      await testEnv.URLS_KV.put(
+        'counter:test-slug',
+        JSON.stringify({ total: 5, daily: { '2024-01-01': 5 } })
+      )
+      await testEnv.URLS_KV.put('click:test-slug:1704067200000:abc', '{}', {
+        metadata: { timestamp: '2024-01-01T00:00:00Z' },
+      })
+
+      await worker.fetch(
+        trashRequest('/admin/urls/test-slug/purge'),
+        testEnv,
+        {} as ExecutionContext
+      )
+      const create = await worker.fetch(
+        createAuthenticatedRequest(getTestUrl('/admin/urls'), {
+          method: 'POST',
+          body: JSON.stringify({ url: 'https://example.com/new', slug: 'test-slug' }),
+        }),
+        testEnv,
+        {} as ExecutionContext
+      )
+      expect(create.status).toBe(201)
+
+      expect((await getClickCounter(testEnv, 'test-slug')).total).toBe(0)
+      expect((await listClickEvents(testEnv, 'test-slug')).events).toEqual([])
+    })
+
+    it('should only purge URLs that are in the trash', async () => {
+      await testEnv.URLS_KV.put('urls:live', JSON.stringify(createTestURL('live')))
+
+      const response = await worker.fetch(
+        trashRequest('/admin/urls/live/purge'),
+        testEnv,
+        {} as ExecutionContext
+      )
+
+      expect(response.status).toBe(404)
+      expect(await testEnv.URLS_KV.get('urls:live')).not.toBeNull()
+    })
+  })
+
+  describe('GET /admin/audit.json', () => {
+    const apiRequest = (path: string, method: string, body?: unknown) =>
+      createAuthenticatedRequest(getTestUrl(path), {
+        method,
+        body: body === undefined ? undefined : JSON.stringify(body),
+        headers: { 'CF-Connecting-IP': '203.0.113.9' },
+      })
+
+    beforeEach(async () => {
+      await worker.fetch(
+        apiRequest('/admin/urls', 'POST', { url: 'https://example.com', slug: 'test-slug' }),
+        testEnv,
+        {} as ExecutionContext
+      )
+      await worker.fetch(
+        apiRequest('/admin/urls/missing-slug', 'PUT', { url: 'https://example.com/new' }),
+        testEnv,
+        {} as ExecutionContext
+      )
+    })
+
+    it('should record actions with actor, outcome and client', async () => {
+      const response = await worker.fetch(
+        apiRequest('/admin/audit.json', 'GET'),
+        testEnv,
+        {} as ExecutionContext
+      )
+      const result = await response.json()
+
+      expect(response.status).toBe(200)
+      const entry = (action: string) =>
+        result.data.find((e: { action: string }) => e.action === action)
+      expect(result.data).toHaveLength(2)
+      expect(entry('update')).toMatchObject({
+        action: 'update',
+        outcome: 'failure',
+        target: 'missing-slug',
+        actor: { type: 'api-key' },
+        ip: '203.0.113.9',
+        detail: 'URL not found',
+      })
+      expect(entry('create')).toMatchObject({
+        action: 'create',
+        outcome: 'success',
+        target: 'test-slug',
+      })
+    })
+
+    it('should filter by action and outcome', async () => {
+      const response = await worker.fetch(
+        apiRequest('/admin/audit.json?action=create&outcome=success', 'GET'),
+        testEnv,
+        {} as ExecutionContext
+      )
+      const result = await response.json()
+
+      expect(result.data).toHaveLength(1)
+      expect(result.data[0].action).toBe('create')
+    })
+
+    it('should reject invalid filters', async () => {
+      const response = await worker.fetch(
+        apiRequest('/admin/audit.json?action=explode', 'GET'),
+        testEnv,
+        {} as ExecutionContext
+      )
+
+      expect(response.status).toBe(400)
+    })
+  })
+
+  describe('API tokens', () => {
+    const tokenRequest = (
+      token: string,
+      path: string,
+      method: string = 'GET',
+      body?: unknown
+    ) =>
+      new Request(getTestUrl(path), {
+        method,
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      })
+
+    it('should allow operations within the token scopes', async () => {
+      const { value } = await issueToken(testEnv, {
+        name: 'Chrome extension',
+        scopes: ['read', 'create'],
+      })
+
+      const created = await worker.fetch(
+        tokenRequest(value, '/admin/urls', 'POST', { url: 'https://example.com', slug: 'test-slug' }),
+        testEnv,
+        {} as ExecutionContext
+      )
+      const listed = await worker.fetch(
+        tokenRequest(value, '/admin/urls'),
+        testEnv,
+        {} as ExecutionContext
+      )
+
+      expect(created.status).toBe(201)
+      expect(listed.status).toBe(200)
+
+      const history = await worker.fetch(
+        createAuthenticatedRequest(getTestUrl('/admin/urls/test-slug/history')),
+        testEnv,
+        {} as ExecutionContext
+      )
+      expect((await history.json()).data[0].actor).toEqual({
+        type: 'api-key',
+        name: 'Chrome extension',
+      })
+    })
+
+    it('should reject operations outside the token scopes', async () => {
+      await testEnv.URLS_KV.put(
+        'urls:test-slug',
+        JSON.stringify(createTestURL('test-slug'))
+      )
+      const { value } = await issueToken(testEnv, {
+        name: 'Backup job',
+        scopes: ['read'],
+      })
+
+      const response = await worker.fetch(
+        tokenRequest(value, '/admin/urls/test-slug', 'DELETE'),
+        testEnv,
+        {} as ExecutionContext
+      )
+      const result = await response.json()
+
+      expect(response.status).toBe(403)
+      expect(result.error).toBe('Token does not have the "delete" scope')
+    })
+
+    it('should record when a token was last used', async () => {
+      const { token, value } = await issueToken(testEnv, {
+        name: 'CI',
+        scopes: ['admin'],
+      })
+      expect(token.lastUsed).toBeUndefined()
+
+      await worker.fetch(
+        tokenRequest(value, '/admin/audit.json'),
+        testEnv,
+        {} as ExecutionContext
+      )
+
+      const [listed] = await listTokens(testEnv)
+      expect(listed.lastUsed).toBeDefined()
+    })
+
+    it('should reject revoked, expired and tampered tokens', async () => {
+      const revoked = await issueToken(testEnv, { name: 'Old', scopes: ['read'] })
+      await revokeToken(testEnv, revoked.token.id)
+      const expired = await issueToken(testEnv, {
+        name: 'Expired',
+        scopes: ['read'],
+        expiresAt: new Date(Date.now() - 1000).toISOString(),
+      })
+      const valid = await issueToken(testEnv, { name: 'Valid', scopes: ['read'] })
+      const tampered = valid.value.slice(0, -1) + (valid.value.endsWith('0') ? '1' : '0')
+
+      for (const value of [revoked.value, expired.value, tampered]) {
+        const response = await worker.fetch(
+          tokenRequest(value, '/admin/urls'),
+          testEnv,
+          {} as ExecutionContext
+        )
+        expect(response.status).toBe(401)
+      }
+    })
+  })
+
+  describe('POST /admin/urls/{slug}/rename', () => {
+    it('should rename URL and keep the old slug redirecting', async () => {
+      await testEnv.URLS_KV.put(
+        'urls:tpyo',
+        JSON.stringify(createTestURL('tpyo', 'https://example.com/talk'))
+      )
+
+      const request = createAuthenticatedRequest(
+        getTestUrl('/admin/urls/tpyo/rename'),
+        {
+          method: 'POST',
+          body: JSON.stringify({ slug: 'typo' }),
+        }
+      )
+      const response = await worker.fetch(
+        request,
+        testEnv,
+        {} as ExecutionContext
+      )
+      const result = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(result.data.slug).toBe('typo')
+      expect(result.data.aliases).toEqual(['tpyo'])
+      expect(result.shortUrl).toBe(`${getTestBaseUrl()}/typo`)
+      expect(await testEnv.URLS_KV.get('urls:tpyo')).toBeNull()
+
+      const redirect = await worker.fetch(
+        new Request(getTestUrl('/tpyo')),
+        testEnv,
+        createTestContext()
+      )
+      expect(redirect.status).toBe(301)
+      expect(redirect.headers.get('Location')).toBe('https://example.com/talk')
+    })
+
+    it('should re-point existing aliases when renamed again', async () => {
+      await testEnv.URLS_KV.put(
+        'urls:first',
+        JSON.stringify(createTestURL('first', 'https://example.com/talk'))
+      )
+
+      for (const [from, to] of [['first', 'second'], ['second', 'third']]) {
+        await worker.fetch(
+          createAuthenticatedRequest(getTestUrl(`/admin/urls/${from}/rename`), {
+            method: 'POST',
+            body: JSON.stringify({ slug: to }),
+          }),
+          testEnv,
+          {} as ExecutionContext
+        )
+      }
+
+      const alias = JSON.parse(
+        (await testEnv.URLS_KV.get('alias:first')) as string
+      )
+      expect(alias.slug).toBe('third')
+    })
+
+    it('should move click events in batches, leaving the rest to the scheduled job', async () => {
+      await testEnv.URLS_KV.put(
+        'urls:first',
+        JSON.stringify(createTestURL('first', 'https://example.com/talk'))
+      )
+      for (let i = 0; i < 250; i++) {
+        await testEnv.URLS_KV.put(`click:first:${1704067200000 + i}:abc`, '{}', {
+          metadata: { referrer: 'direct' },
+        })
+      }
+
+      for (const [from, to] of [['first', 'second'], ['second', 'third']]) {
+        await worker.fetch(
+          createAuthenticatedRequest(getTestUrl(`/admin/urls/${from}/rename`), {
+            method: 'POST',
+            body: JSON.stringify({ slug: to }),
+          }),
+          testEnv,
+          {} as ExecutionContext
+        )
+      }
+      expect((await listClickEvents(testEnv, 'first')).events).toHaveLength(50)
+      expect(await testEnv.URLS_KV.get('click-move:first')).not.toBeNull()
+
+      // Events still waiting under the first slug follow the later rename
+      await continueClickMoves(testEnv)
+      expect((await listClickEvents(testEnv, 'first')).events).toEqual([])
+      expect((await listClickEvents(testEnv, 'second')).events).toEqual([])
+      expect((await listClickEvents(testEnv, 'third')).events).toHaveLength(250)
+      expect(await testEnv.URLS_KV.get('click-move:first')).toBeNull()
+    })
+
+    it('should reject slugs that are already taken', async () => {
+      await testEnv.URLS_KV.put(
+        'urls:one',
+        JSON.stringify(createTestURL('one'))
+      )
+      await testEnv.URLS_KV.put(
+        'urls:two',
+        JSON.stringify(createTestURL('two'))
+      )
+
+      const request = createAuthenticatedRequest(
+        getTestUrl('/admin/urls/one/rename'),
+        {
+          method: 'POST',
+          body: JSON.stringify({ slug: 'two' }),
+        }
+      )
+      const response = await worker.fetch(
+        request,
+        testEnv,
+        {} as ExecutionContext
+      )
+
+      expect(response.status).toBe(409)
+    })
+  })
+
+  describe('/admin/urls/{slug}/aliases', () => {
+    it('should add aliases that redirect and count towards the canonical slug', async () => {
+      await testEnv.URLS_KV.put(
+        'urls:django20',
+        JSON.stringify(createTestURL('django20', 'https://example.com/deck'))
+      )
+
+      for (const alias of ['talk', 'slides']) {
+        const response = await worker.fetch(
+          createAuthenticatedRequest(getTestUrl('/admin/urls/django20/aliases'), {
+            method: 'POST',
+            body: JSON.stringify({ alias }),
+          }),
+          testEnv,
+          {} as ExecutionContext
+        )
+        expect(response.status).toBe(201)
+      }
+
+      const ctx = createTestContext()
+      const redirect = await worker.fetch(
+        new Request(getTestUrl('/slides'), {
+          headers: { 'User-Agent': 'Mozilla/5.0 (X11; Linux x86_64) Firefox/128.0' },
+        }),
+        testEnv,
+        ctx
+      )
+      await ctx.flush()
+
+      expect(redirect.status).toBe(301)
+      expect(redirect.headers.get('Location')).toBe('https://example.com/deck')
+
+      const counter = JSON.parse(
+        (await testEnv.URLS_KV.get('counter:django20')) as string
+      )
+      expect(counter.total).toBe(1)
+
+      const all = await worker.fetch(
+        new Request(getTestUrl('/all.json')),
+        testEnv,
+        {} as ExecutionContext
+      )
+      const urls = await all.json()
+      expect(urls).toHaveLength(1)
+      expect(urls[0].aliases).toEqual(['talk', 'slides'])
+    })
+
+    it('should reject aliases that clash with existing slugs', async () => {
+      await testEnv.URLS_KV.put('urls:one', JSON.stringify(createTestURL('one')))
+      await testEnv.URLS_KV.put('urls:two', JSON.stringify(createTestURL('two')))
+
+      const response = await worker.fetch(
+        createAuthenticatedRequest(getTestUrl('/admin/urls/one/aliases'), {
+          method: 'POST',
+          body: JSON.stringify({ alias: 'two' }),
+        }),
+        testEnv,
+        {} as ExecutionContext
+      )
+
+      expect(response.status).toBe(409)
+    })
+
+    it('should remove an alias', async () => {
+      await testEnv.URLS_KV.put(
+        'urls:one',
+        JSON.stringify({ ...createTestURL('one'), aliases: ['uno'] })
+      )
+      await testEnv.URLS_KV.put(
+        'alias:uno',
+        JSON.stringify({ alias: 'uno', slug: 'one', created: '2024-01-01T00:00:00Z' })
+      )
+
+      const response = await worker.fetch(
+        createAuthenticatedRequest(getTestUrl('/admin/urls/one/aliases/uno'), {
+          method: 'DELETE',
+        }),
+        testEnv,
+        {} as ExecutionContext
+      )
+      const result = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(result.data.aliases).toBeUndefined()
+      expect(await testEnv.URLS_KV.get('alias:uno')).toBeNull()
+      expect(await testEnv.URLS_KV.get('urls:one')).not.toBeNull()
+    })
+  })
+
+  describe('GET /admin/urls/{slug}/stats', () => {
+    it('should return click stats with breakdowns', async () => {
+      await testEnv.URLS_KV.put(
+        'urls:test-slug',
+        JSON.stringify(createTestURL('test-slug'))
+      )
+      const ctx = createTestContext()
+      await worker.fetch(
+        new Request(getTestUrl('/test-slug'), {
+          headers: {
+            Referer: 'https://twitter.com/',
+            'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 14_0) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Safari/605.1.15',
+          },
+        }),
+        testEnv,
+        ctx
+      )
+      await worker.fetch(
+        new Request(getTestUrl('/test-slug'), {
+          headers: { 'User-Agent': 'Slackbot-LinkExpanding 1.0' },
+        }),
+        testEnv,
+        ctx
+      )
+      await ctx.flush()
+
+      const request = createAuthenticatedRequest(
+        getTestUrl('/admin/urls/test-slug/stats')
+      )
+      const response = await worker.fetch(
+        request,
+        testEnv,
+        {} as ExecutionContext
+      )
+      const result = await response.json()
+
+      expect(response.status).toBe(200)
+      // The Slackbot unfurl is in the breakdowns but not the total
+      expect(result.data.total).toBe(1)
+      expect(result.data.daily).toHaveLength(30)
+      expect(result.data.referrers).toContainEqual({ name: 'twitter.com', count: 1 })
+      expect(result.data.browsers).toContainEqual({ name: 'Safari', count: 1 })
+      expect(result.data.audience).toEqual([
+        { name: 'crawler', count: 1 },
+        { name: 'human', count: 1 },
+      ])
+      expect(result.data.partial).toBe(false)
+    })
+
+    it('should cap the click events read and mark the breakdowns partial', async () => {
+      for (let i = 0; i < 1001; i++) {
+        await testEnv.URLS_KV.put(`click:test-slug:${1704067200000 + i}:abc`, '{}', {
+          metadata: { referrer: 'direct' },
+        })
+      }
+
+      const capped = await listClickEvents(testEnv, 'test-slug', 1)
+      expect(capped.events).toHaveLength(1000)
+      expect(capped.partial).toBe(true)
+
+      const all = await listClickEvents(testEnv, 'test-slug', 2)
+      expect(all.events).toHaveLength(1001)
+      expect(all.partial).toBe(false)
+    })
+
+    it('should return 404 for non-existent slug', async () => {
+      const request = createAuthenticatedRequest(
+        getTestUrl('/admin/urls/non-existent/stats')
+      )
+      const response = await worker.fetch(
+        request,
+        testEnv,
+        {} as ExecutionContext
+      )
+
+      expect(response.status).toBe(404)
     })
   })
 })
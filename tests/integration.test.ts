@@ -1,16 +1,27 @@
-import { describe, it, expect, beforeEach } from 'vitest'
+import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { 
   storeURL, 
   getURL, 
   updateURL, 
   deleteURL, 
-  listAllURLs 
+  listAllURLs,
+  rebuildIndex,
+  getIndexMeta,
+  continueIndexRebuild,
+  listTrashedURLs,
+  purgeExpiredTrash
 } from '../src/index'
 import { 
   handleCreateURL, 
   handleUpdateURL, 
   handleDeleteURL 
 } from '../src/admin'
+import { importURLs } from '../src/import'
+import { getLoginThrottle } from '../src/throttle'
+import { getTwoFactor } from '../src/totp'
+import { getSessionRecord } from '../src/sessions'
+import { getUTMTemplate } from '../src/utm'
+import { IMPORT, INDEX } from '../src/constants'
 import { testEnv, clearTestData, createTestURL, createAuthenticatedRequest, getTestUrl } from './test-setup'
 
 beforeEach(async () => {
@@ -54,6 +65,34 @@ describe('KV Storage Functions', () => {
     
     const deleted = await getURL(testEnv, 'test-slug')
     expect(deleted).toBeNull()
+
+    const trashed = await getURL(testEnv, 'test-slug', { includeDeleted: true })
+    expect(trashed?.deletedAt).toBeDefined()
+  })
+
+  it('should purge records that outlive the trash retention period', async () => {
+    await storeURL(testEnv, { ...createTestURL('old'), deletedAt: '2024-01-01T00:00:00.000Z' })
+    await storeURL(testEnv, { ...createTestURL('recent'), deletedAt: '2024-01-25T00:00:00.000Z' })
+
+    const purged = await purgeExpiredTrash(
+      { ...testEnv, TRASH_RETENTION_DAYS: '14' },
+      new Date('2024-02-01T00:00:00Z').getTime()
+    )
+
+    expect(purged).toEqual(['old'])
+    expect(await testEnv.URLS_KV.get('urls:old')).toBeNull()
+    expect(await listTrashedURLs(testEnv)).toHaveLength(1)
+  })
+
+  it('should treat malformed records as missing', async () => {
+    for (const key of ['lockout:1.2.3.4', 'totp:user-1', 'session:abc', 'utm-template:news']) {
+      await testEnv.URLS_KV.put(key, '{not json')
+    }
+
+    expect(await getLoginThrottle(testEnv, '1.2.3.4')).toEqual({ challengeMs: 0 })
+    expect(await getTwoFactor(testEnv, 'user-1')).toBeNull()
+    expect(await getSessionRecord(testEnv, 'abc')).toBeNull()
+    expect(await getUTMTemplate(testEnv, 'news')).toBeNull()
   })
 
   it('should list all URL records', async () => {
@@ -70,6 +109,122 @@ describe('KV Storage Functions', () => {
   })
 })
 
+describe('URL Index', () => {
+  it('should keep the index in sync on store, update and delete', async () => {
+    await rebuildIndex(testEnv)
+    await storeURL(testEnv, createTestURL('slug-1', 'https://example.com/1'))
+    await storeURL(testEnv, createTestURL('slug-2', 'https://example.com/2'))
+    await updateURL(testEnv, 'slug-1', { url: 'https://example.com/updated' })
+    await deleteURL(testEnv, 'slug-2')
+
+    const allUrls = await listAllURLs(testEnv)
+    expect(allUrls).toHaveLength(1)
+    expect(allUrls[0].url).toBe('https://example.com/updated')
+  })
+
+  it('should list from a handful of reads once the index is built', async () => {
+    for (let i = 0; i < 20; i++) {
+      await storeURL(testEnv, createTestURL(`slug-${i}`))
+    }
+    await rebuildIndex(testEnv)
+
+    const getSpy = vi.spyOn(testEnv.URLS_KV, 'get')
+    const allUrls = await listAllURLs(testEnv)
+
+    expect(allUrls).toHaveLength(20)
+    expect(getSpy.mock.calls.length).toBeLessThanOrEqual(9)
+    getSpy.mockRestore()
+  })
+
+  it('should write each index shard once per import', async () => {
+    const entries = Array.from({ length: 20 }, (_, i) => ({
+      url: `https://example.com/${i}`,
+      slug: `slug-${i}`,
+    }))
+
+    const getSpy = vi.spyOn(testEnv.URLS_KV, 'get')
+    const putSpy = vi.spyOn(testEnv.URLS_KV, 'put')
+    const report = await importURLs(testEnv, entries, {
+      format: 'json',
+      conflict: 'skip',
+      dryRun: false,
+      actor: { type: 'api-key', name: 'API key' },
+    })
+    const shardWrites = putSpy.mock.calls.filter(([key]) =>
+      key.startsWith('index:shard:')
+    )
+
+    expect(report.summary.created).toBe(20)
+    expect(shardWrites.length).toBeLessThanOrEqual(INDEX.SHARDS)
+    // Five operations a row, as IMPORT.MAX_ENTRIES assumes
+    expect(getSpy.mock.calls.length + putSpy.mock.calls.length).toBeLessThanOrEqual(
+      20 * 5 + 2 * INDEX.SHARDS
+    )
+    expect(IMPORT.MAX_ENTRIES * 5 + 2 * INDEX.SHARDS).toBeLessThan(1000)
+    getSpy.mockRestore()
+    putSpy.mockRestore()
+
+    expect(await listAllURLs(testEnv)).toHaveLength(20)
+  })
+
+  it('should rebuild in pages that each stay within the KV limit', async () => {
+    for (let i = 0; i < 1001; i++) {
+      await testEnv.URLS_KV.put(
+        `urls:slug-${i}`,
+        JSON.stringify(createTestURL(`slug-${i}`))
+      )
+    }
+
+    // Listing never builds the index, it reads a bounded page instead
+    expect(await listAllURLs(testEnv)).toHaveLength(INDEX.FALLBACK_LIMIT)
+    expect(await getIndexMeta(testEnv)).toBeNull()
+
+    const getSpy = vi.spyOn(testEnv.URLS_KV, 'get')
+    const putSpy = vi.spyOn(testEnv.URLS_KV, 'put')
+    const steps = []
+    let progress
+    do {
+      getSpy.mockClear()
+      putSpy.mockClear()
+      progress = await rebuildIndex(testEnv)
+      steps.push(getSpy.mock.calls.length + putSpy.mock.calls.length)
+    } while (!progress.done)
+    getSpy.mockRestore()
+    putSpy.mockRestore()
+
+    expect(steps).toHaveLength(3)
+    expect(Math.max(...steps)).toBeLessThan(1000)
+    expect(progress.count).toBe(1001)
+    expect(await listAllURLs(testEnv)).toHaveLength(1001)
+  })
+
+  it('should only continue a rebuild from the scheduled job when needed', async () => {
+    await testEnv.URLS_KV.put('urls:slug-1', JSON.stringify(createTestURL('slug-1')))
+
+    await continueIndexRebuild(testEnv)
+    const meta = await getIndexMeta(testEnv)
+    expect(meta?.count).toBe(1)
+
+    await continueIndexRebuild(testEnv)
+    expect((await getIndexMeta(testEnv))?.rebuiltAt).toBe(meta?.rebuiltAt)
+  })
+
+  it('should repair records written behind the index', async () => {
+    await storeURL(testEnv, createTestURL('slug-1'))
+    await storeURL(testEnv, createTestURL('slug-3'))
+    await rebuildIndex(testEnv)
+    await testEnv.URLS_KV.put('urls:slug-2', JSON.stringify(createTestURL('slug-2')))
+    await testEnv.URLS_KV.delete('urls:slug-3')
+
+    expect(await listAllURLs(testEnv)).toHaveLength(2)
+    await rebuildIndex(testEnv)
+    expect((await listAllURLs(testEnv)).map((u) => u.slug).sort()).toEqual([
+      'slug-1',
+      'slug-2',
+    ])
+  })
+})
+
 describe('Admin API Functions', () => {
   it('should create URL via handleCreateURL', async () => {
     const request = createAuthenticatedRequest(getTestUrl('/admin/urls'), {
@@ -1,6 +1,13 @@
-import { describe, it, expect } from 'vitest'
+import { describe, it, expect, beforeEach } from 'vitest'
 import worker from '../src/index'
-import { testEnv, createTestURL, getTestUrl } from './test-setup'
+import {
+  testEnv,
+  createTestURL,
+  getTestUrl,
+  createTestContext,
+} from './test-setup'
+import { hashPassword } from '../src/users'
+import { getLinkStats } from '../src/analytics'
 
 type ExecutionContext = import('@cloudflare/workers-types').ExecutionContext
 
@@ -11,7 +18,7 @@ describe('Public Routes', () => {
       const response = await worker.fetch(
         request,
         testEnv,
-        {} as ExecutionContext
+        createTestContext()
       )
 
       expect(response.status).toBe(302)
@@ -23,7 +30,7 @@ describe('Public Routes', () => {
       const response = await worker.fetch(
         request,
         testEnv,
-        {} as ExecutionContext
+        createTestContext()
       )
 
       expect(response.status).toBe(302)
@@ -37,7 +44,7 @@ describe('Public Routes', () => {
       const response = await worker.fetch(
         request,
         testEnv,
-        {} as ExecutionContext
+        createTestContext()
       )
       const data = await response.json()
 
@@ -58,7 +65,7 @@ describe('Public Routes', () => {
       const response = await worker.fetch(
         request,
         testEnv,
-        {} as ExecutionContext
+        createTestContext()
       )
       const data = await response.json()
 
@@ -69,18 +76,74 @@ describe('Public Routes', () => {
       expect(data.some((u: any) => u.slug === 'test-2')).toBe(true)
     })
 
+    it('should filter URLs by tag', async () => {
+      const url1 = { ...createTestURL('test-1'), tags: ['talks'] }
+      const url2 = createTestURL('test-2')
+
+      await testEnv.URLS_KV.put('urls:test-1', JSON.stringify(url1))
+      await testEnv.URLS_KV.put('urls:test-2', JSON.stringify(url2))
+
+      const request = new Request(getTestUrl('/all.json?tag=talks'))
+      const response = await worker.fetch(
+        request,
+        testEnv,
+        createTestContext()
+      )
+      const data = await response.json()
+
+      expect(data).toHaveLength(1)
+      expect(data[0].slug).toBe('test-1')
+    })
+
     it('should have cache headers', async () => {
       const request = new Request(getTestUrl('/all.json'))
       const response = await worker.fetch(
         request,
         testEnv,
-        {} as ExecutionContext
+        createTestContext()
       )
 
       expect(response.headers.get('Cache-Control')).toBe('public, max-age=300')
     })
   })
 
+  describe('Tag collection pages', () => {
+    it('should list links with a tag', async () => {
+      const url1 = {
+        ...createTestURL('test-1'),
+        tags: ['talks'],
+        metadata: { title: 'My Talk', description: 'Slides and video' },
+      }
+      const url2 = { ...createTestURL('test-2'), metadata: { title: 'Other' } }
+
+      await testEnv.URLS_KV.put('urls:test-1', JSON.stringify(url1))
+      await testEnv.URLS_KV.put('urls:test-2', JSON.stringify(url2))
+
+      const response = await worker.fetch(
+        new Request(getTestUrl('/t/talks')),
+        testEnv,
+        createTestContext()
+      )
+      const html = await response.text()
+
+      expect(response.status).toBe(200)
+      expect(html).toContain('#talks')
+      expect(html).toContain('My Talk')
+      expect(html).toContain('Slides and video')
+      expect(html).not.toContain('Other')
+    })
+
+    it('should return 404 for an empty collection', async () => {
+      const response = await worker.fetch(
+        new Request(getTestUrl('/t/nothing')),
+        testEnv,
+        createTestContext()
+      )
+
+      expect(response.status).toBe(404)
+    })
+  })
+
   describe('Short URL redirects', () => {
     it('should redirect to destination URL', async () => {
       const testURL = createTestURL(
@@ -93,7 +156,7 @@ describe('Public Routes', () => {
       const response = await worker.fetch(
         request,
         testEnv,
-        {} as ExecutionContext
+        createTestContext()
       )
 
       expect(response.status).toBe(301)
@@ -102,12 +165,58 @@ describe('Public Routes', () => {
       )
     })
 
+    it('should limit how long browsers cache permanent redirects', async () => {
+      await testEnv.URLS_KV.put(
+        'urls:test-slug',
+        JSON.stringify(createTestURL('test-slug'))
+      )
+
+      const response = await worker.fetch(
+        new Request(getTestUrl('/test-slug')),
+        testEnv,
+        createTestContext()
+      )
+
+      expect(response.headers.get('Cache-Control')).toBe('public, max-age=3600')
+    })
+
+    it("should use the link's own redirect type, uncached if temporary", async () => {
+      await testEnv.URLS_KV.put(
+        'urls:test-slug',
+        JSON.stringify({ ...createTestURL('test-slug'), redirectType: 307 })
+      )
+
+      const response = await worker.fetch(
+        new Request(getTestUrl('/test-slug')),
+        testEnv,
+        createTestContext()
+      )
+
+      expect(response.status).toBe(307)
+      expect(response.headers.get('Cache-Control')).toBe('no-store')
+    })
+
+    it('should fall back to the configured default redirect type', async () => {
+      await testEnv.URLS_KV.put(
+        'urls:test-slug',
+        JSON.stringify(createTestURL('test-slug'))
+      )
+
+      const response = await worker.fetch(
+        new Request(getTestUrl('/test-slug')),
+        { ...testEnv, DEFAULT_REDIRECT_TYPE: '302' },
+        createTestContext()
+      )
+
+      expect(response.status).toBe(302)
+    })
+
     it('should return 404 for non-existent slug', async () => {
       const request = new Request(getTestUrl('/non-existent'))
       const response = await worker.fetch(
         request,
         testEnv,
-        {} as ExecutionContext
+        createTestContext()
       )
 
       expect(response.status).toBe(404)
@@ -124,7 +233,7 @@ describe('Public Routes', () => {
       const response = await worker.fetch(
         request,
         testEnv,
-        {} as ExecutionContext
+        createTestContext()
       )
 
       expect(response.status).toBe(301)
@@ -133,6 +242,38 @@ describe('Public Routes', () => {
       )
     })
 
+    it('should record a click for each redirect', async () => {
+      const testURL = createTestURL(
+        'test-slug',
+        'https://example.com/destination'
+      )
+      await testEnv.URLS_KV.put('urls:test-slug', JSON.stringify(testURL))
+
+      const ctx = createTestContext()
+      const request = new Request(getTestUrl('/test-slug'), {
+        headers: {
+          'CF-Connecting-IP': '203.0.113.7',
+          Referer: 'https://news.ycombinator.com/item?id=1',
+          'User-Agent':
+            'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1',
+        },
+      })
+      await worker.fetch(request, testEnv, ctx)
+      await ctx.flush()
+
+      const counter = JSON.parse(
+        (await testEnv.URLS_KV.get('counter:test-slug')) as string
+      )
+      expect(counter.total).toBe(1)
+
+      const events = await testEnv.URLS_KV.list({ prefix: 'click:test-slug:' })
+      expect(events.keys).toHaveLength(1)
+      const event = events.keys[0].metadata as any
+      expect(event.referrer).toBe('news.ycombinator.com')
+      expect(event.agent).toEqual({ device: 'mobile', browser: 'Safari', os: 'iOS' })
+      expect(event.ipHash).not.toContain('203.0.113.7')
+    })
+
     it('should serve HTML with OG metadata for social media bots', async () => {
       const testURL = createTestURL(
         'test-slug',
@@ -146,7 +287,7 @@ describe('Public Routes', () => {
       const response = await worker.fetch(
         request,
         testEnv,
-        {} as ExecutionContext
+        createTestContext()
       )
       const html = await response.text()
 
@@ -159,13 +300,474 @@ describe('Public Routes', () => {
     })
   })
 
+  describe('Expiring and scheduled links', () => {
+    it('should return 410 for expired links', async () => {
+      const testURL = {
+        ...createTestURL('test-slug'),
+        expiresAt: '2020-01-01T00:00:00.000Z',
+      }
+      await testEnv.URLS_KV.put('urls:test-slug', JSON.stringify(testURL))
+
+      const response = await worker.fetch(
+        new Request(getTestUrl('/test-slug')),
+        testEnv,
+        createTestContext()
+      )
+      const html = await response.text()
+
+      expect(response.status).toBe(410)
+      expect(html).toContain('This link has expired')
+    })
+
+    it('should return 410 for links that are not active yet', async () => {
+      const testURL = {
+        ...createTestURL('test-slug'),
+        activatesAt: '2999-01-01T00:00:00.000Z',
+      }
+      await testEnv.URLS_KV.put('urls:test-slug', JSON.stringify(testURL))
+
+      const response = await worker.fetch(
+        new Request(getTestUrl('/test-slug')),
+        testEnv,
+        createTestContext()
+      )
+      const html = await response.text()
+
+      expect(response.status).toBe(410)
+      expect(html).toContain('not active yet')
+    })
+
+    it('should stop redirecting once maxClicks is reached', async () => {
+      const testURL = { ...createTestURL('test-slug'), maxClicks: 3 }
+      await testEnv.URLS_KV.put('urls:test-slug', JSON.stringify(testURL))
+      await testEnv.URLS_KV.put(
+        'counter:test-slug',
+        JSON.stringify({ total: 3, daily: {} })
+      )
+
+      const response = await worker.fetch(
+        new Request(getTestUrl('/test-slug')),
+        testEnv,
+        createTestContext()
+      )
+
+      expect(response.status).toBe(410)
+    })
+
+    it('should not use up maxClicks on link unfurls', async () => {
+      const testURL = { ...createTestURL('test-slug'), maxClicks: 1 }
+      await testEnv.URLS_KV.put('urls:test-slug', JSON.stringify(testURL))
+
+      const ctx = createTestContext()
+      await worker.fetch(
+        new Request(getTestUrl('/test-slug'), {
+          headers: { 'User-Agent': 'Slackbot-LinkExpanding 1.0' },
+        }),
+        testEnv,
+        ctx
+      )
+      await ctx.flush()
+
+      const response = await worker.fetch(
+        new Request(getTestUrl('/test-slug'), {
+          headers: { 'User-Agent': 'Mozilla/5.0 (X11; Linux x86_64) Firefox/128.0' },
+        }),
+        testEnv,
+        createTestContext()
+      )
+      expect(response.status).toBe(301)
+    })
+
+    it('should redirect unavailable links to the fallback URL', async () => {
+      const testURL = {
+        ...createTestURL('test-slug'),
+        expiresAt: '2020-01-01T00:00:00.000Z',
+        fallbackUrl: 'https://example.com/offer-ended',
+      }
+      await testEnv.URLS_KV.put('urls:test-slug', JSON.stringify(testURL))
+
+      const response = await worker.fetch(
+        new Request(getTestUrl('/test-slug')),
+        testEnv,
+        createTestContext()
+      )
+
+      expect(response.status).toBe(302)
+      expect(response.headers.get('Location')).toBe(
+        'https://example.com/offer-ended'
+      )
+    })
+
+    it('should return 410 for deleted links, even with a fallback URL', async () => {
+      const testURL = {
+        ...createTestURL('test-slug'),
+        deletedAt: '2024-02-01T00:00:00.000Z',
+        fallbackUrl: 'https://example.com/offer-ended',
+      }
+      await testEnv.URLS_KV.put('urls:test-slug', JSON.stringify(testURL))
+
+      const response = await worker.fetch(
+        new Request(getTestUrl('/test-slug')),
+        testEnv,
+        createTestContext()
+      )
+      const html = await response.text()
+
+      expect(response.status).toBe(410)
+      expect(html).toContain('This link has been removed')
+    })
+  })
+
+  describe('Password-protected links', () => {
+    async function storeProtected() {
+      const testURL = {
+        ...createTestURL('test-slug', 'https://example.com/secret-draft'),
+        passwordHash: await hashPassword('open sesame'),
+      }
+      await testEnv.URLS_KV.put('urls:test-slug', JSON.stringify(testURL))
+    }
+    const unlock = (password: string) => {
+      const formData = new FormData()
+      formData.append('password', password)
+      return worker.fetch(
+        new Request(getTestUrl('/test-slug'), { method: 'POST', body: formData }),
+        testEnv,
+        createTestContext()
+      )
+    }
+
+    it('should show an unlock page instead of redirecting', async () => {
+      await storeProtected()
+
+      const response = await worker.fetch(
+        new Request(getTestUrl('/test-slug')),
+        testEnv,
+        createTestContext()
+      )
+      const html = await response.text()
+
+      expect(response.status).toBe(200)
+      expect(response.headers.get('Cache-Control')).toBe('no-store')
+      expect(html).toContain('Protected link')
+      expect(html).not.toContain('secret-draft')
+    })
+
+    it('should not show the destination to crawlers', async () => {
+      await storeProtected()
+
+      const response = await worker.fetch(
+        new Request(getTestUrl('/test-slug'), {
+          headers: { 'User-Agent': 'facebookexternalhit/1.1' },
+        }),
+        testEnv,
+        createTestContext()
+      )
+      const html = await response.text()
+
+      expect(html).not.toContain('secret-draft')
+      expect(html).not.toContain('Test Page Title')
+      expect(html).not.toContain('og:url')
+    })
+
+    it('should reject a wrong passphrase', async () => {
+      await storeProtected()
+
+      const response = await unlock('wrong')
+      expect(response.status).toBe(401)
+      expect(await response.text()).toContain('Wrong passphrase')
+    })
+
+    it('should redirect and remember the visitor after the right passphrase', async () => {
+      await storeProtected()
+
+      const response = await unlock('open sesame')
+      expect(response.status).toBe(302)
+      expect(response.headers.get('Location')).toBe('https://example.com/secret-draft')
+      expect(response.headers.get('Cache-Control')).toBe('no-store')
+      const cookie = response.headers.get('Set-Cookie')!
+      expect(cookie).toContain('unlock_test-slug=')
+      expect(cookie).toContain('HttpOnly')
+
+      const again = await worker.fetch(
+        new Request(getTestUrl('/test-slug'), {
+          headers: { Cookie: cookie.split(';')[0] },
+        }),
+        testEnv,
+        createTestContext()
+      )
+      expect(again.status).toBe(302)
+      expect(again.headers.get('Location')).toBe('https://example.com/secret-draft')
+    })
+
+    it('should ask again after the passphrase changes', async () => {
+      await storeProtected()
+      const cookie = (await unlock('open sesame')).headers.get('Set-Cookie')!
+
+      await storeProtected() // New salt, so a new hash
+      const response = await worker.fetch(
+        new Request(getTestUrl('/test-slug'), {
+          headers: { Cookie: cookie.split(';')[0] },
+        }),
+        testEnv,
+        createTestContext()
+      )
+      expect(response.status).toBe(200)
+      expect(await response.text()).toContain('Protected link')
+    })
+
+    it('should leave protected links out of all.json and tag pages', async () => {
+      await storeProtected()
+      const record = JSON.parse((await testEnv.URLS_KV.get('urls:test-slug'))!)
+      await testEnv.URLS_KV.put(
+        'urls:test-slug',
+        JSON.stringify({ ...record, tags: ['drafts'] })
+      )
+
+      const json = await worker.fetch(
+        new Request(getTestUrl('/all.json')),
+        testEnv,
+        createTestContext()
+      )
+      const page = await worker.fetch(
+        new Request(getTestUrl('/t/drafts')),
+        testEnv,
+        createTestContext()
+      )
+
+      expect(await json.json()).toEqual([])
+      expect(await page.text()).not.toContain('secret-draft')
+    })
+  })
+
+  describe('Query strings and prefix links', () => {
+    const visit = (path: string) =>
+      worker.fetch(new Request(getTestUrl(path)), testEnv, createTestContext())
+
+    const storeLink = (extra: Record<string, unknown>) =>
+      testEnv.URLS_KV.put(
+        'urls:docs',
+        JSON.stringify({
+          ...createTestURL('docs', 'https://example.com/page?ref=site&x=1'),
+          ...extra,
+        })
+      )
+
+    it('should drop the query string by default', async () => {
+      await storeLink({})
+
+      const response = await visit('/docs?ref=newsletter')
+
+      expect(response.headers.get('Location')).toBe(
+        'https://example.com/page?ref=site&x=1'
+      )
+    })
+
+    it('should let incoming parameters win conflicts', async () => {
+      await storeLink({ queryPassthrough: 'incoming' })
+
+      const response = await visit('/docs?ref=newsletter&y=2')
+
+      expect(response.headers.get('Location')).toBe(
+        'https://example.com/page?x=1&ref=newsletter&y=2'
+      )
+    })
+
+    it("should keep the destination's parameters on conflicts", async () => {
+      await storeLink({ queryPassthrough: 'destination' })
+
+      const response = await visit('/docs?ref=newsletter&y=2')
+
+      expect(response.headers.get('Location')).toBe(
+        'https://example.com/page?ref=site&x=1&y=2'
+      )
+    })
+
+    it('should keep both values on conflicts', async () => {
+      await storeLink({ queryPassthrough: 'both' })
+
+      const response = await visit('/docs?ref=newsletter')
+
+      expect(response.headers.get('Location')).toBe(
+        'https://example.com/page?ref=site&x=1&ref=newsletter'
+      )
+    })
+
+    it('should append the rest of the path for prefix links', async () => {
+      await testEnv.URLS_KV.put(
+        'urls:docs',
+        JSON.stringify({
+          ...createTestURL('docs', 'https://example.com/docs/'),
+          prefix: true,
+          queryPassthrough: 'incoming',
+        })
+      )
+
+      const response = await visit('/docs/Getting-Started/install?v=2')
+
+      expect(response.status).toBe(301)
+      expect(response.headers.get('Location')).toBe(
+        'https://example.com/docs/Getting-Started/install?v=2'
+      )
+    })
+
+    it("should add the link's UTM parameters, replacing the destination's", async () => {
+      await testEnv.URLS_KV.put(
+        'urls:docs',
+        JSON.stringify({
+          ...createTestURL('docs', 'https://example.com/page?utm_source=site'),
+          utm: { source: 'newsletter', campaign: 'spring' },
+        })
+      )
+
+      const response = await visit('/docs')
+
+      expect(response.headers.get('Location')).toBe(
+        'https://example.com/page?utm_source=newsletter&utm_campaign=spring'
+      )
+    })
+
+    it('should return 404 for extra path on other links', async () => {
+      await storeLink({})
+
+      const response = await visit('/docs/getting-started')
+
+      expect(response.status).toBe(404)
+    })
+  })
+
+  describe('Targeted links', () => {
+    const IPHONE =
+      'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1'
+    const ANDROID =
+      'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36'
+
+    const visit = (headers: Record<string, string>, country?: string) => {
+      const request = new Request(getTestUrl('/app'), { headers })
+      if (country) Object.defineProperty(request, 'cf', { value: { country } })
+      return worker.fetch(request, testEnv, createTestContext())
+    }
+
+    beforeEach(async () => {
+      await testEnv.URLS_KV.put(
+        'urls:app',
+        JSON.stringify({
+          ...createTestURL('app', 'https://example.com/app'),
+          targets: [
+            { os: ['iOS'], url: 'https://apps.apple.com/app/example' },
+            { os: ['Android'], url: 'https://play.google.com/store/apps/example' },
+            { country: ['DE', 'AT'], url: 'https://example.de/app' },
+            { language: ['fr'], url: 'https://example.fr/app' },
+          ],
+        })
+      )
+    })
+
+    it('should send each OS to its own destination', async () => {
+      const iphone = await visit({ 'User-Agent': IPHONE })
+      const android = await visit({ 'User-Agent': ANDROID })
+
+      expect(iphone.headers.get('Location')).toBe('https://apps.apple.com/app/example')
+      expect(android.headers.get('Location')).toBe(
+        'https://play.google.com/store/apps/example'
+      )
+    })
+
+    it('should route by country and preferred language', async () => {
+      const german = await visit({}, 'de')
+      const french = await visit({ 'Accept-Language': 'fr-CA,en;q=0.8' })
+      const english = await visit({ 'Accept-Language': 'en-GB,fr;q=0.5' })
+
+      expect(german.headers.get('Location')).toBe('https://example.de/app')
+      expect(french.headers.get('Location')).toBe('https://example.fr/app')
+      expect(english.headers.get('Location')).toBe('https://example.com/app')
+    })
+
+    it('should keep targeted redirects out of shared caches', async () => {
+      const response = await visit({})
+
+      expect(response.status).toBe(301)
+      expect(response.headers.get('Cache-Control')).toMatch(/^private/)
+      expect(response.headers.get('Vary')).toBe('User-Agent, Accept-Language')
+    })
+  })
+
+  describe('A/B split links', () => {
+    const BROWSER =
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+
+    const visit = (headers: Record<string, string>, ctx = createTestContext()) =>
+      worker.fetch(
+        new Request(getTestUrl('/landing'), {
+          headers: { 'User-Agent': BROWSER, ...headers },
+        }),
+        testEnv,
+        ctx
+      )
+
+    beforeEach(async () => {
+      await testEnv.URLS_KV.put(
+        'urls:landing',
+        JSON.stringify({
+          ...createTestURL('landing', 'https://example.com/landing'),
+          variants: [
+            { name: 'a', weight: 50, url: 'https://example.com/landing' },
+            { name: 'b', weight: 50, url: 'https://example.com/landing-new' },
+          ],
+        })
+      )
+    })
+
+    it('should assign a variant and keep the visitor in it', async () => {
+      const headers = { 'CF-Connecting-IP': '203.0.113.7' }
+      const first = await visit(headers)
+      const cookie = first.headers.get('Set-Cookie')!
+      const again = await visit(headers)
+
+      expect(cookie).toMatch(/^ab_landing=(a|b);/)
+      expect(first.headers.get('Cache-Control')).toMatch(/^private/)
+      expect(again.headers.get('Location')).toBe(first.headers.get('Location'))
+
+      const otherVariant = cookie.startsWith('ab_landing=a') ? 'b' : 'a'
+      const withCookie = await visit({
+        ...headers,
+        Cookie: `ab_landing=${otherVariant}`,
+      })
+      expect(withCookie.headers.get('Location')).not.toBe(
+        first.headers.get('Location')
+      )
+      expect(withCookie.headers.get('Set-Cookie')).toBeNull()
+    })
+
+    it('should attribute clicks to the variant', async () => {
+      const ctx = createTestContext()
+      await visit({ Cookie: 'ab_landing=b' }, ctx)
+      await ctx.flush()
+
+      const events = await testEnv.URLS_KV.list({ prefix: 'click:landing:' })
+      expect((events.keys[0].metadata as any).variant).toBe('b')
+      expect((await getLinkStats(testEnv, 'landing')).variants).toEqual([
+        { name: 'b', count: 1 },
+      ])
+    })
+
+    it('should send crawlers to the primary destination', async () => {
+      const response = await visit({
+        'User-Agent': 'Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)',
+        Cookie: 'ab_landing=b',
+      })
+
+      expect(response.headers.get('Location')).toBe('https://example.com/landing')
+      expect(response.headers.get('Set-Cookie')).toBeNull()
+    })
+  })
+
   describe('Health check', () => {
     it('should respond to health check', async () => {
       const request = new Request(getTestUrl('/health'))
       const response = await worker.fetch(
         request,
         testEnv,
-        {} as ExecutionContext
+        createTestContext()
       )
       const text = await response.text()
 
@@ -178,7 +780,7 @@ describe('Public Routes', () => {
       const response = await worker.fetch(
         request,
         testEnv,
-        {} as ExecutionContext
+        createTestContext()
       )
       const text = await response.text()
 
@@ -4,31 +4,44 @@ import { Env } from '../src/types'
 // Mock KV store for testing
 class MockKVNamespace {
   private store = new Map<string, string>()
+  private metadata = new Map<string, unknown>()
   
   async get(key: string): Promise<string | null> {
     return this.store.get(key) || null
   }
   
-  async put(key: string, value: string): Promise<void> {
+  async put(key: string, value: string, options?: { metadata?: unknown }): Promise<void> {
     this.store.set(key, value)
+    if (options?.metadata !== undefined) {
+      this.metadata.set(key, options.metadata)
+    } else {
+      this.metadata.delete(key)
+    }
   }
   
   async delete(key: string): Promise<void> {
     this.store.delete(key)
+    this.metadata.delete(key)
   }
   
-  async list(options?: { prefix?: string }): Promise<{ keys: { name: string }[] }> {
-    const keys: { name: string }[] = []
-    for (const [key] of this.store) {
-      if (!options?.prefix || key.startsWith(options.prefix)) {
-        keys.push({ name: key })
-      }
-    }
-    return { keys }
+  async list(options?: { prefix?: string; limit?: number; cursor?: string }) {
+    const names = [...this.store.keys()]
+      .filter((key) => !options?.prefix || key.startsWith(options.prefix))
+      .sort()
+    const start = options?.cursor ? parseInt(options.cursor) : 0
+    const end = start + (options?.limit || 1000)
+    const keys = names.slice(start, end).map((name) => ({
+      name,
+      metadata: this.metadata.get(name),
+    }))
+    return end < names.length
+      ? { keys, list_complete: false, cursor: String(end) }
+      : { keys, list_complete: true }
   }
   
   clear() {
     this.store.clear()
+    this.metadata.clear()
   }
 }
 
@@ -72,6 +85,25 @@ export function createTestURL(slug: string, url: string = 'https://example.com')
   }
 }
 
+// Background work from every test context, settled before data is cleared
+const backgroundWork: Promise<unknown>[] = []
+
+// Helper to create an execution context whose background work can be awaited
+export function createTestContext() {
+  const pending: Promise<unknown>[] = []
+  return {
+    waitUntil(promise: Promise<unknown>) {
+      pending.push(promise)
+      backgroundWork.push(promise)
+    },
+    passThroughOnException() {},
+    props: {},
+    async flush() {
+      await Promise.all(pending)
+    },
+  }
+}
+
 // Helper to make authenticated API request
 export function createAuthenticatedRequest(url: string, options: RequestInit = {}) {
   return new Request(url, {
@@ -86,5 +118,6 @@ export function createAuthenticatedRequest(url: string, options: RequestInit = {
 
 // Setup that runs before each test
 beforeEach(async () => {
+  await Promise.allSettled(backgroundWork.splice(0))
   await clearTestData()
 })
\ No newline at end of file
@@ -6,9 +6,22 @@ import {
   generateUniqueSlug,
   normalizeURL,
   escapeHTML,
-  isSocialMediaCrawler
+  isSocialMediaCrawler,
+  normalizeTags
 } from '../src/index'
 import { authenticateAPIKey } from '../src/admin'
+import { classifyUserAgent, countRecentClicks, dayKey } from '../src/analytics'
+import { parseCSV, parseImport } from '../src/import'
+import { diffRecords } from '../src/history'
+import { hashPassword, verifyPassword } from '../src/users'
+import { generateTOTP, verifyTOTP } from '../src/totp'
+import { issueLoginChallenge, checkLoginChallenge } from '../src/throttle'
+import {
+  getPreferredLanguage,
+  parseTargetingRules,
+  parseTargetingText,
+  formatTargetingRules,
+} from '../src/targeting'
 import { testEnv } from './test-setup'
 
 describe('URL Validation', () => {
@@ -107,6 +120,52 @@ describe('Authentication', () => {
     })
     expect(authenticateAPIKey(request, testEnv)).toBe(false)
   })
+
+  it('should hash passwords with a per-password salt', async () => {
+    const first = await hashPassword('correct horse battery')
+    const second = await hashPassword('correct horse battery')
+
+    expect(first).toMatch(/^pbkdf2\$100000\$[a-f0-9]{32}\$[a-f0-9]{64}$/)
+    expect(first).not.toBe(second)
+    expect(await verifyPassword('correct horse battery', first)).toBe(true)
+    expect(await verifyPassword('correct horse battery!', first)).toBe(false)
+  })
+})
+
+describe('Two-Factor Codes', () => {
+  // RFC 6238 test secret "12345678901234567890", in base32
+  const secret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ'
+
+  it('should match the RFC 6238 test vectors', async () => {
+    expect(await generateTOTP(secret, 59 * 1000)).toBe('287082')
+    expect(await generateTOTP(secret, 1111111109 * 1000)).toBe('081804')
+    expect(await generateTOTP(secret, 20000000000 * 1000)).toBe('353130')
+  })
+
+  it('should allow one step of clock drift but not replays', async () => {
+    const now = 1111111109 * 1000
+    const step = Math.floor(1111111109 / 30)
+    const previous = await generateTOTP(secret, now - 30000)
+
+    expect(await verifyTOTP(secret, previous, -1, now)).toBe(step - 1)
+    expect(await verifyTOTP(secret, previous, step - 1, now)).toBeNull()
+    expect(await verifyTOTP(secret, await generateTOTP(secret, now - 90000), -1, now)).toBeNull()
+  })
+})
+
+describe('Login Challenges', () => {
+  it('should only accept a challenge after its delay, from the same IP', async () => {
+    const issued = Date.now() - 5000
+    const token = await issueLoginChallenge('secret', '203.0.113.1', 4000, issued)
+
+    expect(await checkLoginChallenge('secret', '203.0.113.1', token, 4000)).toBe('ok')
+    expect(await checkLoginChallenge('secret', '203.0.113.1', token, 8000)).toBe('invalid')
+    expect(await checkLoginChallenge('secret', '203.0.113.2', token, 4000)).toBe('invalid')
+    expect(await checkLoginChallenge('other', '203.0.113.1', token, 4000)).toBe('invalid')
+
+    const fresh = await issueLoginChallenge('secret', '203.0.113.1', 4000)
+    expect(await checkLoginChallenge('secret', '203.0.113.1', fresh, 4000)).toBe('early')
+  })
 })
 
 describe('Utility Functions', () => {
@@ -125,4 +184,123 @@ describe('Utility Functions', () => {
     expect(isSocialMediaCrawler('Mozilla/5.0 (compatible; Slackbot-LinkExpanding 1.0')).toBe(true)
     expect(isSocialMediaCrawler('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36')).toBe(false)
   })
-})
\ No newline at end of file
+})
+
+describe('Tags', () => {
+  it('should normalize tags', () => {
+    expect(normalizeTags('Talks, django,  talks ,')).toEqual(['talks', 'django'])
+    expect(normalizeTags(['Open Source'])).toEqual(['open-source'])
+  })
+
+  it('should reject invalid tags', () => {
+    expect(normalizeTags(['c++'])).toBeNull()
+    expect(normalizeTags(['a'.repeat(31)])).toBeNull()
+  })
+})
+
+describe('Targeting Rules', () => {
+  it('should read and write rules one per line', () => {
+    const text = 'os:iOS https://apps.apple.com/app\ncountry:DE,AT language:de https://example.de'
+    const { targets } = parseTargetingRules(parseTargetingText(text))
+
+    expect(targets).toEqual([
+      { os: ['iOS'], url: 'https://apps.apple.com/app' },
+      { country: ['DE', 'AT'], language: ['de'], url: 'https://example.de/' },
+    ])
+    expect(formatTargetingRules(targets!)).toBe(
+      'os:iOS https://apps.apple.com/app\ncountry:DE,AT language:de https://example.de/'
+    )
+  })
+
+  it('should pick the most preferred language', () => {
+    expect(getPreferredLanguage('en;q=0.5, de-AT, fr;q=0.9')).toBe('de-at')
+    expect(getPreferredLanguage('*')).toBe('')
+    expect(getPreferredLanguage(null)).toBe('')
+  })
+})
+
+describe('Click Analytics', () => {
+  it('should classify user agents', () => {
+    expect(
+      classifyUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Safari/537.36')
+    ).toEqual({ device: 'desktop', browser: 'Chrome', os: 'Windows' })
+    expect(
+      classifyUserAgent('Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Mobile Safari/537.36')
+    ).toEqual({ device: 'mobile', browser: 'Chrome', os: 'Android' })
+    expect(classifyUserAgent('Twitterbot/1.0').device).toBe('bot')
+    expect(classifyUserAgent('').device).toBe('bot')
+  })
+
+  it('should count recent clicks from daily buckets', () => {
+    const now = Date.now()
+    const counter = {
+      total: 10,
+      daily: { [dayKey(now)]: 2, [dayKey(now, 6)]: 3, [dayKey(now, 7)]: 5 },
+    }
+    expect(countRecentClicks(counter, 7, now)).toBe(5)
+  })
+})
+
+describe('Import Parsing', () => {
+  it('should parse quoted CSV fields', () => {
+    expect(parseCSV('url,title\r\nhttps://a.com,"Hello, ""world"""\n\n')).toEqual([
+      ['url', 'title'],
+      ['https://a.com', 'Hello, "world"'],
+    ])
+  })
+
+  it('should map Bitly and Shlink exports to import entries', () => {
+    const bitly = parseImport(
+      JSON.stringify({
+        links: [
+          {
+            id: 'bit.ly/3abcd',
+            custom_bitlinks: ['https://bit.ly/my-talk'],
+            long_url: 'https://example.com/talk',
+            title: 'Talk',
+            created_at: '2023-05-01T10:00:00+0000',
+          },
+        ],
+      }),
+      'bitly'
+    )
+    expect(bitly[0]).toMatchObject({ url: 'https://example.com/talk', slug: 'my-talk', title: 'Talk' })
+
+    const shlink = parseImport(
+      'shortCode,longUrl,createdAt,tags\nabc12,https://example.com,2023-05-01,a|b\n',
+      'shlink'
+    )
+    expect(shlink[0]).toMatchObject({ url: 'https://example.com', slug: 'abc12', tags: 'a,b' })
+  })
+})
+
+describe('Revision History', () => {
+  it('should diff records, ignoring the updated timestamp', () => {
+    const before = {
+      url: 'https://a.com',
+      slug: 'a-slug',
+      created: '2024-01-01T00:00:00Z',
+      updated: '2024-01-01T00:00:00Z',
+      tags: ['x'],
+    }
+    const after = { ...before, updated: '2024-02-01T00:00:00Z', tags: undefined, maxClicks: 5 }
+
+    expect(diffRecords(before, after)).toEqual({
+      tags: { before: ['x'], after: undefined },
+      maxClicks: { before: undefined, after: 5 },
+    })
+  })
+
+  it('should note passphrase changes without the hash', () => {
+    const before = {
+      url: 'https://a.com',
+      slug: 'a-slug',
+      created: '2024-01-01T00:00:00Z',
+      updated: '2024-01-01T00:00:00Z',
+    }
+    const after = { ...before, passwordHash: 'pbkdf2$1$ab$cd' }
+
+    expect(diffRecords(before, after)).toEqual({ password: { changed: true } })
+    expect(diffRecords(after, after)).toEqual({})
+  })
+})